@@ -24,7 +24,7 @@ const nextConfig: NextConfig = {
     };
     return config;
   },
-  serverExternalPackages: ['sharp', 'dicom-parser'],
+  serverExternalPackages: ['sharp', 'dicom-parser', 'better-sqlite3', 'jspdf', '@cornerstonejs/codec-charls', '@cornerstonejs/codec-openjpeg'],
 }
 
 export default nextConfig
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getAIConfig } from '@/lib/ai-providers';
+import { getDeidentificationConfig } from '@/lib/deidentification';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Active AI provider settings, without secrets, and how studies are
+ * de-identified before they are sent
+ */
+export async function GET() {
+  try {
+    const config = getAIConfig();
+    const deidentification = getDeidentificationConfig();
+    return NextResponse.json({
+      provider: config.provider,
+      model: config.model,
+      baseUrl: config.baseUrl || undefined,
+      hasApiKey: !!config.apiKey,
+      concurrency: config.concurrency,
+      deidentification: {
+        profile: deidentification.profile,
+        retain: deidentification.retain,
+        blankRegions: deidentification.blankRegions.length
+      }
+    });
+  } catch (error) {
+    console.error('AI configuration error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid AI configuration' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { CriticalAlertStateError, CriticalAlerts, criticalAlertActionSchema } from '@/lib/critical-alerts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const alert = CriticalAlerts.get(id);
+  if (!alert) {
+    return NextResponse.json(
+      { error: `Alert ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ alert });
+}
+
+/**
+ * Alert actions: acknowledge, as the signed-in user, and resend, for an
+ * alert whose delivery failed
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    const result = criticalAlertActionSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const alert = result.data.action === 'acknowledge'
+      ? CriticalAlerts.acknowledge(id, user.name)
+      : await CriticalAlerts.resend(id);
+    if (!alert) {
+      return NextResponse.json(
+        { error: `Alert ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, alert });
+
+  } catch (error) {
+    if (error instanceof CriticalAlertStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Critical alert action error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update critical alert' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { CriticalAlerts, criticalAlertListSchema } from '@/lib/critical-alerts';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Critical result alerts, newest first. ?status=open lists those not yet
+ * acknowledged, ?status=acknowledged the others; ?jobId= limits the list
+ * to one processing job.
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const params = Object.fromEntries(Array.from(searchParams).filter(([, value]) => value.trim() !== ''));
+
+    const result = criticalAlertListSchema.safeParse(params);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ alerts: CriticalAlerts.list(result.data) });
+  } catch (error) {
+    console.error('List critical alerts error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list critical alerts' },
+      { status: 500 }
+    );
+  }
+}
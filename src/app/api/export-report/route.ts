@@ -0,0 +1,198 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { JobQueue } from '@/lib/job-queue';
+import { buildReportDocument, exportRequestSchema } from '@/lib/report-document';
+import { renderReportHtml } from '@/lib/report-html';
+import { generateComprehensiveReport } from '@/lib/report-markdown';
+import { renderReportPdf } from '@/lib/report-pdf';
+import { ReportRepository } from '@/lib/report-repository';
+import { DEFAULT_SECTIONS, ReportTemplates } from '@/lib/report-templates';
+import { DiagnosticReport } from '@/types/medical';
+import { ExportOptions, ReportSynthesis } from '@/types/report';
+
+export const runtime = 'nodejs';
+
+const EXPORT_FORMATS: Record<ExportOptions['format'], { contentType: string; extension: string }> = {
+  PDF: { contentType: 'application/pdf', extension: 'pdf' },
+  HTML: { contentType: 'text/html; charset=utf-8', extension: 'html' },
+  MARKDOWN: { contentType: 'text/markdown; charset=utf-8', extension: 'md' }
+};
+
+const DEFAULT_OPTIONS: ExportOptions = {
+  format: 'PDF',
+  includeImages: true,
+  includeMetadata: true
+};
+
+interface ExportSource {
+  jobId?: string | null;
+  reportId?: string | null; // a stored report, exported as reviewed and signed
+  synthesis?: ReportSynthesis;
+  patientInfo?: DiagnosticReport['patientInfo'];
+}
+
+async function exportReport(source: ExportSource, options: ExportOptions): Promise<NextResponse> {
+  // Without a report ID or a synthesis from the caller, the job's latest report is exported
+  const stored = source.reportId
+    ? ReportRepository.get(source.reportId)
+    : source.jobId && !source.synthesis ? ReportRepository.getLatestForJob(source.jobId) : undefined;
+  if (source.reportId && !stored) {
+    return NextResponse.json(
+      { error: `Report ${source.reportId} not found` },
+      { status: 404 }
+    );
+  }
+
+  const jobId = stored?.jobId ?? source.jobId;
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'A job ID or report ID is required for report export' },
+      { status: 400 }
+    );
+  }
+  const patientInfo = stored?.patientInfo ?? source.patientInfo;
+
+  const format = Object.hasOwn(EXPORT_FORMATS, options.format) ? EXPORT_FORMATS[options.format] : undefined;
+  if (!format) {
+    return NextResponse.json(
+      { error: `Unsupported export format: ${options.format}` },
+      { status: 400 }
+    );
+  }
+
+  const job = JobQueue.getJob(jobId);
+  if (!job) {
+    return NextResponse.json(
+      { error: `Job ${jobId} not found` },
+      { status: 404 }
+    );
+  }
+
+  if (job.status === 'queued' || job.status === 'processing' || job.status === 'paused') {
+    return NextResponse.json(
+      { error: `Job ${jobId} is still ${job.status}` },
+      { status: 409 }
+    );
+  }
+
+  const template = options.templateId ? ReportTemplates.get(options.templateId) : undefined;
+  if (options.templateId && !template) {
+    return NextResponse.json(
+      { error: `Template ${options.templateId} not found` },
+      { status: 400 }
+    );
+  }
+
+  if (!stored && !source.synthesis) {
+    return NextResponse.json(
+      { error: `No report has been generated for job ${jobId}` },
+      { status: 404 }
+    );
+  }
+
+  const sections = template?.sections ?? job.template?.sections ?? DEFAULT_SECTIONS;
+  const batches = JobQueue.getJobBatches(job.id);
+  // A stored report is exported as reviewed, without consolidating again
+  const synthesis = stored ? stored.synthesis : source.synthesis;
+
+  const document = await buildReportDocument(job, batches, synthesis, {
+    includeImages: options.includeImages,
+    includeMetadata: options.includeMetadata,
+    sections,
+    templateName: template?.name ?? stored?.templateName,
+    patientInfo,
+    status: stored?.status,
+    signatures: stored?.signatures,
+    addenda: stored?.addenda
+  });
+
+  let content: Buffer;
+  switch (options.format) {
+    case 'PDF':
+      content = renderReportPdf(document);
+      break;
+    case 'HTML':
+      content = Buffer.from(renderReportHtml(document), 'utf8');
+      break;
+    case 'MARKDOWN':
+      content = Buffer.from(generateComprehensiveReport(batches, patientInfo ?? job.patientInfo, synthesis, sections, document), 'utf8');
+      break;
+  }
+
+  return new NextResponse(new Uint8Array(content), {
+    headers: {
+      'Content-Type': format.contentType,
+      'Content-Disposition': `attachment; filename="radiology-report-${stored?.id ?? job.id}.${format.extension}"`,
+      'Content-Length': String(content.length)
+    }
+  });
+}
+
+/**
+ * Export the report of a finished job as a PDF, a self-contained HTML page
+ * or Markdown. A stored report, given by `reportId` or else the latest one
+ * of `jobId`, is exported as reviewed, with its status, sign-offs and
+ * addenda. A consolidated report shown to the user can instead be passed as
+ * `synthesis` with `jobId`; reports are never consolidated again on export.
+ * `options.templateId` overrides the section layout chosen at submission.
+ */
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const result = exportRequestSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const { options, ...source } = result.data;
+    return await exportReport(source, options);
+
+  } catch (error) {
+    console.error('Report export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export diagnostic report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Retrieve an export by URL, e.g.
+ * `/api/export-report?reportId=...&format=html&includeImages=false`.
+ * With `jobId` instead, the latest report generated for the job is exported.
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const flag = (name: string, fallback: boolean) =>
+      searchParams.has(name) ? searchParams.get(name) !== 'false' : fallback;
+
+    return await exportReport({ jobId: searchParams.get('jobId'), reportId: searchParams.get('reportId') }, {
+      format: (searchParams.get('format')?.toUpperCase() ?? DEFAULT_OPTIONS.format) as ExportOptions['format'],
+      includeImages: flag('includeImages', DEFAULT_OPTIONS.includeImages),
+      includeMetadata: flag('includeMetadata', DEFAULT_OPTIONS.includeMetadata),
+      templateId: searchParams.get('templateId') ?? undefined
+    });
+
+  } catch (error) {
+    console.error('Report export error:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to export diagnostic report',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,82 +1,110 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { BatchProcessor } from '@/lib/batch-processor';
-import { MedicalImage, ImageBatch, DiagnosticReport } from '@/types/medical';
+import { requireUser } from '@/lib/auth';
+import { getCriticalFindings } from '@/lib/critical-findings';
+import { JobQueue } from '@/lib/job-queue';
+import { ensureJobWorker } from '@/lib/job-worker';
+import { synthesizeReport } from '@/lib/report-synthesis';
+import { getReportStatistics, toReportContent } from '@/lib/report-document';
+import { generateComprehensiveReport } from '@/lib/report-markdown';
+import { ReportRepository } from '@/lib/report-repository';
+import { DEFAULT_SECTIONS, ReportTemplates } from '@/lib/report-templates';
+import { UploadStorage } from '@/lib/upload-storage';
+import { ImageBatch, DiagnosticReport } from '@/types/medical';
+import { StoredReport } from '@/types/report';
 
 export const runtime = 'nodejs';
-export const maxDuration = 900; // 15 minutes timeout for full report generation
 
 export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await request.json();
-    const { images, patientInfo, systemPrompt } = body;
+    const { jobId, images, systemPrompt, templateId } = body;
+
+    if (!jobId) {
+      // No finished job yet: queue the images and let the client come back with the job id
+      if (!images || !Array.isArray(images) || images.length === 0) {
+        return NextResponse.json(
+          { error: 'A job ID or images are required for report generation' },
+          { status: 400 }
+        );
+      }
 
-    if (!images || !Array.isArray(images) || images.length === 0) {
+      // Image data is read from storage, never taken from the request
+      const validImages = (await UploadStorage.withImageData(images)).filter(img => img.base64Data);
+      
+      if (validImages.length === 0) {
+        return NextResponse.json(
+          { error: 'No stored images found. Please upload the images again and ensure DICOM files are converted.' },
+          { status: 400 }
+        );
+      }
+
+      const template = templateId ? ReportTemplates.get(templateId) : ReportTemplates.getDefault();
+      if (!template) {
+        return NextResponse.json(
+          { error: `Template ${templateId} not found` },
+          { status: 400 }
+        );
+      }
+
+      const job = JobQueue.createJob(validImages, {
+        systemPrompt: systemPrompt || template.systemPrompt,
+        patientInfo: body.patientInfo,
+        template: { id: template.id, name: template.name, sections: template.sections }
+      });
+      ensureJobWorker();
+
+      return NextResponse.json({
+        success: true,
+        jobId: job.id,
+        status: JobQueue.getJobProgress(job),
+        message: `Processing queued as job ${job.id}; request the report again with this job ID once it completes`
+      }, { status: 202 });
+    }
+
+    const job = JobQueue.getJob(jobId);
+    if (!job) {
       return NextResponse.json(
-        { error: 'No images provided for report generation' },
-        { status: 400 }
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
       );
     }
 
-    // Validate images have base64 data (exclude DICOM placeholders)
-    const validImages = images.filter((img: MedicalImage) => 
-      img.base64Data && img.base64Data !== 'DICOM_PLACEHOLDER'
-    );
-    
-    if (validImages.length === 0) {
+    if (job.status === 'queued' || job.status === 'processing' || job.status === 'paused') {
       return NextResponse.json(
-        { error: 'No valid images with base64 data found. Please ensure non-DICOM images are uploaded or DICOM files are converted.' },
-        { status: 400 }
+        { error: `Job ${jobId} is still ${job.status}`, status: JobQueue.getJobProgress(job) },
+        { status: 409 }
       );
     }
 
-    // Create batches
-    const batches = BatchProcessor.createBatches(validImages);
-    
-    // Process all images in batches
-    const processedBatches = await BatchProcessor.processAllBatches(batches, systemPrompt);
-    
-    // Generate comprehensive report text
-    const reportText = generateComprehensiveReport(processedBatches, patientInfo);
-
-    // Calculate statistics
-    const successfulBatches = processedBatches.filter(batch => batch.status === 'completed');
-    const failedBatches = processedBatches.filter(batch => batch.status === 'failed');
-    
-    const stats = {
-      totalImages: validImages.length,
-      totalBatches: processedBatches.length,
-      successfulBatches: successfulBatches.length,
-      failedBatches: failedBatches.length,
-      successRate: processedBatches.length > 0 ? Math.round((successfulBatches.length / processedBatches.length) * 100) : 0
-    };
-
-    // Create diagnostic report object
-    const report: DiagnosticReport = {
-      id: `report_${Date.now()}`,
+    const processedBatches = JobQueue.getJobBatches(job.id);
+    const patientInfo = body.patientInfo || job.patientInfo;
+
+    // Consolidate the batch analyses into one report, then render it in the template's layout
+    const sections = job.template?.sections ?? DEFAULT_SECTIONS;
+    const synthesis = await synthesizeReport(processedBatches, { systemPrompt: job.systemPrompt, patientInfo, sections });
+    const createdAt = new Date();
+
+    const report = ReportRepository.save({
+      jobId: job.id,
       patientInfo: patientInfo || {},
-      totalImages: validImages.length,
-      batches: processedBatches,
-      status: failedBatches.length === 0 ? 'completed' : 'completed',
-      findings: reportText,
-      recommendations: 'Please review all findings with a qualified medical professional.',
-      createdAt: new Date(),
-      completedAt: new Date(),
-      generatedBy: 'AI-Assisted Radiology Platform'
-    };
+      bodyPart: processedBatches.flatMap(batch => batch.images).find(image => image.metadata?.bodyPart)?.metadata?.bodyPart,
+      templateId: job.template?.id,
+      templateName: job.template?.name,
+      totalImages: job.totalImages,
+      reportText: generateComprehensiveReport(processedBatches, patientInfo, synthesis, sections, { generatedAt: createdAt }),
+      synthesis,
+      recommendations: synthesis?.recommendations || 'Please review all findings with a qualified medical professional.',
+      statistics: getReportStatistics(processedBatches, job.totalImages),
+      criticalFindings: getCriticalFindings(processedBatches),
+      createdAt
+    });
 
     return NextResponse.json({
-      success: true,
-      report: report,
-      reportText: reportText,
-      batches: processedBatches,
-      statistics: stats,
-      formattedReport: {
-        summary: `Analysis of ${validImages.length} medical images completed`,
-        findings: reportText,
-        recommendations: 'Please consult with a qualified medical professional for interpretation',
-        metadata: `Generated on ${new Date().toLocaleString()}`
-      },
-      message: `Report generated successfully: ${stats.successfulBatches}/${stats.totalBatches} batches processed`
+      ...toReportResponse(report, processedBatches, sections),
+      message: `Report generated successfully: ${report.statistics.successfulBatches}/${report.statistics.totalBatches} batches processed`
     });
 
   } catch (error) {
@@ -91,64 +119,53 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function generateComprehensiveReport(
-  batches: ImageBatch[],
-  patientInfo?: { name?: string; id?: string; studyDate?: string; modality?: string }
-): string {
-  const successfulBatches = batches.filter(batch => batch.status === 'completed' && batch.aiResponse);
-  const failedBatches = batches.filter(batch => batch.status === 'failed');
-  
-  let report = `# COMPREHENSIVE RADIOLOGY REPORT\n\n`;
-  
-  if (patientInfo) {
-    report += `## PATIENT INFORMATION\n`;
-    if (patientInfo.name) report += `Patient Name: ${patientInfo.name}\n`;
-    if (patientInfo.id) report += `Patient ID: ${patientInfo.id}\n`;
-    if (patientInfo.studyDate) report += `Study Date: ${patientInfo.studyDate}\n`;
-    if (patientInfo.modality) report += `Modality: ${patientInfo.modality}\n`;
-    report += `\n`;
-  }
-
-  report += `## STUDY SUMMARY\n`;
-  report += `Total Images Analyzed: ${batches.reduce((sum, batch) => sum + batch.images.length, 0)}\n`;
-  report += `Successful Batches: ${successfulBatches.length}\n`;
-  report += `Failed Batches: ${failedBatches.length}\n`;
-  report += `Analysis Date: ${new Date().toLocaleDateString()}\n\n`;
-
-  if (successfulBatches.length > 0) {
-    report += `## CONSOLIDATED FINDINGS\n\n`;
-    
-    successfulBatches.forEach((batch, index) => {
-      try {
-        const aiResponse = JSON.parse(batch.aiResponse!);
-        
-        report += `### Batch ${index + 1} Analysis (${batch.images.length} images)\n`;
-        if (aiResponse.findings) {
-          report += `**Findings:** ${aiResponse.findings}\n\n`;
-        }
-      } catch (error) {
-        report += `### Batch ${index + 1} Analysis (${batch.images.length} images)\n`;
-        report += `Error parsing AI response: ${error}\n\n`;
-      }
-    });
-  }
-
-  if (failedBatches.length > 0) {
-    report += `## PROCESSING ERRORS\n`;
-    failedBatches.forEach((batch) => {
-      report += `Batch: ${batch.error || 'Unknown error'}\n`;
-    });
-    report += `\n`;
-  }
-
-  report += `## IMPORTANT DISCLAIMER\n`;
-  report += `This report was generated using AI-assisted analysis and should always be reviewed by qualified medical professionals.\n\n`;
-  report += `Generated by AI-Assisted Radiology Platform on ${new Date().toLocaleString()}\n`;
-
-  return report;
+/**
+ * A stored report with the batches of its job, in the shape returned when
+ * the report was generated. `content` is the report as the editor shows it,
+ * with the sections of the job's template.
+ */
+function toReportResponse(stored: StoredReport, batches: ImageBatch[], sections: string[]) {
+  const report: DiagnosticReport = {
+    id: stored.id,
+    patientInfo: stored.patientInfo,
+    totalImages: stored.totalImages,
+    batches,
+    status: stored.status,
+    findings: stored.reportText,
+    recommendations: stored.recommendations,
+    criticalFindings: stored.criticalFindings,
+    createdAt: stored.createdAt,
+    completedAt: stored.createdAt,
+    generatedBy: 'AI-Assisted Radiology Platform'
+  };
+
+  return {
+    success: true,
+    jobId: stored.jobId,
+    report,
+    reportText: stored.reportText,
+    synthesis: stored.synthesis,
+    content: toReportContent(stored.synthesis, sections),
+    version: stored.version,
+    signatures: stored.signatures,
+    addenda: stored.addenda,
+    editedAt: stored.editedAt,
+    templateName: stored.templateName,
+    batches,
+    statistics: stored.statistics,
+    formattedReport: {
+      summary: `Analysis of ${stored.totalImages} medical images completed`,
+      findings: stored.reportText,
+      recommendations: stored.synthesis?.recommendations || 'Please consult with a qualified medical professional for interpretation',
+      metadata: `Generated on ${stored.createdAt.toLocaleString()}`
+    }
+  };
 }
 
 export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const reportId = searchParams.get('reportId');
@@ -160,11 +177,16 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    return NextResponse.json({
-      reportId,
-      status: 'This endpoint would return report from database',
-      message: 'Report retrieval endpoint - implement with database integration'
-    });
+    const report = ReportRepository.get(reportId);
+    if (!report) {
+      return NextResponse.json(
+        { error: `Report ${reportId} not found` },
+        { status: 404 }
+      );
+    }
+
+    const sections = JobQueue.getJob(report.jobId)?.template?.sections ?? DEFAULT_SECTIONS;
+    return NextResponse.json(toReportResponse(report, JobQueue.getJobBatches(report.jobId), sections));
 
   } catch (error) {
     console.error('Get report error:', error);
@@ -173,4 +195,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
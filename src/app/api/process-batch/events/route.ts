@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { JobQueue } from '@/lib/job-queue';
+import { subscribeToJob } from '@/lib/job-events';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Stream job progress as Server-Sent Events. A `progress` event carrying
+ * the job and its ProcessingStatus is sent on connect and after every batch
+ * starts or finishes and on every control action; the stream ends once
+ * the job completes, fails or is cancelled.
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const jobId = new URL(request.url).searchParams.get('jobId');
+
+  if (!jobId) {
+    return NextResponse.json(
+      { error: 'Job ID is required' },
+      { status: 400 }
+    );
+  }
+
+  if (!JobQueue.getJob(jobId)) {
+    return NextResponse.json(
+      { error: `Job ${jobId} not found` },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let closed = false;
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        cleanup();
+        controller.close();
+      };
+
+      const sendProgress = () => {
+        if (closed) return;
+        const job = JobQueue.getJob(jobId);
+        if (!job) {
+          close();
+          return;
+        }
+
+        const data = JSON.stringify({ job, status: JobQueue.getJobProgress(job) });
+        controller.enqueue(encoder.encode(`event: progress\ndata: ${data}\n\n`));
+
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+          close();
+        }
+      };
+
+      const unsubscribe = subscribeToJob(jobId, sendProgress);
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+      };
+
+      request.signal.addEventListener('abort', close);
+      sendProgress();
+    },
+    cancel() {
+      closed = true;
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
@@ -1,13 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { BatchProcessor } from '@/lib/batch-processor';
-import { MedicalImage } from '@/types/medical';
+import { requireUser } from '@/lib/auth';
+import { JobQueue, JobStateError } from '@/lib/job-queue';
+import { ensureJobWorker } from '@/lib/job-worker';
+import { ReportTemplates } from '@/lib/report-templates';
+import { UploadStorage } from '@/lib/upload-storage';
 
 export const runtime = 'nodejs';
 
 export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const body = await request.json();
-    const { images, systemPrompt } = body;
+    const { images, systemPrompt, patientInfo, templateId } = body;
 
     if (!images || !Array.isArray(images) || images.length === 0) {
       return NextResponse.json(
@@ -16,47 +22,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate images have required base64 data
-    const validImages = images.filter((img: MedicalImage) => img.base64Data);
+    // Image data is read from storage, never taken from the request
+    const validImages = (await UploadStorage.withImageData(images)).filter(img => img.base64Data);
     
     if (validImages.length === 0) {
       return NextResponse.json(
-        { error: 'No valid images with base64 data found' },
+        { error: 'No stored images found; upload the images again' },
         { status: 400 }
       );
     }
 
-    // Create batches
-    const batches = BatchProcessor.createBatches(validImages);
+    const template = templateId ? ReportTemplates.get(templateId) : ReportTemplates.getDefault();
+    if (!template) {
+      return NextResponse.json(
+        { error: `Template ${templateId} not found` },
+        { status: 400 }
+      );
+    }
+
+    // Queue the batches; background workers process them. An edited prompt overrides the template's.
+    const job = JobQueue.createJob(validImages, {
+      systemPrompt: systemPrompt || template.systemPrompt,
+      patientInfo,
+      template: { id: template.id, name: template.name, sections: template.sections }
+    });
     
-    if (batches.length === 0) {
+    if (job.totalBatches === 0) {
       return NextResponse.json(
         { error: 'Failed to create processing batches' },
         { status: 400 }
       );
     }
 
-    // Process all batches
-    const processedBatches = await BatchProcessor.processAllBatches(
-      batches,
-      systemPrompt
-    );
-
-    // Calculate overall status
-    const status = BatchProcessor.calculateOverallProgress(processedBatches);
-    const successfulBatches = BatchProcessor.getSuccessfulBatches(processedBatches);
-    const failedBatches = BatchProcessor.getFailedBatches(processedBatches);
+    ensureJobWorker();
 
     return NextResponse.json({
       success: true,
+      jobId: job.id,
       totalImages: validImages.length,
-      totalBatches: batches.length,
-      processedBatches: processedBatches,
-      successfulBatches: successfulBatches.length,
-      failedBatches: failedBatches.length,
-      status: status,
-      message: `Processing completed: ${successfulBatches.length}/${batches.length} batches successful`
-    });
+      totalBatches: job.totalBatches,
+      batchIds: JobQueue.getJobBatchSummaries(job.id).map(batch => batch.id),
+      status: JobQueue.getJobProgress(job),
+      message: `Queued ${job.totalBatches} batches for processing`
+    }, { status: 202 });
 
   } catch (error) {
     console.error('Batch processing error:', error);
@@ -71,23 +79,48 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const { searchParams } = new URL(request.url);
     const batchId = searchParams.get('batchId');
+    const jobId = searchParams.get('jobId');
+
+    if (jobId) {
+      const job = JobQueue.getJob(jobId);
+      if (!job) {
+        return NextResponse.json(
+          { error: `Job ${jobId} not found` },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        job,
+        status: JobQueue.getJobProgress(job),
+        batches: JobQueue.getJobBatchSummaries(job.id)
+      });
+    }
 
     if (!batchId) {
       return NextResponse.json(
-        { error: 'Batch ID is required' },
+        { error: 'Batch ID or job ID is required' },
         { status: 400 }
       );
     }
 
-    // In a real application, you would fetch this from a database
-    // For now, return a mock response
+    const batch = JobQueue.getBatch(batchId);
+    if (!batch) {
+      return NextResponse.json(
+        { error: `Batch ${batchId} not found` },
+        { status: 404 }
+      );
+    }
+
     return NextResponse.json({
       batchId,
-      status: 'This endpoint would return batch status from database',
-      message: 'Batch status endpoint - implement with database integration'
+      batch
     });
 
   } catch (error) {
@@ -97,4 +130,71 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+const JOB_ACTIONS = ['pause', 'resume', 'cancel', 'retry-failed'] as const;
+type JobAction = typeof JOB_ACTIONS[number];
+
+/**
+ * Control a processing job: { jobId, action: 'pause' | 'resume' | 'cancel' | 'retry-failed' }
+ */
+export async function PATCH(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { jobId, action } = await request.json();
+
+    if (!jobId || !JOB_ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `A job ID and one of these actions are required: ${JOB_ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!JobQueue.getJob(jobId)) {
+      return NextResponse.json(
+        { error: `Job ${jobId} not found` },
+        { status: 404 }
+      );
+    }
+
+    let job;
+    switch (action as JobAction) {
+      case 'pause':
+        job = JobQueue.pauseJob(jobId);
+        break;
+      case 'resume':
+        job = JobQueue.resumeJob(jobId);
+        ensureJobWorker();
+        break;
+      case 'cancel':
+        job = JobQueue.cancelJob(jobId);
+        break;
+      case 'retry-failed':
+        job = JobQueue.retryFailedBatches(jobId);
+        ensureJobWorker();
+        break;
+    }
+
+    return NextResponse.json({
+      success: true,
+      job,
+      status: JobQueue.getJobProgress(job)
+    });
+
+  } catch (error) {
+    if (error instanceof JobStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Job control error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update processing job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportRepository, ReportStateError, addendumSchema } from '@/lib/report-repository';
+
+export const runtime = 'nodejs';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Append an addendum ({ text }) to a final report, by the signed-in user
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    const result = addendumSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const report = ReportRepository.addAddendum(id, { author: user.name, text: result.data.text });
+    if (!report) {
+      return NextResponse.json(
+        { error: `Report ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, report }, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof ReportStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Add addendum error:', error);
+    return NextResponse.json(
+      { error: 'Failed to add addendum' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { z } from 'zod/v4';
+import { diffLines } from '@/lib/report-diff';
+import { ReportRepository } from '@/lib/report-repository';
+import { ReportDiff } from '@/types/report';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional()
+});
+
+/**
+ * Changes to the report text between two versions, ?from= and ?to=. By
+ * default the AI draft is compared with the current version.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+
+  const result = diffQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+      { status: 400 }
+    );
+  }
+
+  const versions = ReportRepository.listVersions(id);
+  if (!versions) {
+    return NextResponse.json(
+      { error: `Report ${id} not found` },
+      { status: 404 }
+    );
+  }
+
+  const from = versions.find(version => version.version === (result.data.from ?? 1));
+  const to = versions.find(version => version.version === (result.data.to ?? versions.length));
+  if (!from || !to) {
+    return NextResponse.json(
+      { error: `Report ${id} has versions 1 to ${versions.length}` },
+      { status: 404 }
+    );
+  }
+
+  const lines = diffLines(
+    ReportRepository.getVersion(id, from.version)!.reportText,
+    ReportRepository.getVersion(id, to.version)!.reportText
+  );
+  const diff: ReportDiff = {
+    from,
+    to,
+    lines,
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length
+  };
+  return NextResponse.json(diff);
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { JobQueue } from '@/lib/job-queue';
+import { generateComprehensiveReport } from '@/lib/report-markdown';
+import { ReportEdit, ReportRepository, ReportStateError, reportActionSchema, reportContentSchema } from '@/lib/report-repository';
+import { DEFAULT_SECTIONS } from '@/lib/report-templates';
+import { ReportContent, StoredReport } from '@/types/report';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Apply edited content to a report and render its text again, dated as the
+ * original analysis. Sources must name batches of the report's job.
+ */
+function toEdit(report: StoredReport, content: ReportContent): ReportEdit {
+  const job = JobQueue.getJob(report.jobId);
+  const batches = JobQueue.getJobBatches(report.jobId);
+  const synthesis = {
+    source: 'batches' as const,
+    ...report.synthesis,
+    ...content,
+    impressions: content.impressions.map(impression => ({
+      ...impression,
+      evidence: impression.evidence.filter(evidence => batches.some(batch => batch.id === evidence.batchId))
+    }))
+  };
+
+  return {
+    synthesis,
+    reportText: generateComprehensiveReport(batches, report.patientInfo, synthesis, job?.template?.sections ?? DEFAULT_SECTIONS, {
+      generatedAt: report.createdAt
+    })
+  };
+}
+
+function describeIssues(issues: { path: PropertyKey[]; message: string }[]): string {
+  return issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const report = ReportRepository.get(id);
+  if (!report) {
+    return NextResponse.json(
+      { error: `Report ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ report });
+}
+
+/**
+ * Save a radiologist's corrections to a report that is not signed yet
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    const result = reportContentSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: describeIssues(result.error.issues) },
+        { status: 400 }
+      );
+    }
+
+    const existing = ReportRepository.get(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: `Report ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const report = ReportRepository.edit(id, toEdit(existing, result.data), user.name);
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    if (error instanceof ReportStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Update report error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update report' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Review actions: submit, reopen, sign-preliminary, sign-final and amend.
+ * Signing records the signed-in user with the attestation; an amendment
+ * also takes the amended `content` and a `reason`.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    const result = reportActionSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: describeIssues(result.error.issues) },
+        { status: 400 }
+      );
+    }
+
+    const existing = ReportRepository.get(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: `Report ${id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const { action, reason, content } = result.data;
+    const report = ReportRepository.transition(id, action, {
+      signedBy: user.name,
+      reason,
+      edit: content ? toEdit(existing, content) : undefined
+    });
+    return NextResponse.json({ success: true, report });
+
+  } catch (error) {
+    if (error instanceof ReportStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Report review error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update report status' },
+      { status: 500 }
+    );
+  }
+}
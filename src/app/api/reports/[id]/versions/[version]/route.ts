@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportRepository } from '@/lib/report-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string; version: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id, version } = await params;
+  const found = /^\d+$/.test(version) ? ReportRepository.getVersion(id, Number(version)) : undefined;
+  if (!found) {
+    return NextResponse.json(
+      { error: `Version ${version} of report ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ version: found });
+}
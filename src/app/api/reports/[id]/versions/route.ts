@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportRepository } from '@/lib/report-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Versions of a report, oldest first. Version 1 is the AI draft.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const versions = ReportRepository.listVersions(id);
+  if (!versions) {
+    return NextResponse.json(
+      { error: `Report ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ versions });
+}
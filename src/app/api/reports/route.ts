@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportRepository, reportSearchSchema } from '@/lib/report-repository';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search the report history. Filters: ?text= (free text across the report),
+ * ?patient= (name or ID), ?modality=, ?bodyPart=, ?status=, ?templateId=,
+ * ?critical= (true for reports with critical findings, false for those without),
+ * ?from= and ?to= (YYYY-MM-DD). Sorted with ?sort= and ?order=, paginated
+ * with ?page= (from 1) and ?pageSize= (up to 100). Without filters this
+ * lists every report, newest first. A full report is read, edited and
+ * signed at /api/reports/[id].
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    // Empty form fields arrive as empty parameters; they do not filter
+    const params = Object.fromEntries(Array.from(searchParams).filter(([, value]) => value.trim() !== ''));
+
+    const result = reportSearchSchema.safeParse(params);
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(ReportRepository.search(result.data));
+  } catch (error) {
+    console.error('Search reports error:', error);
+    return NextResponse.json(
+      { error: 'Failed to search reports' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findUserByToken, getAuthConfig, getRequestUser, signInSchema } from '@/lib/auth';
+import { SESSION_COOKIE, SESSION_MAX_AGE_SECONDS } from '@/lib/session';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * The signed-in user, or 401
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = getRequestUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Not signed in' },
+        { status: 401 }
+      );
+    }
+    return NextResponse.json({ user });
+
+  } catch (error) {
+    console.error('Session error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read the session' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign in with an access token from AUTH_USERS. The token is kept in an
+ * HTTP-only cookie, so pages call the API without handling it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const result = signInSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const config = getAuthConfig();
+    if (config.users.length === 0) {
+      return NextResponse.json(
+        { error: 'Sign-in is not configured; set AUTH_USERS to allow access to patient data' },
+        { status: 503 }
+      );
+    }
+
+    const user = findUserByToken(result.data.token, config);
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unknown access token' },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({ user });
+    response.cookies.set(SESSION_COOKIE, result.data.token, {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_SECONDS
+    });
+    return response;
+
+  } catch (error) {
+    console.error('Sign-in error:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Sign out
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportTemplates, TemplateStateError, templateInputSchema } from '@/lib/report-templates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  const template = ReportTemplates.get(id);
+  if (!template) {
+    return NextResponse.json(
+      { error: `Template ${id} not found` },
+      { status: 404 }
+    );
+  }
+  return NextResponse.json({ template });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    const result = templateInputSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => issue.message).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const template = ReportTemplates.update(id, result.data);
+    if (!template) {
+      return NextResponse.json(
+        { error: `Template ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true, template });
+
+  } catch (error) {
+    if (error instanceof TemplateStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Update template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update report template' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { id } = await params;
+  try {
+    if (!ReportTemplates.delete(id)) {
+      return NextResponse.json(
+        { error: `Template ${id} not found` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    if (error instanceof TemplateStateError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('Delete template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete report template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { ReportTemplates, templateInputSchema } from '@/lib/report-templates';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * List report templates. With ?modality= and/or ?bodyPart= the response
+ * also names the template suggested for such a study.
+ */
+export async function GET(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const modality = searchParams.get('modality') ?? undefined;
+    const bodyPart = searchParams.get('bodyPart') ?? undefined;
+
+    return NextResponse.json({
+      templates: ReportTemplates.list(),
+      suggestedTemplateId: ReportTemplates.findForStudy(modality, bodyPart).id
+    });
+  } catch (error) {
+    console.error('List templates error:', error);
+    return NextResponse.json(
+      { error: 'Failed to list report templates' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const result = templateInputSchema.safeParse(await request.json());
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error.issues.map(issue => issue.message).join('; ') },
+        { status: 400 }
+      );
+    }
+
+    const template = ReportTemplates.create(result.data);
+    return NextResponse.json({ success: true, template }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create template error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create report template' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,33 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import * as path from 'path';
+import { requireUser } from '@/lib/auth';
 import { 
   isDicomFile, 
   extractDicomMetadata, 
+  renderDicomFile,
+  generateImageFileName,
   validateMedicalImage 
 } from '@/lib/dicom-utils';
-import { MedicalImage } from '@/types/medical';
+import { parseWindowPresets, WINDOW_PRESETS } from '@/lib/window-presets';
+import { countSeries, groupImagesByStudy } from '@/lib/study-grouping';
+import { UploadStorage, getUploadStorageConfig, sanitizeFileName } from '@/lib/upload-storage';
+import { DicomFrameInfo, DicomWindow, MedicalImage } from '@/types/medical';
 import sharp from 'sharp';
 
 // Configure for file uploads
 export const runtime = 'nodejs';
 
-function getFileType(filename: string): MedicalImage['fileType'] {
-  const ext = filename.toLowerCase().split('.').pop();
-  switch (ext) {
-    case 'png': return 'PNG';
-    case 'jpg':
-    case 'jpeg': return 'JPEG';
-    case 'bmp': return 'BMP';
-    case 'tiff':
-    case 'tif': return 'TIFF';
-    case 'dcm':
-    case 'dicom': return 'DICOM';
-    default: return 'PNG';
-  }
-}
-
 export async function POST(request: NextRequest) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
   try {
     const formData = await request.formData();
     const files = formData.getAll('files') as File[];
@@ -47,11 +39,38 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const uploadDir = path.join(process.cwd(), 'public', 'uploads');
-    await fs.mkdir(uploadDir, { recursive: true });
+    // Optional window presets: each grayscale DICOM image is rendered once per preset
+    const { presets: windowPresets, invalid: invalidPresets } = parseWindowPresets(
+      formData.getAll('windowPresets').map(String)
+    );
+    if (invalidPresets.length > 0) {
+      return NextResponse.json(
+        { error: `Unknown window presets: ${invalidPresets.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const windows: DicomWindow[] = windowPresets.map(preset => ({
+      center: WINDOW_PRESETS[preset].center,
+      width: WINDOW_PRESETS[preset].width,
+      name: preset
+    }));
+
+    // Optional cap on frames taken from each multi-frame object (cine loops, enhanced CT/MR)
+    const maxFramesValue = formData.get('maxFramesPerObject');
+    const maxFramesPerObject = maxFramesValue ? parseInt(String(maxFramesValue), 10) : undefined;
+    if (maxFramesPerObject !== undefined && (Number.isNaN(maxFramesPerObject) || maxFramesPerObject < 1)) {
+      return NextResponse.json(
+        { error: 'maxFramesPerObject must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    // Fail before reading any file when storage is misconfigured
+    getUploadStorageConfig();
 
     const processedImages: MedicalImage[] = [];
     const errors: string[] = [];
+    const warnings: string[] = [];
 
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
@@ -70,57 +89,88 @@ export async function POST(request: NextRequest) {
         
         // Generate unique filename
         const timestamp = Date.now();
-        const filename = `${timestamp}_${i}_${file.name.replace(/[^a-zA-Z0-9.-]/g, '_')}`;
-        const filepath = path.join(uploadDir, filename);
+        const filename = `${timestamp}_${i}_${sanitizeFileName(file.name)}`;
         
-        // Save original file
-        await fs.writeFile(filepath, buffer);
+        // Save original file, encrypted in private storage
+        const filePath = await UploadStorage.save(filename, buffer, 'original');
         
         // Check if it's a DICOM file
         const isDicom = isDicomFile(buffer) || validation.fileType === 'DICOM';
         
         let convertedPath: string | undefined;
-        let base64Data: string | undefined;
         let metadata = {};
+        const renditions: { window?: DicomWindow; frame?: DicomFrameInfo; convertedPath: string }[] = [];
         
         if (isDicom) {
           // Parse DICOM metadata
           metadata = extractDicomMetadata(buffer);
           
-          // For DICOM files, we'll convert them in a separate endpoint
-          // For now, just mark them for conversion
+          // Render pixel data to PNG so the image can be sent for analysis
+          try {
+            const rendered = await renderDicomFile(buffer, { windows, maxFrames: maxFramesPerObject });
+            
+            for (const { png, window, frame } of rendered) {
+              const suffix = ['converted', frame && `f${frame.frameNumber}`, window?.name].filter(Boolean).join('_');
+              const convertedName = generateImageFileName(filename, suffix);
+              const convertedPath = await UploadStorage.save(convertedName, png, 'converted');
+              
+              renditions.push({ window, frame, convertedPath });
+            }
+          } catch (error) {
+            console.error(`Failed to convert DICOM file ${file.name}:`, error);
+            warnings.push(`File ${file.name}: DICOM conversion failed, image will not be analyzed`);
+          }
         } else {
-          // For non-DICOM images, generate base64 using Sharp
+          // Non-DICOM images are analyzed as a PNG resized with Sharp
+          let processedBuffer: Buffer | undefined;
           try {
-            const processedBuffer = await sharp(buffer)
+            processedBuffer = await sharp(buffer)
               .png()
               .resize(1024, 1024, { fit: 'inside', withoutEnlargement: true })
               .toBuffer();
-            
-            base64Data = processedBuffer.toString('base64');
           } catch (error) {
             console.error('Failed to process image with Sharp:', error);
-            // Fallback to original buffer
-            base64Data = buffer.toString('base64');
           }
+
+          // Fallback to the original file
+          convertedPath = processedBuffer
+            ? await UploadStorage.save(generateImageFileName(filename, 'converted'), processedBuffer, 'converted')
+            : filePath;
         }
 
         const medicalImage: MedicalImage = {
           id: `img_${timestamp}_${i}`,
           originalName: file.name,
           fileName: filename,
-          filePath: `/uploads/${filename}`,
+          filePath,
           fileType: validation.fileType,
           fileSize: buffer.length,
           isDicom: isDicom,
-          convertedPath: convertedPath,
-          base64Data: base64Data,
+          convertedPath,
           metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
           uploadedAt: new Date(),
           processed: false
         };
 
-        processedImages.push(medicalImage);
+        if (renditions.length === 0) {
+          processedImages.push(medicalImage);
+        } else {
+          // One image per frame and window, so a slice can be analyzed under several
+          // windows and multi-frame objects are analyzed frame by frame
+          renditions.forEach(rendition => {
+            processedImages.push({
+              ...medicalImage,
+              id: [
+                medicalImage.id,
+                rendition.frame && `f${rendition.frame.frameNumber}`,
+                rendition.window?.name
+              ].filter(Boolean).join('_'),
+              convertedPath: rendition.convertedPath,
+              window: rendition.window,
+              frame: rendition.frame
+            });
+          });
+        }
       } catch (error) {
         console.error(`Error processing file ${file.name}:`, error);
         errors.push(`File ${file.name}: Processing error`);
@@ -134,17 +184,32 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Frame and window renditions share the uploaded file, so count files rather than images
+    const uploadedFiles = Array.from(
+      new Map(processedImages.map(img => [img.fileName, img])).values()
+    );
+
+    const studies = groupImagesByStudy(processedImages);
+
     return NextResponse.json({
       success: true,
-      message: `Successfully uploaded ${processedImages.length} files`,
+      message: `Successfully uploaded ${uploadedFiles.length} files`,
       images: processedImages,
+      studies,
       errors: errors.length > 0 ? errors : undefined,
+      warnings: warnings.length > 0 ? warnings : undefined,
       summary: {
         totalFiles: files.length,
-        successful: processedImages.length,
+        successful: uploadedFiles.length,
         failed: errors.length,
-        dicomFiles: processedImages.filter(img => img.isDicom).length,
-        regularImages: processedImages.filter(img => !img.isDicom).length
+        dicomFiles: uploadedFiles.filter(img => img.isDicom).length,
+        convertedDicomFiles: uploadedFiles.filter(img => img.isDicom && img.convertedPath).length,
+        regularImages: uploadedFiles.filter(img => !img.isDicom).length,
+        totalImages: processedImages.length,
+        windowPresets: windowPresets.length > 0 ? windowPresets : undefined,
+        multiFrameFiles: uploadedFiles.filter(img => img.frame).length,
+        totalStudies: studies.reduce((sum, patient) => sum + patient.studies.length, 0),
+        totalSeries: countSeries(studies)
       }
     });
 
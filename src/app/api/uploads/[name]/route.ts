@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { UploadStorage } from '@/lib/upload-storage';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ name: string }> };
+
+const CONTENT_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  bmp: 'image/bmp',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  dcm: 'application/dicom',
+  dicom: 'application/dicom'
+};
+
+/**
+ * An uploaded file or converted image, decrypted, for signed-in users.
+ * Files removed by a retention rule answer 410 Gone.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const user = requireUser(request);
+  if (user instanceof NextResponse) return user;
+
+  const { name } = await params;
+  try {
+    const file = UploadStorage.get(name);
+    if (!file) {
+      return NextResponse.json(
+        { error: `File ${name} not found` },
+        { status: 404 }
+      );
+    }
+    if (file.purgedAt) {
+      return NextResponse.json(
+        { error: `File ${name} was deleted on ${file.purgedAt.toISOString()} (${file.purgeReason})` },
+        { status: 410 }
+      );
+    }
+
+    const content = (await UploadStorage.read(name))!;
+    const extension = name.split('.').pop()!.toLowerCase();
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        'Content-Length': String(content.length),
+        'Cache-Control': 'private, no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error('Read stored upload error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read stored file' },
+      { status: 500 }
+    );
+  }
+}
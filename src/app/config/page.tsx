@@ -1,35 +1,161 @@
 'use client';
 
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
-import { AIClient } from '@/lib/ai-client';
+import { ReportTemplate, ReportTemplateInput } from '@/types/report';
+
+// Editable form of a template; lists are edited as text
+interface TemplateDraft {
+  name: string;
+  description: string;
+  modalities: string;
+  bodyParts: string;
+  systemPrompt: string;
+  sections: string;
+  isDefault: boolean;
+}
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  description: '',
+  modalities: '',
+  bodyParts: '',
+  systemPrompt: '',
+  sections: 'Findings\nImpression\nRecommendations',
+  isDefault: false
+};
+
+function toDraft(template: ReportTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    description: template.description ?? '',
+    modalities: template.modalities.join(', '),
+    bodyParts: template.bodyParts.join(', '),
+    systemPrompt: template.systemPrompt,
+    sections: template.sections.join('\n'),
+    isDefault: template.isDefault
+  };
+}
+
+function fromDraft(draft: TemplateDraft): ReportTemplateInput {
+  const list = (value: string, separator: RegExp) => value.split(separator).map(item => item.trim()).filter(Boolean);
+  return {
+    name: draft.name,
+    description: draft.description || undefined,
+    modalities: list(draft.modalities, /,/),
+    bodyParts: list(draft.bodyParts, /,/),
+    systemPrompt: draft.systemPrompt,
+    sections: list(draft.sections, /\n/),
+    isDefault: draft.isDefault
+  };
+}
+
+// De-identification settings reported by /api/ai-config
+interface DeidentificationSummary {
+  profile: 'basic' | 'off';
+  retain: string[];
+  blankRegions: number;
+}
+
+function describeDeidentification(summary: DeidentificationSummary): string {
+  return [
+    'Basic profile',
+    summary.retain.length > 0 ? `retains ${summary.retain.join(', ')}` : undefined,
+    summary.blankRegions > 0 ? `${summary.blankRegions} blanked ${summary.blankRegions === 1 ? 'region' : 'regions'}` : undefined
+  ].filter(Boolean).join(', ');
+}
 
 export default function ConfigPage() {
-  const [systemPrompt, setSystemPrompt] = useState<string>(AIClient.getDefaultSystemPrompt());
-  const [saved, setSaved] = useState(false);
-
-  const saveConfiguration = () => {
-    // In a real application, this would save to a database or local storage
-    localStorage.setItem('customSystemPrompt', systemPrompt);
-    setSaved(true);
-    setTimeout(() => setSaved(false), 3000);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>();
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [aiConfig, setAiConfig] = useState<{
+    provider: string;
+    model: string;
+    concurrency: number;
+    deidentification?: DeidentificationSummary;
+  } | null>(null);
+
+  const selected = templates.find(template => template.id === selectedId);
+  const readOnly = !!selected?.builtIn;
+
+  const editTemplate = useCallback((template: ReportTemplate) => {
+    setSelectedId(template.id);
+    setDraft(toDraft(template));
+    setMessage(null);
+  }, []);
+
+  const loadTemplates = useCallback(async (selectId?: string) => {
+    const response = await fetch('/api/templates');
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load templates');
+    }
+    setTemplates(data.templates);
+
+    const template = data.templates.find((item: ReportTemplate) => item.id === selectId)
+      ?? data.templates.find((item: ReportTemplate) => item.isDefault);
+    if (template) editTemplate(template);
+  }, [editTemplate]);
+
+  useEffect(() => {
+    loadTemplates().catch(error => setMessage({ type: 'error', text: error.message }));
+    fetch('/api/ai-config')
+      .then(response => response.ok ? response.json() : null)
+      .then(setAiConfig)
+      .catch(() => setAiConfig(null));
+  }, [loadTemplates]);
+
+  // Start a new template from a copy of another, e.g. to customize a built-in one
+  const copyTemplate = (template?: ReportTemplate) => {
+    setSelectedId(undefined);
+    setDraft(template ? { ...toDraft(template), name: `${template.name} (copy)`, isDefault: false } : EMPTY_DRAFT);
+    setMessage(null);
   };
 
-  const resetToDefault = () => {
-    setSystemPrompt(AIClient.getDefaultSystemPrompt());
-    localStorage.removeItem('customSystemPrompt');
+  const saveTemplate = async () => {
+    try {
+      const response = await fetch(selectedId ? `/api/templates/${selectedId}` : '/api/templates', {
+        method: selectedId ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(fromDraft(draft)),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save template');
+      }
+
+      await loadTemplates(data.template.id);
+      setMessage({ type: 'success', text: `Template "${data.template.name}" saved. It is available when starting an analysis.` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save template' });
+    }
   };
 
-  const loadSavedPrompt = () => {
-    const saved = localStorage.getItem('customSystemPrompt');
-    if (saved) {
-      setSystemPrompt(saved);
+  const deleteTemplate = async () => {
+    if (!selected || !confirm(`Delete the template "${selected.name}"?`)) return;
+    try {
+      const response = await fetch(`/api/templates/${selected.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete template');
+      }
+
+      await loadTemplates();
+      setMessage({ type: 'success', text: `Template "${selected.name}" deleted.` });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to delete template' });
     }
   };
 
@@ -50,46 +176,128 @@ export default function ConfigPage() {
           <div className="lg:col-span-2">
             <Card>
               <CardHeader>
-                <CardTitle>AI System Prompt Configuration</CardTitle>
+                <CardTitle>{selectedId ? draft.name || 'Report Template' : 'New Report Template'}</CardTitle>
                 <CardDescription>
-                  Customize the system prompt that guides the AI's medical image analysis. 
-                  This prompt defines the AI's role, expertise, and output format.
+                  A template sets the system prompt that guides the image analysis and the
+                  sections of the generated report, in order. Findings, Impression and
+                  Recommendations are filled from the consolidated analysis; any other
+                  section is written by the model.
                 </CardDescription>
               </CardHeader>
               <CardContent className="space-y-6">
+                {readOnly && (
+                  <Alert>
+                    <AlertDescription>
+                      Built-in templates are read-only. Duplicate this template to customize it.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input
+                      id="template-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      disabled={readOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-description">Description</Label>
+                    <Input
+                      id="template-description"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      disabled={readOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-modalities">Modalities</Label>
+                    <Input
+                      id="template-modalities"
+                      value={draft.modalities}
+                      onChange={(e) => setDraft({ ...draft, modalities: e.target.value })}
+                      placeholder="e.g. CT, MR (empty for any)"
+                      disabled={readOnly}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="template-body-parts">Body Parts</Label>
+                    <Input
+                      id="template-body-parts"
+                      value={draft.bodyParts}
+                      onChange={(e) => setDraft({ ...draft, bodyParts: e.target.value })}
+                      placeholder="e.g. HEAD, BRAIN (empty for any)"
+                      disabled={readOnly}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="template-sections" className="text-base font-medium">
+                    Report Sections
+                  </Label>
+                  <Textarea
+                    id="template-sections"
+                    value={draft.sections}
+                    onChange={(e) => setDraft({ ...draft, sections: e.target.value })}
+                    className="min-h-[140px] mt-2 text-sm"
+                    placeholder="One section heading per line"
+                    disabled={readOnly}
+                  />
+                </div>
+
                 <div>
                   <Label htmlFor="system-prompt" className="text-base font-medium">
                     Medical AI System Prompt
                   </Label>
                   <Textarea
                     id="system-prompt"
-                    value={systemPrompt}
-                    onChange={(e) => setSystemPrompt(e.target.value)}
+                    value={draft.systemPrompt}
+                    onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
                     className="min-h-[400px] mt-2 text-sm"
                     placeholder="Enter custom system prompt for AI medical analysis..."
+                    disabled={readOnly}
                   />
                   <p className="text-xs text-gray-500 mt-2">
-                    Character count: {systemPrompt.length}
+                    Character count: {draft.systemPrompt.length}
                   </p>
                 </div>
 
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="template-default"
+                    checked={draft.isDefault}
+                    onCheckedChange={(checked) => setDraft({ ...draft, isDefault: checked === true })}
+                    disabled={readOnly}
+                  />
+                  <Label htmlFor="template-default">Use when no other template suits a study</Label>
+                </div>
+
                 <div className="flex flex-wrap gap-3">
-                  <Button onClick={saveConfiguration} className="bg-green-600 hover:bg-green-700 text-white">
-                    Save Configuration
-                  </Button>
-                  <Button onClick={resetToDefault} variant="outline">
-                    Reset to Default
-                  </Button>
-                  <Button onClick={loadSavedPrompt} variant="outline">
-                    Load Saved Prompt
-                  </Button>
+                  {!readOnly && (
+                    <Button onClick={saveTemplate} className="bg-green-600 hover:bg-green-700 text-white">
+                      Save Template
+                    </Button>
+                  )}
+                  {selected && (
+                    <Button onClick={() => copyTemplate(selected)} variant="outline">
+                      Duplicate
+                    </Button>
+                  )}
+                  {selected && !readOnly && (
+                    <Button onClick={deleteTemplate} variant="outline" className="text-red-600 hover:text-red-700">
+                      Delete
+                    </Button>
+                  )}
                 </div>
 
-                {saved && (
-                  <Alert className="border-green-200 bg-green-50 text-green-800">
-                    <AlertDescription>
-                      Configuration saved successfully! Your custom prompt will be used for future analyses.
-                    </AlertDescription>
+                {message && (
+                  <Alert className={message.type === 'success'
+                    ? 'border-green-200 bg-green-50 text-green-800'
+                    : 'border-red-200 bg-red-50 text-red-800'}>
+                    <AlertDescription>{message.text}</AlertDescription>
                   </Alert>
                 )}
               </CardContent>
@@ -112,15 +320,29 @@ export default function ConfigPage() {
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
                         <span className="text-gray-600">Primary Model:</span>
-                        <Badge>Claude Sonnet 4</Badge>
+                        <Badge>{aiConfig?.model || 'Unknown'}</Badge>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">API Provider:</span>
-                        <Badge variant="outline">OpenRouter</Badge>
+                        <Badge variant="outline">{aiConfig?.provider || 'Unknown'}</Badge>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Batch Size:</span>
-                        <span className="font-medium">20 images</span>
+                        <span className="font-medium">One series, up to 32k image tokens</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">Parallel Batches:</span>
+                        <span className="font-medium">{aiConfig?.concurrency ?? 'Unknown'}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-600">De-identification:</span>
+                        {aiConfig?.deidentification?.profile === 'off' ? (
+                          <Badge variant="destructive">Off</Badge>
+                        ) : (
+                          <span className="font-medium text-right">
+                            {aiConfig?.deidentification ? describeDeidentification(aiConfig.deidentification) : 'Unknown'}
+                          </span>
+                        )}
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Max Images:</span>
@@ -228,61 +450,30 @@ export default function ConfigPage() {
 
             <Card className="mt-6">
               <CardHeader>
-                <CardTitle>Specialty Templates</CardTitle>
+                <CardTitle>Report Templates</CardTitle>
                 <CardDescription>
-                  Pre-configured prompts for medical specialties
+                  Built-in templates per modality and body part, and your own
                 </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-3">
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full text-left justify-start"
-                  onClick={() => setSystemPrompt(
-                    `You are an expert chest radiologist specializing in thoracic imaging. 
-Focus on lung parenchyma, pleural spaces, cardiac silhouette, mediastinum, and chest wall.
-Identify pneumonia, pneumothorax, pleural effusions, masses, and cardiac abnormalities.
-Provide structured findings with clinical severity assessment.`
-                  )}
-                >
-                  Chest Radiology
-                </Button>
-                
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full text-left justify-start"
-                  onClick={() => setSystemPrompt(
-                    `You are a musculoskeletal radiologist with expertise in orthopedic imaging.
-Analyze bone structure, joint spaces, soft tissues, and alignment.
-Identify fractures, degenerative changes, inflammatory conditions, and tumors.
-Provide detailed anatomical descriptions and injury severity assessment.`
-                  )}
-                >
-                  Musculoskeletal
-                </Button>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full text-left justify-start"
-                  onClick={() => setSystemPrompt(
-                    `You are a neuroradiologist specializing in brain and spine imaging.
-Focus on brain parenchyma, ventricular system, vascular structures, and spinal anatomy.
-Identify strokes, tumors, hemorrhages, degenerative changes, and congenital anomalies.
-Provide neuroanatomical localization and clinical correlation.`
-                  )}
-                >
-                  Neuroradiology
-                </Button>
-
-                <Button
-                  variant="outline"
-                  size="sm"
-                  className="w-full text-left justify-start"
-                  onClick={() => setSystemPrompt(AIClient.getDefaultSystemPrompt())}
-                >
-                  General Radiology (Default)
+              <CardContent className="space-y-2">
+                {templates.map(template => (
+                  <Button
+                    key={template.id}
+                    variant={template.id === selectedId ? 'default' : 'outline'}
+                    size="sm"
+                    className="w-full text-left justify-between"
+                    onClick={() => editTemplate(template)}
+                  >
+                    <span className="truncate">{template.name}</span>
+                    <span className="flex gap-1">
+                      {template.isDefault && <Badge variant="secondary">Default</Badge>}
+                      {template.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                    </span>
+                  </Button>
+                ))}
+                <Separator className="my-2" />
+                <Button variant="outline" size="sm" className="w-full" onClick={() => copyTemplate()}>
+                  New Template
                 </Button>
               </CardContent>
             </Card>
@@ -125,7 +125,7 @@ export default function Dashboard() {
               </div>
               <h3 className="font-semibold text-gray-900 mb-2">Batch Analysis</h3>
               <p className="text-sm text-gray-600">
-                Intelligent batching of up to 20 images per AI analysis request
+                Series-aware batching sized to the model&apos;s image token budget
               </p>
             </div>
 
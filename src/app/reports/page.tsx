@@ -4,15 +4,150 @@ import { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { ArrowDown, ArrowUp, TriangleAlert } from 'lucide-react';
+import {
+  addReportAddendum,
+  controlJob,
+  exportStoredReport,
+  generateJobReport,
+  getCriticalAlerts,
+  getReport,
+  getReportDiff,
+  getReportVersions,
+  getSessionUser,
+  reviewReport,
+  searchReports,
+  updateCriticalAlert,
+  updateReport,
+  watchJob
+} from '@/lib/job-client';
+import {
+  ATTESTATIONS,
+  REPORT_STATUS_LABELS,
+  REPORT_TRANSITIONS,
+  SIGNATURE_KIND_LABELS,
+  canAddAddendum,
+  getAvailableActions,
+  hasReportFindings,
+  isReportEditable
+} from '@/lib/report-workflow';
+import { CRITICAL_FINDING_LABELS, formatCriticalFinding } from '@/lib/critical-findings';
+import type { AuthUser } from '@/lib/auth';
+import { CriticalAlert, CriticalFinding, ProcessingStatus, ReportStatus } from '@/types/medical';
+import {
+  ExportOptions,
+  ReportAction,
+  ReportAddendum,
+  ReportContent,
+  ReportDiff,
+  ReportDiffLine,
+  ReportPage,
+  ReportSearchQuery,
+  ReportSignature,
+  ReportSortField,
+  ReportSynthesis,
+  ReportTemplate,
+  ReportVersionKind,
+  ReportVersionSummary
+} from '@/types/report';
+
+const EXPORT_FORMATS: { format: ExportOptions['format']; label: string }[] = [
+  { format: 'PDF', label: 'PDF' },
+  { format: 'HTML', label: 'HTML' },
+  { format: 'MARKDOWN', label: 'Markdown' }
+];
+
+const HISTORY_PAGE_SIZE = 10;
+
+const STATUS_BADGES: Record<ReportStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  under_review: 'secondary',
+  preliminary: 'secondary',
+  final: 'default',
+  amended: 'default'
+};
+
+const ACTION_LABELS: Record<ReportAction, string> = {
+  submit: 'Submit for Review',
+  'sign-preliminary': 'Sign as Preliminary',
+  'sign-final': 'Sign as Final',
+  reopen: 'Reopen for Editing',
+  amend: 'Amend Report'
+};
+
+const VERSION_KIND_LABELS: Record<ReportVersionKind, string> = {
+  generated: 'AI draft',
+  edited: 'Edited',
+  amended: 'Amended'
+};
+
+const DIFF_LINE_STYLES: Record<ReportDiffLine['type'], { prefix: string; className: string }> = {
+  same: { prefix: ' ', className: 'text-gray-600 dark:text-gray-400' },
+  added: { prefix: '+', className: 'bg-green-100 text-green-900 dark:bg-green-950 dark:text-green-200' },
+  removed: { prefix: '-', className: 'bg-red-100 text-red-900 dark:bg-red-950 dark:text-red-200' }
+};
+
+// Search form fields; empty strings do not filter
+type ReportFilters = Required<Pick<ReportSearchQuery, 'text' | 'patient' | 'modality' | 'bodyPart' | 'templateId' | 'from' | 'to'>> & {
+  status: ReportStatus | '';
+  critical: 'true' | 'false' | '';
+};
+
+const EMPTY_FILTERS: ReportFilters = {
+  text: '',
+  patient: '',
+  modality: '',
+  bodyPart: '',
+  status: '',
+  critical: '',
+  templateId: '',
+  from: '',
+  to: ''
+};
+
+const ANY = 'any'; // Select items cannot have an empty value
+
+/**
+ * Page numbers to show: the first, the last and those around the current
+ * page, with null where pages are skipped
+ */
+function getPageNumbers(page: number, pages: number): (number | null)[] {
+  const numbers: (number | null)[] = [];
+  for (let n = 1; n <= pages; n++) {
+    if (n === 1 || n === pages || Math.abs(n - page) <= 1) {
+      numbers.push(n);
+    } else if (numbers[numbers.length - 1] !== null) {
+      numbers.push(null);
+    }
+  }
+  return numbers;
+}
 
 interface DiagnosticReportData {
+  jobId?: string; // processing job the report was built from
   report: {
     id: string;
     totalImages: number;
-    status: string;
+    status: ReportStatus;
     createdAt: string;
     generatedBy: string;
     patientInfo: {
@@ -21,6 +156,7 @@ interface DiagnosticReportData {
       studyDate?: string;
       modality?: string;
     };
+    criticalFindings: CriticalFinding[];
   };
   formattedReport: {
     summary: string;
@@ -28,6 +164,12 @@ interface DiagnosticReportData {
     recommendations: string;
     metadata: string;
   };
+  synthesis?: ReportSynthesis; // consolidated findings with impression sources
+  content: ReportContent; // the editable parts of the report
+  version: number;
+  signatures: (Omit<ReportSignature, 'signedAt'> & { signedAt: string })[];
+  addenda: (Omit<ReportAddendum, 'createdAt'> & { createdAt: string })[];
+  editedAt?: string;
   statistics: {
     totalImages: number;
     totalBatches: number;
@@ -41,35 +183,561 @@ export default function ReportsPage() {
   const [reportData, setReportData] = useState<DiagnosticReportData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [retryStatus, setRetryStatus] = useState<ProcessingStatus | null>(null);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [exportOptions, setExportOptions] = useState({ includeImages: true, includeMetadata: true });
+  const [exporting, setExporting] = useState<ExportOptions['format'] | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [history, setHistory] = useState<ReportPage | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<ReportFilters>(EMPTY_FILTERS);
+  const [search, setSearch] = useState<ReportSearchQuery>({ pageSize: HISTORY_PAGE_SIZE });
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [editing, setEditing] = useState<ReportContent | null>(null);
+  const [signing, setSigning] = useState<ReportAction | null>(null); // action awaiting attestation
+  const [user, setUser] = useState<AuthUser | null>(null); // signs reports reviewed here
+  const [amendReason, setAmendReason] = useState('');
+  const [reviewing, setReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+  const [addendumText, setAddendumText] = useState('');
+  const [versions, setVersions] = useState<ReportVersionSummary[]>([]);
+  const [compare, setCompare] = useState({ from: 1, to: 1 });
+  const [diff, setDiff] = useState<ReportDiff | null>(null);
+  const [diffError, setDiffError] = useState<string | null>(null);
+  const [openAlerts, setOpenAlerts] = useState<CriticalAlert[]>([]); // not acknowledged, across all studies
+  const [jobAlerts, setJobAlerts] = useState<CriticalAlert[]>([]); // every alert of the open report's job
+  const [alertBusy, setAlertBusy] = useState<string | null>(null);
+  const [alertError, setAlertError] = useState<string | null>(null);
 
-  useEffect(() => {
-    // Load report data from session storage
+  const loadHistory = async (query: ReportSearchQuery) => {
     try {
-      const storedData = sessionStorage.getItem('diagnosticReport');
-      if (storedData) {
-        const data = JSON.parse(storedData);
-        setReportData(data);
-      } else {
-        setError('No diagnostic report available. Please upload and process images first.');
-      }
+      setHistory(await searchReports(query));
+      setSearch(query);
+      setHistoryError(null);
     } catch (err) {
-      setError('Failed to load report data');
+      setHistoryError(err instanceof Error ? err.message : 'Failed to search reports');
+    }
+  };
+
+  const applyFilters = () => {
+    loadHistory({
+      ...filters,
+      status: filters.status || undefined,
+      critical: filters.critical ? filters.critical === 'true' : undefined,
+      // Best matches first for a new text search
+      sort: filters.text ? 'relevance' : 'createdAt',
+      order: 'desc',
+      page: 1,
+      pageSize: HISTORY_PAGE_SIZE
+    });
+  };
+
+  const clearFilters = () => {
+    setFilters(EMPTY_FILTERS);
+    loadHistory({ pageSize: HISTORY_PAGE_SIZE });
+  };
+
+  const sortBy = (field: ReportSortField) => {
+    const order = search.sort === field
+      ? (search.order === 'asc' ? 'desc' : 'asc')
+      : (field === 'createdAt' ? 'desc' : 'asc');
+    loadHistory({ ...search, sort: field, order, page: 1 });
+  };
+
+  const resetReview = () => {
+    setEditing(null);
+    setSigning(null);
+    setAmendReason('');
+    setReviewError(null);
+  };
+
+  const openReport = async (reportId: string) => {
+    setLoading(true);
+    setError(null);
+    setEditing(null);
+    setSigning(null);
+    setReviewError(null);
+    try {
+      setReportData(await getReport(reportId));
+      window.history.replaceState(null, '', `/reports?id=${encodeURIComponent(reportId)}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report');
     } finally {
       setLoading(false);
     }
+  };
+
+  // Open the report named in the URL, or else the most recent one
+  useEffect(() => {
+    const reportId = new URLSearchParams(window.location.search).get('id');
+    getSessionUser()
+      .then(setUser)
+      .catch(() => undefined);
+    fetch('/api/templates')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => data && setTemplates(data.templates))
+      .catch(() => undefined);
+
+    searchReports({ pageSize: HISTORY_PAGE_SIZE })
+      .then(page => {
+        setHistory(page);
+        const openId = reportId ?? page.reports[0]?.id;
+        if (openId) {
+          return openReport(openId);
+        }
+        setError('No diagnostic reports yet. Please upload and process images first.');
+        setLoading(false);
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to load reports');
+        setLoading(false);
+      });
   }, []);
 
-  const exportToPDF = async () => {
+  // A new version is saved by every edit and amendment; compare the AI draft with it
+  const reportId = reportData?.report.id;
+  const reportVersion = reportData?.version;
+  useEffect(() => {
+    if (!reportId || !reportVersion) return;
+    setDiff(null);
+    setDiffError(null);
+    setCompare({ from: 1, to: reportVersion });
+    getReportVersions(reportId)
+      .then(setVersions)
+      .catch(err => setDiffError(err instanceof Error ? err.message : 'Failed to load report versions'));
+  }, [reportId, reportVersion]);
+
+  // Critical results wait for acknowledgement whichever report is open
+  const reportJobId = reportData?.jobId;
+  useEffect(() => {
+    setAlertError(null);
+    Promise.all([
+      getCriticalAlerts({ status: 'open' }),
+      reportJobId ? getCriticalAlerts({ jobId: reportJobId }) : []
+    ])
+      .then(([open, forJob]) => {
+        setOpenAlerts(open);
+        setJobAlerts(forJob);
+      })
+      .catch(err => setAlertError(err instanceof Error ? err.message : 'Failed to load critical alerts'));
+  }, [reportJobId]);
+
+  const runAlertAction = async (alertId: string, action: 'acknowledge' | 'resend') => {
+    setAlertBusy(alertId);
+    setAlertError(null);
+    try {
+      const alert = await updateCriticalAlert(alertId, action);
+      setOpenAlerts(alerts => alert.acknowledgedAt
+        ? alerts.filter(item => item.id !== alertId)
+        : alerts.map(item => item.id === alertId ? alert : item));
+      setJobAlerts(alerts => alerts.map(item => item.id === alertId ? alert : item));
+    } catch (err) {
+      setAlertError(err instanceof Error ? err.message : 'Failed to update critical alert');
+    } finally {
+      setAlertBusy(null);
+    }
+  };
+
+  const exportReport = async (format: ExportOptions['format']) => {
+    if (!reportData) return;
+
+    setExporting(format);
+    setExportError(null);
+    try {
+      await exportStoredReport(reportData.report.id, { format, ...exportOptions });
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Report export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  /**
+   * Save edits, or move the report through review. Signing actions first
+   * show the attestation; unsaved edits are saved with the action.
+   */
+  const runReview = async (action?: ReportAction) => {
     if (!reportData) return;
-    
-    // In a real implementation, this would call the export API
-    alert('PDF export would be implemented here. The report data is ready for export.');
+    const reportId = reportData.report.id;
+
+    setReviewing(true);
+    setReviewError(null);
+    try {
+      if (action) {
+        await reviewReport(reportId, action, {
+          reason: action === 'amend' ? amendReason : undefined,
+          content: editing ?? undefined
+        });
+      } else if (editing) {
+        await updateReport(reportId, editing);
+      }
+      resetReview();
+      setReportData(await getReport(reportId));
+      await loadHistory(search);
+    } catch (err) {
+      setReviewError(err instanceof Error ? err.message : 'Failed to update report');
+    } finally {
+      setReviewing(false);
+    }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
+  const addAddendum = async () => {
+    if (!reportData) return;
+    const reportId = reportData.report.id;
+
+    setReviewing(true);
+    setReviewError(null);
+    try {
+      await addReportAddendum(reportId, { text: addendumText });
+      setAddendumText('');
+      setReportData(await getReport(reportId));
+    } catch (err) {
+      setReviewError(err instanceof Error ? err.message : 'Failed to add addendum');
+    } finally {
+      setReviewing(false);
+    }
+  };
+
+  const compareVersions = async () => {
+    if (!reportData) return;
+    setDiffError(null);
+    try {
+      setDiff(await getReportDiff(reportData.report.id, compare.from, compare.to));
+    } catch (err) {
+      setDiffError(err instanceof Error ? err.message : 'Failed to compare versions');
+    }
   };
 
+  const startAction = (action: ReportAction) => {
+    if (!reportData) return;
+    if (!REPORT_TRANSITIONS[action].signature) {
+      runReview(action);
+      return;
+    }
+    setSigning(action);
+    setReviewError(null);
+    if (action === 'amend') {
+      setEditing(reportData.content);
+    }
+  };
+
+  /**
+   * Reprocess only the failed batches of the job, then rebuild the report
+   * so their results are merged with the batches that already succeeded
+   */
+  const retryFailedBatches = async () => {
+    if (!reportData?.jobId) return;
+    const jobId = reportData.jobId;
+
+    setRetryError(null);
+    try {
+      const { status } = await controlJob(jobId, 'retry-failed');
+      setRetryStatus(status);
+      await watchJob(jobId, update => setRetryStatus(update.status));
+
+      const data = await generateJobReport(jobId);
+      resetReview();
+      setReportData(data);
+      window.history.replaceState(null, '', `/reports?id=${encodeURIComponent(data.report.id)}`);
+      await loadHistory({ ...search, page: 1 });
+    } catch (err) {
+      setRetryError(err instanceof Error ? err.message : 'Retry failed');
+    } finally {
+      setRetryStatus(null);
+    }
+  };
+
+  const formatDate = (date: string | Date) => {
+    return new Date(date).toLocaleString();
+  };
+
+  const historyPages = history ? Math.ceil(history.total / history.pageSize) : 0;
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  const sortableHead = (field: ReportSortField, label: string) => (
+    <TableHead>
+      <button type="button" className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => sortBy(field)}>
+        {label}
+        {search.sort === field && (search.order === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+
+  const goToPage = (page: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (history && page >= 1 && page <= historyPages && page !== history.page) {
+      loadHistory({ ...search, page });
+    }
+  };
+
+  const alertActions = (alert: CriticalAlert) => (
+    <div className="flex gap-2">
+      {alert.deliveryStatus === 'failed' && (
+        <Button size="sm" variant="outline" onClick={() => runAlertAction(alert.id, 'resend')} disabled={alertBusy === alert.id}>
+          Resend
+        </Button>
+      )}
+      {!alert.acknowledgedAt && (
+        <Button
+          size="sm"
+          variant="destructive"
+          onClick={() => runAlertAction(alert.id, 'acknowledge')}
+          disabled={alertBusy === alert.id}
+        >
+          {alertBusy === alert.id ? 'Saving...' : 'Acknowledge'}
+        </Button>
+      )}
+    </div>
+  );
+
+  const describeDelivery = (alert: CriticalAlert) => {
+    switch (alert.deliveryStatus) {
+      case 'delivered':
+        return `sent via ${alert.channel} on ${formatDate(alert.deliveredAt!)}`;
+      case 'failed':
+        return `delivery via ${alert.channel} failed: ${alert.deliveryError}`;
+      default:
+        return `sending via ${alert.channel}`;
+    }
+  };
+
+  const historyCard = history && (history.total > 0 || hasFilters) && (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Report History</CardTitle>
+        <CardDescription>
+          {history.total} {history.total === 1 ? 'report' : 'reports'}
+          {search.sort === 'relevance' ? ', best matches first' : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {openAlerts.length > 0 && (
+          <Alert className="border-red-300 bg-red-50 text-red-900">
+            <TriangleAlert className="h-4 w-4" />
+            <AlertTitle>
+              {openAlerts.length} unacknowledged critical {openAlerts.length === 1 ? 'result' : 'results'}
+            </AlertTitle>
+            <AlertDescription className="w-full space-y-2 text-red-900">
+              {openAlerts.map(alert => (
+                <div key={alert.id} className="flex flex-wrap items-center justify-between gap-2 w-full">
+                  <div>
+                    <span className="font-medium">
+                      {alert.patientInfo.name || alert.patientInfo.id || `Job ${alert.jobId}`}
+                    </span>
+                    {': '}
+                    {alert.findings.map(finding => CRITICAL_FINDING_LABELS[finding.category]).join(', ')}
+                    <span className="ml-2 text-xs text-red-700">
+                      batch {alert.batchNumber}, {formatDate(alert.createdAt)}
+                    </span>
+                  </div>
+                  <div className="flex gap-2">
+                    {alert.reportId && alert.reportId !== reportData?.report.id && (
+                      <Button size="sm" variant="outline" onClick={() => openReport(alert.reportId!)}>
+                        Open Report
+                      </Button>
+                    )}
+                    {alertActions(alert)}
+                  </div>
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {alertError && (
+          <Alert className="border-red-200 bg-red-50 text-red-800">
+            <AlertDescription>{alertError}</AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-3"
+          onSubmit={(event) => {
+            event.preventDefault();
+            applyFilters();
+          }}
+        >
+          <Input
+            className="md:col-span-2"
+            placeholder="Search report text, e.g. fracture"
+            value={filters.text}
+            onChange={(e) => setFilters({ ...filters, text: e.target.value })}
+          />
+          <Input
+            placeholder="Patient name or ID"
+            value={filters.patient}
+            onChange={(e) => setFilters({ ...filters, patient: e.target.value })}
+          />
+          <Select
+            value={filters.templateId || ANY}
+            onValueChange={(value) => setFilters({ ...filters, templateId: value === ANY ? '' : value })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Template" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any template</SelectItem>
+              {templates.map(template => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            placeholder="Modality, e.g. CT"
+            value={filters.modality}
+            onChange={(e) => setFilters({ ...filters, modality: e.target.value })}
+          />
+          <Input
+            placeholder="Body part, e.g. CHEST"
+            value={filters.bodyPart}
+            onChange={(e) => setFilters({ ...filters, bodyPart: e.target.value })}
+          />
+          <Select
+            value={filters.status || ANY}
+            onValueChange={(value) => setFilters({ ...filters, status: value === ANY ? '' : value as ReportStatus })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any status</SelectItem>
+              {Object.entries(REPORT_STATUS_LABELS).map(([status, label]) => (
+                <SelectItem key={status} value={status}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.critical || ANY}
+            onValueChange={(value) => setFilters({ ...filters, critical: value === ANY ? '' : value as ReportFilters['critical'] })}
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue placeholder="Critical findings" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any findings</SelectItem>
+              <SelectItem value="true">With critical findings</SelectItem>
+              <SelectItem value="false">Without critical findings</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              aria-label="Generated from"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            />
+            <span className="text-sm text-gray-500">to</span>
+            <Input
+              type="date"
+              aria-label="Generated to"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-4 flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={clearFilters} disabled={!hasFilters}>
+              Clear
+            </Button>
+            <Button type="submit">Search</Button>
+          </div>
+        </form>
+
+        {historyError && (
+          <Alert className="border-red-200 bg-red-50 text-red-800">
+            <AlertDescription>{historyError}</AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {sortableHead('createdAt', 'Generated')}
+              {sortableHead('patientName', 'Patient')}
+              {sortableHead('modality', 'Modality')}
+              {sortableHead('bodyPart', 'Body Part')}
+              {sortableHead('templateName', 'Template')}
+              {sortableHead('status', 'Status')}
+              {sortableHead('totalImages', 'Images')}
+              <TableHead>{search.text ? 'Match' : 'Impression'}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {history.reports.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-gray-500 py-6">
+                  No reports match these filters.
+                </TableCell>
+              </TableRow>
+            )}
+            {history.reports.map(report => (
+              <TableRow
+                key={report.id}
+                className="cursor-pointer"
+                data-state={report.id === reportData?.report.id ? 'selected' : undefined}
+                onClick={() => openReport(report.id)}
+              >
+                <TableCell>{formatDate(report.createdAt)}</TableCell>
+                <TableCell>
+                  <div className="font-medium">{report.patientInfo.name || 'N/A'}</div>
+                  {report.patientInfo.id && <div className="text-xs text-gray-500">{report.patientInfo.id}</div>}
+                </TableCell>
+                <TableCell>{report.patientInfo.modality || 'N/A'}</TableCell>
+                <TableCell>{report.bodyPart || 'N/A'}</TableCell>
+                <TableCell>{report.templateName || 'N/A'}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    <Badge variant={STATUS_BADGES[report.status]}>
+                      {REPORT_STATUS_LABELS[report.status]}
+                    </Badge>
+                    {report.criticalFindings.length > 0 && (
+                      <Badge variant="destructive" title={report.criticalFindings.map(formatCriticalFinding).join('\n')}>
+                        Critical
+                      </Badge>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{report.totalImages}</TableCell>
+                <TableCell className="max-w-xs truncate text-gray-600 dark:text-gray-400" title={report.snippet ?? report.impression}>
+                  {report.snippet ?? report.impression ?? ''}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        {historyPages > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={goToPage(history.page - 1)}
+                  aria-disabled={history.page <= 1}
+                  className={history.page <= 1 ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+              {getPageNumbers(history.page, historyPages).map((page, index) => (
+                <PaginationItem key={page ?? `gap-${index}`}>
+                  {page === null
+                    ? <PaginationEllipsis />
+                    : <PaginationLink href="#" isActive={page === history.page} onClick={goToPage(page)}>{page}</PaginationLink>}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={goToPage(history.page + 1)}
+                  aria-disabled={history.page >= historyPages}
+                  className={history.page >= historyPages ? 'pointer-events-none opacity-50' : undefined}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
@@ -99,11 +767,23 @@ export default function ReportsPage() {
               Upload New Images
             </Button>
           </div>
+          <div className="max-w-6xl mx-auto">{historyCard}</div>
         </div>
       </div>
     );
   }
 
+  const reportStatus = reportData.report.status;
+  const signatureKind = signing ? REPORT_TRANSITIONS[signing].signature : undefined;
+
+  const updateImpression = (index: number, statement: string) => {
+    if (!editing) return;
+    setEditing({
+      ...editing,
+      impressions: editing.impressions.map((impression, i) => i === index ? { ...impression, statement } : impression)
+    });
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       <div className="container mx-auto px-4 py-8">
@@ -118,9 +798,16 @@ export default function ReportsPage() {
               </p>
             </div>
             <div className="flex gap-3">
-              <Button onClick={exportToPDF} variant="outline">
-                Export PDF
-              </Button>
+              {reportData.jobId && reportData.statistics.failedBatches > 0 && (
+                <Button onClick={retryFailedBatches} variant="outline" disabled={!!retryStatus}>
+                  {retryStatus ? 'Retrying...' : `Retry ${reportData.statistics.failedBatches} Failed Batches`}
+                </Button>
+              )}
+              {EXPORT_FORMATS.map(({ format, label }) => (
+                <Button key={format} onClick={() => exportReport(format)} variant="outline" disabled={!!exporting}>
+                  {exporting === format ? 'Exporting...' : `Export ${label}`}
+                </Button>
+              ))}
               <Button onClick={() => window.location.href = '/upload'}>
                 New Analysis
               </Button>
@@ -128,13 +815,81 @@ export default function ReportsPage() {
           </div>
         </header>
 
+        {retryStatus && (
+          <Card className="mb-8">
+            <CardContent className="pt-6 space-y-2">
+              <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+                <span>Retrying failed batches: batch {retryStatus.currentBatch} of {retryStatus.totalBatches}</span>
+                <span>{retryStatus.progress}%</span>
+              </div>
+              <Progress value={retryStatus.progress} className="w-full" />
+            </CardContent>
+          </Card>
+        )}
+
+        {retryError && (
+          <Alert className="mb-8 border-red-200 bg-red-50 text-red-800">
+            <AlertDescription>{retryError}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-6 -mt-4 mb-8 text-sm">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-images"
+              checked={exportOptions.includeImages}
+              onCheckedChange={(checked) => setExportOptions({ ...exportOptions, includeImages: checked === true })}
+            />
+            <Label htmlFor="export-images">Include key images</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="export-metadata"
+              checked={exportOptions.includeMetadata}
+              onCheckedChange={(checked) => setExportOptions({ ...exportOptions, includeMetadata: checked === true })}
+            />
+            <Label htmlFor="export-metadata">Include report details</Label>
+          </div>
+        </div>
+
+        {exportError && (
+          <Alert className="mb-8 border-red-200 bg-red-50 text-red-800">
+            <AlertDescription>{exportError}</AlertDescription>
+          </Alert>
+        )}
+
+        {reportData.report.criticalFindings.length > 0 && (
+          <Alert className="mb-8 border-red-300 bg-red-50 text-red-900">
+            <TriangleAlert className="h-4 w-4" />
+            <AlertTitle>Critical findings: communicate to the care team</AlertTitle>
+            <AlertDescription className="w-full space-y-3 text-red-900">
+              <ul className="list-disc pl-5 font-medium">
+                {reportData.report.criticalFindings.map((finding, index) => (
+                  <li key={index}>{formatCriticalFinding(finding)}</li>
+                ))}
+              </ul>
+              {jobAlerts.map(alert => (
+                <div key={alert.id} className="flex flex-wrap items-center justify-between gap-2 w-full text-sm">
+                  <span>
+                    Batch {alert.batchNumber} alert {describeDelivery(alert)}
+                    {alert.acknowledgedAt
+                      ? `; acknowledged by ${alert.acknowledgedBy} on ${formatDate(alert.acknowledgedAt)}`
+                      : '; not acknowledged yet'}
+                  </span>
+                  {alertActions(alert)}
+                </div>
+              ))}
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Report Header */}
         <Card className="mb-8">
           <CardHeader>
             <div className="flex items-center justify-between">
               <CardTitle>Report Overview</CardTitle>
-              <Badge variant={reportData.report.status === 'completed' ? 'default' : 'secondary'}>
-                {reportData.report.status.toUpperCase()}
+              <Badge variant={STATUS_BADGES[reportData.report.status]}>
+                {REPORT_STATUS_LABELS[reportData.report.status]}
               </Badge>
             </div>
             <CardDescription>{reportData.formattedReport.summary}</CardDescription>
@@ -169,6 +924,306 @@ export default function ReportsPage() {
           </CardContent>
         </Card>
 
+        {/* Review & Sign-off */}
+        <Card className="mb-8">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>Review &amp; Sign-off</CardTitle>
+                <CardDescription>
+                  {isReportEditable(reportStatus)
+                    ? 'The report can be edited until it is signed'
+                    : 'Signed reports are locked and can only be changed by a signed amendment'}
+                </CardDescription>
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                {isReportEditable(reportStatus) && !editing && (
+                  <Button variant="outline" onClick={() => setEditing(reportData.content)} disabled={reviewing}>
+                    Edit Report
+                  </Button>
+                )}
+                {getAvailableActions(reportStatus).map(action => (
+                  <Button
+                    key={action}
+                    variant={action === 'sign-final' ? 'default' : 'outline'}
+                    onClick={() => startAction(action)}
+                    disabled={reviewing || !!signing || (!!REPORT_TRANSITIONS[action].signature && !hasReportFindings(editing ?? reportData.content))}
+                  >
+                    {ACTION_LABELS[action]}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {reviewError && (
+              <Alert className="border-red-200 bg-red-50 text-red-800">
+                <AlertDescription>{reviewError}</AlertDescription>
+              </Alert>
+            )}
+
+            {editing && (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-findings">Findings</Label>
+                  <Textarea
+                    id="edit-findings"
+                    rows={8}
+                    value={editing.findings}
+                    onChange={(e) => setEditing({ ...editing, findings: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Impression</Label>
+                  {editing.impressions.map((impression, index) => (
+                    <div key={index} className="flex items-start gap-2">
+                      <span className="pt-2 text-sm text-gray-500">{index + 1}.</span>
+                      <div className="flex-1 space-y-1">
+                        <Textarea
+                          rows={2}
+                          value={impression.statement}
+                          onChange={(e) => updateImpression(index, e.target.value)}
+                        />
+                        {impression.evidence.length > 0 && (
+                          <div className="text-xs text-gray-500">
+                            Sources: {impression.evidence.map(evidence => `Batch ${evidence.batchNumber}`).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing({ ...editing, impressions: editing.impressions.filter((_, i) => i !== index) })}
+                      >
+                        Remove
+                      </Button>
+                    </div>
+                  ))}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEditing({ ...editing, impressions: [...editing.impressions, { statement: '', evidence: [] }] })}
+                  >
+                    Add Impression Item
+                  </Button>
+                </div>
+                {editing.sections.map((section, index) => (
+                  <div key={section.title} className="space-y-2">
+                    <Label htmlFor={`edit-section-${index}`}>{section.title}</Label>
+                    <Textarea
+                      id={`edit-section-${index}`}
+                      rows={3}
+                      value={section.content}
+                      onChange={(e) => setEditing({
+                        ...editing,
+                        sections: editing.sections.map((item, i) => i === index ? { ...item, content: e.target.value } : item)
+                      })}
+                    />
+                  </div>
+                ))}
+                <div className="space-y-2">
+                  <Label htmlFor="edit-recommendations">Recommendations</Label>
+                  <Textarea
+                    id="edit-recommendations"
+                    rows={4}
+                    value={editing.recommendations}
+                    onChange={(e) => setEditing({ ...editing, recommendations: e.target.value })}
+                  />
+                </div>
+                {!signing && (
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={resetReview} disabled={reviewing}>
+                      Cancel
+                    </Button>
+                    <Button onClick={() => runReview()} disabled={reviewing}>
+                      {reviewing ? 'Saving...' : 'Save Draft'}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {signing && signatureKind && (
+              <div className="space-y-3 rounded-lg border p-4">
+                <h3 className="font-semibold">{SIGNATURE_KIND_LABELS[signatureKind]}</h3>
+                <p className="text-sm italic text-gray-600 dark:text-gray-400">{ATTESTATIONS[signatureKind]}</p>
+                <p className="text-sm">
+                  Signing as <span className="font-medium">{user?.name ?? 'the signed-in user'}</span>
+                </p>
+                {signing === 'amend' && (
+                  <div className="space-y-1 md:max-w-[50%]">
+                    <Label htmlFor="amend-reason">Reason for amendment</Label>
+                    <Input
+                      id="amend-reason"
+                      value={amendReason}
+                      onChange={(e) => setAmendReason(e.target.value)}
+                    />
+                  </div>
+                )}
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => signing === 'amend' ? resetReview() : setSigning(null)}
+                    disabled={reviewing}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => runReview(signing)}
+                    disabled={reviewing || (signing === 'amend' && !amendReason.trim())}
+                  >
+                    {reviewing ? 'Signing...' : `Attest and ${ACTION_LABELS[signing]}`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Sign-off History</h3>
+              {reportData.signatures.length === 0 ? (
+                <p className="text-sm text-gray-500">Not signed yet.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {reportData.signatures.map((signature, index) => (
+                    <li key={index} className="text-sm">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge variant="outline">{SIGNATURE_KIND_LABELS[signature.kind]}</Badge>
+                        <span className="font-medium">{signature.signedBy}</span>
+                        <span className="text-gray-500">signed version {signature.version}, {formatDate(signature.signedAt)}</span>
+                      </div>
+                      {signature.reason && <div className="mt-1">Reason: {signature.reason}</div>}
+                      <div className="mt-1 text-xs italic text-gray-500">{signature.attestation}</div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {reportData.editedAt && (
+                <p className="mt-3 text-xs text-gray-500">Last edited {formatDate(reportData.editedAt)}</p>
+              )}
+            </div>
+
+            {(reportData.addenda.length > 0 || canAddAddendum(reportStatus)) && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-gray-900 dark:text-white">Addenda</h3>
+                {reportData.addenda.length === 0 && (
+                  <p className="text-sm text-gray-500">No addenda. Add one to note information that came after sign-off.</p>
+                )}
+                {reportData.addenda.map(addendum => (
+                  <div key={addendum.id} className="text-sm">
+                    <div className="font-medium">
+                      {addendum.author} <span className="font-normal text-gray-500">{formatDate(addendum.createdAt)}</span>
+                    </div>
+                    <p className="mt-1 whitespace-pre-wrap">{addendum.text}</p>
+                  </div>
+                ))}
+                {canAddAddendum(reportStatus) && (
+                  <div className="space-y-2 rounded-lg border p-4">
+                    <Textarea
+                      aria-label="Addendum"
+                      rows={3}
+                      placeholder={user ? `Addendum by ${user.name}` : 'Addendum text'}
+                      value={addendumText}
+                      onChange={(e) => setAddendumText(e.target.value)}
+                    />
+                    <div className="flex justify-end">
+                      <Button onClick={addAddendum} disabled={reviewing || !addendumText.trim()}>
+                        Add Addendum
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Version History */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Version History</CardTitle>
+            <CardDescription>
+              Every saved text of this report is kept. Compare versions to see what was changed after the AI draft.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Change</TableHead>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>By</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {versions.map(version => (
+                  <TableRow key={version.version}>
+                    <TableCell>
+                      {version.version}
+                      {version.version === reportData.version && <Badge variant="outline" className="ml-2">Current</Badge>}
+                    </TableCell>
+                    <TableCell>{VERSION_KIND_LABELS[version.kind]}</TableCell>
+                    <TableCell>{formatDate(version.createdAt)}</TableCell>
+                    <TableCell>{version.createdBy || (version.kind === 'generated' ? 'AI' : 'N/A')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {versions.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <span>Compare version</span>
+                <Select value={String(compare.from)} onValueChange={(value) => setCompare({ ...compare, from: Number(value) })}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.version} value={String(version.version)}>{version.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span>with</span>
+                <Select value={String(compare.to)} onValueChange={(value) => setCompare({ ...compare, to: Number(value) })}>
+                  <SelectTrigger className="w-24">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map(version => (
+                      <SelectItem key={version.version} value={String(version.version)}>{version.version}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="sm" onClick={compareVersions}>
+                  Compare
+                </Button>
+              </div>
+            )}
+
+            {diffError && (
+              <Alert className="border-red-200 bg-red-50 text-red-800">
+                <AlertDescription>{diffError}</AlertDescription>
+              </Alert>
+            )}
+
+            {diff && (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Version {diff.from.version} ({VERSION_KIND_LABELS[diff.from.kind]}) to version {diff.to.version} ({VERSION_KIND_LABELS[diff.to.kind]}):
+                  {' '}{diff.added} {diff.added === 1 ? 'line' : 'lines'} added, {diff.removed} removed
+                </p>
+                <pre className="max-h-[480px] overflow-auto rounded-lg bg-gray-50 dark:bg-gray-800 p-4 text-xs leading-relaxed">
+                  {diff.lines.map((line, index) => (
+                    <div key={index} className={DIFF_LINE_STYLES[line.type].className}>
+                      {DIFF_LINE_STYLES[line.type].prefix} {line.text}
+                    </div>
+                  ))}
+                </pre>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Main Report Content */}
         <Tabs defaultValue="findings" className="space-y-6">
           <TabsList className="grid w-full grid-cols-3">
@@ -177,7 +1232,34 @@ export default function ReportsPage() {
             <TabsTrigger value="metadata">Report Details</TabsTrigger>
           </TabsList>
 
-          <TabsContent value="findings">
+          <TabsContent value="findings" className="space-y-6">
+            {reportData.synthesis && reportData.synthesis.impressions.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Impression</CardTitle>
+                  <CardDescription>
+                    Consolidated across all batches, with the batches and images supporting each item
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-3 list-decimal list-inside">
+                    {reportData.synthesis.impressions.map((impression, index) => (
+                      <li key={index} className="text-sm">
+                        {impression.statement}
+                        <div className="flex flex-wrap gap-1 mt-1 ml-5">
+                          {impression.evidence.map(evidence => (
+                            <Badge key={evidence.batchId} variant="outline" className="font-normal">
+                              Batch {evidence.batchNumber}
+                              {evidence.images.length > 0 && `: ${evidence.images.join(', ')}`}
+                            </Badge>
+                          ))}
+                        </div>
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
             <Card>
               <CardHeader>
                 <CardTitle>Medical Findings</CardTitle>
@@ -274,8 +1356,8 @@ export default function ReportsPage() {
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600">Status:</span>
-                        <Badge variant={reportData.report.status === 'completed' ? 'default' : 'secondary'}>
-                          {reportData.report.status.toUpperCase()}
+                        <Badge variant={STATUS_BADGES[reportData.report.status]}>
+                          {REPORT_STATUS_LABELS[reportData.report.status]}
                         </Badge>
                       </div>
                     </div>
@@ -316,6 +1398,8 @@ export default function ReportsPage() {
           </TabsContent>
         </Tabs>
 
+        {historyCard}
+
         {/* Action Buttons */}
         <div className="flex justify-center gap-4 mt-8">
           <Button onClick={() => window.location.href = '/upload'} className="bg-blue-600 hover:bg-blue-700 text-white">
@@ -1,23 +1,37 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { MedicalImage, ProcessingStatus } from '@/types/medical';
-import { AIClient } from '@/lib/ai-client';
+import { MedicalImage, PatientStudies, ProcessingStatus } from '@/types/medical';
+import { ReportTemplate } from '@/types/report';
+import { planBatches } from '@/lib/batch-planner';
+import { controlJob, generateJobReport, JobAction, watchJob } from '@/lib/job-client';
+import { derivePatientInfo } from '@/lib/patient-info';
+import { countSeries } from '@/lib/study-grouping';
+import { DEFAULT_SYSTEM_PROMPT } from '@/lib/system-prompt';
+import { WINDOW_PRESETS, WindowPresetName } from '@/lib/window-presets';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const PROCESSING_JOB_KEY = 'processingJobId';
 
 interface UploadState {
   images: MedicalImage[];
+  studies: PatientStudies[];
   isUploading: boolean;
   isProcessing: boolean;
   uploadProgress: number;
   processingStatus?: ProcessingStatus;
+  jobId?: string; // processing job of the current run
+  fileIssues?: string[]; // files rejected or left out of the analysis by the upload
   error?: string;
   success?: string;
 }
@@ -26,12 +40,27 @@ export default function UploadPage() {
   const router = useRouter();
   const [uploadState, setUploadState] = useState<UploadState>({
     images: [],
+    studies: [],
     isUploading: false,
     isProcessing: false,
     uploadProgress: 0
   });
-  const [systemPrompt, setSystemPrompt] = useState<string>(AIClient.getDefaultSystemPrompt());
+  const [systemPrompt, setSystemPrompt] = useState<string>(DEFAULT_SYSTEM_PROMPT);
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [templateId, setTemplateId] = useState<string>();
+  // Once the user picks a template or edits the prompt, uploads no longer change them
+  const [templateLocked, setTemplateLocked] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [windowPresets, setWindowPresets] = useState<WindowPresetName[]>([]);
+  const [maxFramesPerObject, setMaxFramesPerObject] = useState<string>('');
+  // Model the server analyzes with, which decides how images are batched
+  const [model, setModel] = useState<string>();
+
+  const toggleWindowPreset = (preset: WindowPresetName, checked: boolean) => {
+    setWindowPresets(prev =>
+      checked ? [...prev.filter(p => p !== preset), preset] : prev.filter(p => p !== preset)
+    );
+  };
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -43,7 +72,7 @@ export default function UploadPage() {
     }
   }, []);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
@@ -52,7 +81,7 @@ export default function UploadPage() {
     if (files.length > 0) {
       handleFiles(files);
     }
-  }, []);
+  };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []) as File[];
@@ -74,6 +103,7 @@ export default function UploadPage() {
       ...prev,
       isUploading: true,
       error: undefined,
+      fileIssues: undefined,
       uploadProgress: 0
     }));
 
@@ -82,6 +112,12 @@ export default function UploadPage() {
       files.forEach(file => {
         formData.append('files', file);
       });
+      windowPresets.forEach(preset => {
+        formData.append('windowPresets', preset);
+      });
+      if (maxFramesPerObject) {
+        formData.append('maxFramesPerObject', maxFramesPerObject);
+      }
 
       const response = await fetch('/api/upload', {
         method: 'POST',
@@ -98,8 +134,10 @@ export default function UploadPage() {
       setUploadState(prev => ({
         ...prev,
         images: data.images,
+        studies: data.studies || [],
         isUploading: false,
         uploadProgress: 100,
+        fileIssues: [...(data.errors ?? []), ...(data.warnings ?? [])],
         success: `Successfully uploaded ${data.processedFiles} files`
       }));
 
@@ -129,14 +167,14 @@ export default function UploadPage() {
         totalImages: prev.images.length,
         processedImages: 0,
         currentBatch: 0,
-        totalBatches: Math.ceil(prev.images.length / 20),
+        totalBatches: planBatches(prev.images, { model }).length,
         status: 'processing',
         progress: 0
       }
     }));
 
     try {
-      // Process images in batches
+      // Queue the images for processing
       const response = await fetch('/api/process-batch', {
         method: 'POST',
         headers: {
@@ -144,7 +182,9 @@ export default function UploadPage() {
         },
         body: JSON.stringify({
           images: uploadState.images,
-          systemPrompt: systemPrompt
+          systemPrompt: systemPrompt,
+          templateId,
+          patientInfo: derivePatientInfo(uploadState.images)
         }),
       });
 
@@ -155,67 +195,139 @@ export default function UploadPage() {
 
       const data = await response.json();
 
-      // Generate final report
-      const reportResponse = await fetch('/api/generate-report', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          images: uploadState.images,
-          batches: data.processedBatches,
-          patientInfo: {
-            name: 'Patient',
-            id: 'AUTO-GENERATED',
-            studyDate: new Date().toISOString().split('T')[0],
-            modality: 'Multiple'
-          },
-          exportFormat: 'PDF'
-        }),
-      });
+      // Remember the job so a refresh picks up where it left off
+      sessionStorage.setItem(PROCESSING_JOB_KEY, data.jobId);
+      await followJob(data.jobId);
+    } catch (error) {
+      failProcessing(error);
+    }
+  };
 
-      if (!reportResponse.ok) {
-        const errorData = await reportResponse.json();
-        throw new Error(errorData.error || 'Report generation failed');
-      }
+  const failProcessing = useCallback((error: unknown) => {
+    setUploadState(prev => ({
+      ...prev,
+      isProcessing: false,
+      processingStatus: prev.processingStatus ? {
+        ...prev.processingStatus,
+        status: 'failed'
+      } : undefined,
+      error: error instanceof Error ? error.message : 'Processing failed'
+    }));
+  }, []);
 
-      const reportData = await reportResponse.json();
+  /**
+   * Follow a queued job until it finishes, then generate its report
+   */
+  const followJob = useCallback(async (jobId: string) => {
+    setUploadState(prev => ({ ...prev, jobId }));
+
+    let job;
+    try {
+      job = await watchJob(jobId, ({ status }) => {
+        setUploadState(prev => ({
+          ...prev,
+          isProcessing: true,
+          processingStatus: status
+        }));
+      });
+    } finally {
+      sessionStorage.removeItem(PROCESSING_JOB_KEY);
+    }
 
+    if (job.status === 'cancelled') {
       setUploadState(prev => ({
         ...prev,
         isProcessing: false,
-        processingStatus: {
-          ...prev.processingStatus!,
-          status: 'completed',
-          progress: 100
-        },
-        success: `Processing completed! ${data.successfulBatches}/${data.totalBatches} batches successful`
+        error: 'Processing was cancelled'
       }));
+      return;
+    }
+    // Generate final report; failed batches are listed in it and can be retried from the reports page
+    const reportData = await generateJobReport(jobId);
 
-      // Store report data for navigation
-      sessionStorage.setItem('diagnosticReport', JSON.stringify(reportData));
+    setUploadState(prev => ({
+      ...prev,
+      isProcessing: false,
+      processingStatus: {
+        ...prev.processingStatus!,
+        status: 'completed',
+        progress: 100
+      },
+      success: `Processing completed! ${job.completedBatches}/${job.totalBatches} batches successful`
+    }));
 
-      // Navigate to reports page after a short delay
-      setTimeout(() => {
-        router.push('/reports');
-      }, 2000);
+    // Navigate to the stored report after a short delay
+    setTimeout(() => {
+      router.push(`/reports?id=${encodeURIComponent(reportData.report.id)}`);
+    }, 2000);
+  }, [router]);
 
+  const handleJobAction = async (action: JobAction) => {
+    if (!uploadState.jobId) return;
+    try {
+      const { status } = await controlJob(uploadState.jobId, action);
+      setUploadState(prev => ({ ...prev, processingStatus: status }));
     } catch (error) {
       setUploadState(prev => ({
         ...prev,
-        isProcessing: false,
-        processingStatus: prev.processingStatus ? {
-          ...prev.processingStatus,
-          status: 'failed'
-        } : undefined,
-        error: error instanceof Error ? error.message : 'Processing failed'
+        error: error instanceof Error ? error.message : 'Failed to update processing'
       }));
     }
   };
 
+  // Resume following a job that was still running when the page was left
+  useEffect(() => {
+    const jobId = sessionStorage.getItem(PROCESSING_JOB_KEY);
+    if (jobId) {
+      followJob(jobId).catch(failProcessing);
+    }
+  }, [followJob, failProcessing]);
+
+  useEffect(() => {
+    fetch('/api/ai-config')
+      .then(response => response.ok ? response.json() : null)
+      .then(config => setModel(config?.model))
+      .catch(() => setModel(undefined));
+  }, []);
+
+  // Suggest the template that suits the uploaded study
+  useEffect(() => {
+    const { modality } = derivePatientInfo(uploadState.images);
+    const bodyPart = uploadState.images.find(img => img.metadata?.bodyPart)?.metadata?.bodyPart;
+    const params = new URLSearchParams();
+    if (modality && modality !== 'Multiple') params.set('modality', modality);
+    if (bodyPart) params.set('bodyPart', bodyPart);
+
+    fetch(`/api/templates?${params}`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!data) return;
+        setTemplates(data.templates);
+        if (!templateLocked) {
+          const suggested = data.templates.find((template: ReportTemplate) => template.id === data.suggestedTemplateId);
+          if (suggested) {
+            setTemplateId(suggested.id);
+            setSystemPrompt(suggested.systemPrompt);
+          }
+        }
+      })
+      .catch(() => setTemplates([]));
+  }, [uploadState.images, templateLocked]);
+
+  const selectedTemplate = templates.find(template => template.id === templateId);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find(item => item.id === id);
+    if (!template) return;
+    setTemplateId(id);
+    setSystemPrompt(template.systemPrompt);
+    setTemplateLocked(true);
+  };
+
   const resetUpload = () => {
     setUploadState({
       images: [],
+      studies: [],
       isUploading: false,
       isProcessing: false,
       uploadProgress: 0
@@ -291,6 +403,52 @@ export default function UploadPage() {
                   </div>
                 </div>
 
+                <div className="mt-4">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                    CT Window Presets
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+                    Grayscale DICOM images are analyzed once per selected window. Leave all unchecked to use the window stored in the file.
+                  </p>
+                  <div className="flex flex-wrap gap-4">
+                    {(Object.keys(WINDOW_PRESETS) as WindowPresetName[]).map(preset => (
+                      <div key={preset} className="flex items-center gap-2">
+                        <Checkbox
+                          id={`window-${preset}`}
+                          checked={windowPresets.includes(preset)}
+                          onCheckedChange={(checked) => toggleWindowPreset(preset, checked === true)}
+                          disabled={uploadState.isUploading}
+                        />
+                        <Label htmlFor={`window-${preset}`} className="text-sm">
+                          {WINDOW_PRESETS[preset].label}
+                          <span className="text-xs text-gray-500 ml-1">
+                            (C {WINDOW_PRESETS[preset].center} / W {WINDOW_PRESETS[preset].width})
+                          </span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <Label htmlFor="max-frames" className="text-sm font-medium">
+                    Max Frames per Multi-frame Object
+                  </Label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+                    Cine clips and enhanced CT/MR objects are split into frames. Set a limit to analyze evenly spaced frames only.
+                  </p>
+                  <Input
+                    id="max-frames"
+                    type="number"
+                    min={1}
+                    value={maxFramesPerObject}
+                    onChange={(e) => setMaxFramesPerObject(e.target.value)}
+                    placeholder="All frames"
+                    className="max-w-[200px]"
+                    disabled={uploadState.isUploading}
+                  />
+                </div>
+
                 {uploadState.isUploading && (
                   <div className="mt-4">
                     <Progress value={uploadState.uploadProgress} className="w-full" />
@@ -318,11 +476,26 @@ export default function UploadPage() {
                             <Badge variant={image.isDicom ? 'default' : 'secondary'}>
                               {image.fileType}
                             </Badge>
-                            {image.convertedPath && (
+                            {image.frame && (
+                              <Badge variant="outline">
+                                Frame {image.frame.frameNumber}/{image.frame.numberOfFrames}
+                              </Badge>
+                            )}
+                            {image.window?.name && (
+                              <Badge variant="outline">
+                                {image.window.name}
+                              </Badge>
+                            )}
+                            {image.isDicom && image.convertedPath && (
                               <Badge variant="outline" className="text-green-600 border-green-200">
                                 Converted
                               </Badge>
                             )}
+                            {image.isDicom && !image.convertedPath && (
+                              <Badge variant="outline" className="text-red-600 border-red-200">
+                                Not analyzed
+                              </Badge>
+                            )}
                           </div>
                         </div>
                       ))}
@@ -334,11 +507,77 @@ export default function UploadPage() {
                         </div>
                       )}
                     </div>
+                    {uploadState.fileIssues && uploadState.fileIssues.length > 0 && (
+                      <Alert className="mt-4 border-amber-200 bg-amber-50 text-amber-800">
+                        <AlertDescription>
+                          <p className="text-sm font-medium mb-1">
+                            Not included in the analysis ({uploadState.fileIssues.length})
+                          </p>
+                          <ul className="space-y-1 text-sm">
+                            {uploadState.fileIssues.map((issue, index) => (
+                              <li key={index}>{issue}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
                   </div>
                 )}
               </CardContent>
             </Card>
 
+            {uploadState.studies.length > 0 && (
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Studies &amp; Series</CardTitle>
+                  <CardDescription>
+                    {countSeries(uploadState.studies)} series detected. Each series is analyzed separately.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4 max-h-96 overflow-y-auto">
+                    {uploadState.studies.map((patient) => (
+                      <div key={patient.patientKey} className="space-y-3">
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                          {patient.patientName || 'Unknown Patient'}
+                          {patient.patientId && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">ID: {patient.patientId}</span>
+                          )}
+                        </p>
+                        {patient.studies.map((study) => (
+                          <div key={study.studyKey} className="ml-4 space-y-2">
+                            <p className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                              {study.description || 'Study'}
+                              {study.studyDate && (
+                                <span className="ml-2 text-xs font-normal text-gray-500">{study.studyDate}</span>
+                              )}
+                            </p>
+                            {study.series.map((series) => (
+                              <div key={series.seriesKey} className="ml-4 flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                                <div className="flex-1 min-w-0">
+                                  <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                                    {series.seriesNumber !== undefined && `#${series.seriesNumber} `}
+                                    {series.description || 'Unnamed series'}
+                                  </p>
+                                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {series.instances.length} instances, {series.imageCount} images
+                                  </p>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  {series.modality && <Badge variant="outline">{series.modality}</Badge>}
+                                  {series.bodyPart && <Badge variant="secondary">{series.bodyPart}</Badge>}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {uploadState.images.length > 0 && (
               <Card>
                 <CardHeader>
@@ -356,6 +595,27 @@ export default function UploadPage() {
                     >
                       {uploadState.isProcessing ? 'Processing Images...' : 'Start AI Analysis'}
                     </Button>
+
+                    {uploadState.isProcessing && uploadState.jobId && (
+                      <div className="grid grid-cols-2 gap-2">
+                        {uploadState.processingStatus?.status === 'paused' ? (
+                          <Button variant="outline" onClick={() => handleJobAction('resume')}>
+                            Resume
+                          </Button>
+                        ) : (
+                          <Button variant="outline" onClick={() => handleJobAction('pause')}>
+                            Pause
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          className="text-red-600 hover:text-red-700"
+                          onClick={() => handleJobAction('cancel')}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
                     
                     {uploadState.processingStatus && (
                       <div className="space-y-3">
@@ -371,6 +631,17 @@ export default function UploadPage() {
                           <p>Images processed: {uploadState.processingStatus.processedImages} / {uploadState.processingStatus.totalImages}</p>
                           <p>Status: {uploadState.processingStatus.status.toUpperCase()}</p>
                         </div>
+                        {uploadState.processingStatus.batchErrors && uploadState.processingStatus.batchErrors.length > 0 && (
+                          <Alert className="border-red-200 bg-red-50 text-red-800">
+                            <AlertDescription>
+                              <ul className="space-y-1 text-sm">
+                                {uploadState.processingStatus.batchErrors.map(({ batchId, batchNumber, error }) => (
+                                  <li key={batchId}>Batch {batchNumber}: {error}</li>
+                                ))}
+                              </ul>
+                            </AlertDescription>
+                          </Alert>
+                        )}
                       </div>
                     )}
 
@@ -394,28 +665,58 @@ export default function UploadPage() {
               <CardHeader>
                 <CardTitle>AI System Configuration</CardTitle>
                 <CardDescription>
-                  Customize the AI diagnostic prompt for specialized analysis
+                  Choose a report template and customize its diagnostic prompt
                 </CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="report-template">Report Template</Label>
+                    <Select value={templateId ?? ''} onValueChange={selectTemplate} disabled={uploadState.isProcessing}>
+                      <SelectTrigger id="report-template" className="w-full">
+                        <SelectValue placeholder="Default template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {selectedTemplate && (
+                      <div className="space-y-2">
+                        {selectedTemplate.description && (
+                          <p className="text-xs text-gray-500">{selectedTemplate.description}</p>
+                        )}
+                        <div className="flex flex-wrap gap-1">
+                          {selectedTemplate.sections.map(section => (
+                            <Badge key={section} variant="outline" className="font-normal">{section}</Badge>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
                   <div>
                     <Label htmlFor="system-prompt">System Prompt</Label>
                     <Textarea
                       id="system-prompt"
                       value={systemPrompt}
-                      onChange={(e) => setSystemPrompt(e.target.value)}
+                      onChange={(e) => {
+                        setSystemPrompt(e.target.value);
+                        setTemplateLocked(true);
+                      }}
                       className="min-h-[300px] text-sm"
                       placeholder="Enter custom system prompt for AI analysis..."
                     />
                   </div>
                   <Button
-                    onClick={() => setSystemPrompt(AIClient.getDefaultSystemPrompt())}
+                    onClick={() => setSystemPrompt(selectedTemplate?.systemPrompt ?? DEFAULT_SYSTEM_PROMPT)}
                     variant="outline"
                     size="sm"
                     className="w-full"
                   >
-                    Reset to Default
+                    Reset to Template Prompt
                   </Button>
                 </div>
               </CardContent>
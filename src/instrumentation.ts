@@ -0,0 +1,22 @@
+export async function register() {
+  // Move plaintext uploads of earlier versions into encrypted storage, resume
+  // queued and interrupted processing jobs when the server starts, and
+  // schedule the cleanup of expired uploads
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { migrateLegacyUploads } = await import('./lib/upload-migration');
+    try {
+      const { files, images } = await migrateLegacyUploads();
+      if (files > 0 || images > 0) {
+        console.warn(`Moved ${files} files from public/uploads and ${images} images kept in batches into encrypted upload storage`);
+      }
+    } catch (error) {
+      console.error('Failed to move legacy uploads into encrypted storage:', error);
+    }
+
+    const { ensureJobWorker } = await import('./lib/job-worker');
+    ensureJobWorker();
+
+    const { ensureUploadRetention } = await import('./lib/upload-retention');
+    ensureUploadRetention();
+  }
+}
@@ -1,81 +1,52 @@
 import { AIAnalysisResponse } from '@/types/report';
-
-const AI_ENDPOINT = 'https://oi-server.onrender.com/chat/completions';
-const AI_MODEL = 'openrouter/anthropic/claude-sonnet-4';
-
-const DEFAULT_SYSTEM_PROMPT = `You are an expert radiologist AI assistant specializing in medical image analysis. Your role is to provide detailed, professional diagnostic observations based on medical images provided.
-
-GUIDELINES:
-- Provide clear, medical-grade observations using appropriate medical terminology
-- Structure your analysis with findings, impressions, and recommendations
-- Be thorough but concise in your assessments
-- Always note any limitations or areas requiring further evaluation
-- Use a professional tone suitable for medical documentation
-- Focus on observable pathology and anatomical structures
-
-RESPONSE FORMAT:
-Provide your analysis in the following structured format:
-- CLINICAL FINDINGS: Detailed observations of what you see in the images
-- IMPRESSIONS: Your clinical interpretation of the findings
-- RECOMMENDATIONS: Suggested next steps or follow-up actions
-- TECHNICAL NOTES: Any technical observations about image quality or acquisition
-
-Remember: This is an AI-assisted analysis and should always be reviewed by qualified medical professionals.`;
+import { AIProvider, createAIProvider } from './ai-providers';
+import {
+  ANALYSIS_RESPONSE_NAME,
+  JSON_RESPONSE_INSTRUCTIONS,
+  SYNTHESIS_RESPONSE_INSTRUCTIONS,
+  SYNTHESIS_RESPONSE_NAME,
+  SynthesisResponse,
+  getAnalysisJsonSchema,
+  getSynthesisJsonSchema,
+  parseAnalysisResponse,
+  parseSynthesisResponse
+} from './ai-response';
+import { ResilientCallOptions, callWithResilience } from './ai-resilience';
+import { DEFAULT_SYSTEM_PROMPT } from './system-prompt';
 
 export class AIClient {
   private systemPrompt: string;
+  private provider?: AIProvider;
 
-  constructor(customSystemPrompt?: string) {
+  /**
+   * The provider defaults to the one configured through environment
+   * variables, see getAIConfig
+   */
+  constructor(customSystemPrompt?: string, provider?: AIProvider) {
     this.systemPrompt = customSystemPrompt || DEFAULT_SYSTEM_PROMPT;
+    this.provider = provider;
   }
 
   /**
-   * Analyze a batch of medical images using AI
+   * Analyze a batch of medical images using AI. Transient failures are
+   * retried with backoff, see callWithResilience.
    */
-  async analyzeImages(images: string[], customPrompt?: string): Promise<AIAnalysisResponse> {
+  async analyzeImages(
+    images: string[],
+    customPrompt?: string,
+    options: Pick<ResilientCallOptions, 'onRetry'> = {}
+  ): Promise<AIAnalysisResponse> {
     try {
       const userPrompt = customPrompt || 'Please analyze these medical images and provide a comprehensive diagnostic assessment.';
 
-      const messages = [
-        {
-          role: 'system',
-          content: this.systemPrompt
-        },
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: userPrompt },
-            ...images.map(imageBase64 => ({
-              type: 'image_url',
-              image_url: {
-                url: `data:image/png;base64,${imageBase64}`
-              }
-            }))
-          ]
-        }
-      ];
-
-      const response = await fetch(AI_ENDPOINT, {
-        method: 'POST',
-        headers: {
-          'CustomerId': 'cus_RuCkUD5gposwKc',
-          'Content-Type': 'application/json',
-          'Authorization': 'Bearer xxx'
-        },
-        body: JSON.stringify({
-          model: AI_MODEL,
-          messages,
-          max_tokens: 2000,
-          temperature: 0.1
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`AI API request failed: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const aiResponse = data.choices?.[0]?.message?.content || '';
+      const provider = this.provider ??= createAIProvider();
+      const aiResponse = await callWithResilience(signal => provider.complete({
+        systemPrompt: this.systemPrompt,
+        userPrompt: `${userPrompt}\n\n${JSON_RESPONSE_INSTRUCTIONS}`,
+        images,
+        responseSchema: { name: ANALYSIS_RESPONSE_NAME, schema: getAnalysisJsonSchema() },
+        signal
+      }), options);
 
       return this.parseAIResponse(aiResponse);
     } catch (error) {
@@ -84,14 +55,29 @@ export class AIClient {
     }
   }
 
+  /**
+   * Consolidate batch analyses into one report. Text only: the prompt
+   * carries the batch results, no images are sent.
+   */
+  async synthesizeReport(prompt: string): Promise<SynthesisResponse> {
+    const provider = this.provider ??= createAIProvider();
+    const aiResponse = await callWithResilience(signal => provider.complete({
+      systemPrompt: this.systemPrompt,
+      userPrompt: `${prompt}\n\n${SYNTHESIS_RESPONSE_INSTRUCTIONS}`,
+      images: [],
+      responseSchema: { name: SYNTHESIS_RESPONSE_NAME, schema: getSynthesisJsonSchema() },
+      signal
+    }));
+
+    return parseSynthesisResponse(aiResponse);
+  }
+
   private parseAIResponse(response: string): AIAnalysisResponse {
-    return {
-      findings: response || 'No specific findings extracted from response.',
-      recommendations: 'Please consult with a qualified radiologist for interpretation.',
-      confidence: 0.8,
-      keyObservations: [],
-      technicalNotes: undefined
-    };
+    const parsed = parseAnalysisResponse(response);
+    if (parsed.parseErrors) {
+      console.warn(`AI response was not valid structured output, read as ${parsed.parseMode}:`, parsed.parseErrors);
+    }
+    return parsed;
   }
 
   updateSystemPrompt(newPrompt: string): void {
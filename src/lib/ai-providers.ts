@@ -0,0 +1,335 @@
+import { SYNTHESIS_RESPONSE_NAME } from './ai-response';
+import { AIRequestError, parseRetryAfter } from './ai-resilience';
+
+export type AIProviderName = 'openai' | 'anthropic' | 'ollama' | 'mock';
+
+export interface AIProviderConfig {
+  provider: AIProviderName;
+  model: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers: Record<string, string>; // extra headers, e.g. for a gateway
+  maxTokens: number;
+  temperature: number;
+  concurrency: number; // batches analyzed at the same time
+}
+
+export interface AIChatRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  images: string[]; // base64 encoded PNG or JPEG
+  responseSchema?: { name: string; schema: Record<string, unknown> }; // constrain the reply to JSON
+  signal?: AbortSignal;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  readonly model: string;
+  complete(request: AIChatRequest): Promise<string>;
+}
+
+// A local Ollama server runs one model instance, so requests are not parallelized
+const PROVIDER_DEFAULTS: Record<AIProviderName, { baseUrl: string; model: string; apiKeyEnv?: string; concurrency: number }> = {
+  openai: { baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o', apiKeyEnv: 'OPENAI_API_KEY', concurrency: 3 },
+  anthropic: { baseUrl: 'https://api.anthropic.com', model: 'claude-sonnet-4-20250514', apiKeyEnv: 'ANTHROPIC_API_KEY', concurrency: 3 },
+  ollama: { baseUrl: 'http://localhost:11434', model: 'llava', concurrency: 1 },
+  mock: { baseUrl: '', model: 'mock', concurrency: 4 },
+};
+
+function isProviderName(value: string): value is AIProviderName {
+  return value in PROVIDER_DEFAULTS;
+}
+
+/**
+ * Read the AI provider configuration from server-side environment variables:
+ *
+ * - AI_PROVIDER: openai (any OpenAI-compatible server, including llama.cpp
+ *   and vLLM), anthropic, ollama or mock. Defaults to openai.
+ * - AI_MODEL, AI_BASE_URL: override the provider defaults
+ * - AI_API_KEY, or OPENAI_API_KEY / ANTHROPIC_API_KEY per provider
+ * - AI_EXTRA_HEADERS: JSON object of additional request headers
+ * - AI_MAX_TOKENS, AI_TEMPERATURE
+ * - AI_CONCURRENCY: batches analyzed in parallel, defaulting per provider
+ */
+export function getAIConfig(env: Record<string, string | undefined> = process.env): AIProviderConfig {
+  const provider = (env.AI_PROVIDER || 'openai').toLowerCase();
+  if (!isProviderName(provider)) {
+    throw new Error(`Unknown AI_PROVIDER "${env.AI_PROVIDER}", expected one of: ${Object.keys(PROVIDER_DEFAULTS).join(', ')}`);
+  }
+
+  const defaults = PROVIDER_DEFAULTS[provider];
+  let headers: Record<string, string> = {};
+  if (env.AI_EXTRA_HEADERS) {
+    try {
+      headers = JSON.parse(env.AI_EXTRA_HEADERS);
+    } catch {
+      throw new Error('AI_EXTRA_HEADERS must be a JSON object');
+    }
+  }
+
+  return {
+    provider,
+    model: env.AI_MODEL || defaults.model,
+    baseUrl: (env.AI_BASE_URL || defaults.baseUrl).replace(/\/+$/, ''),
+    apiKey: env.AI_API_KEY || (defaults.apiKeyEnv ? env[defaults.apiKeyEnv] : undefined),
+    headers,
+    maxTokens: parseInt(env.AI_MAX_TOKENS || '2000', 10),
+    temperature: parseFloat(env.AI_TEMPERATURE || '0.1'),
+    concurrency: Math.max(1, parseInt(env.AI_CONCURRENCY || '', 10) || defaults.concurrency),
+  };
+}
+
+/**
+ * Media type of a base64 image, from its leading bytes
+ */
+export function detectImageMediaType(base64Data: string): 'image/png' | 'image/jpeg' {
+  return base64Data.startsWith('/9j/') ? 'image/jpeg' : 'image/png';
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal?: AbortSignal
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal
+  });
+
+  if (!response.ok) {
+    throw new AIRequestError(`AI API request failed: ${response.status} ${response.statusText}`, {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+    });
+  }
+
+  return response.json();
+}
+
+/**
+ * OpenAI Chat Completions API, also served by llama.cpp, vLLM and most gateways
+ */
+class OpenAICompatibleProvider implements AIProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete({ systemPrompt, userPrompt, images, responseSchema, signal }: AIChatRequest): Promise<string> {
+    const data = await postJson(
+      `${this.config.baseUrl}/chat/completions`,
+      {
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+        ...this.config.headers
+      },
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: userPrompt },
+              ...images.map(imageBase64 => ({
+                type: 'image_url',
+                image_url: { url: `data:${detectImageMediaType(imageBase64)};base64,${imageBase64}` }
+              }))
+            ]
+          }
+        ],
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        ...(responseSchema ? {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: responseSchema.name, schema: responseSchema.schema, strict: true }
+          }
+        } : {})
+      },
+      signal
+    ) as { choices?: { message?: { content?: string } }[] };
+
+    return data.choices?.[0]?.message?.content || '';
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+class AnthropicProvider implements AIProvider {
+  readonly name = 'anthropic';
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete({ systemPrompt, userPrompt, images, responseSchema, signal }: AIChatRequest): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY or AI_API_KEY must be set for the anthropic provider');
+    }
+
+    const data = await postJson(
+      `${this.config.baseUrl}/v1/messages`,
+      {
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': '2023-06-01',
+        ...this.config.headers
+      },
+      {
+        model: this.model,
+        system: systemPrompt,
+        max_tokens: this.config.maxTokens,
+        temperature: this.config.temperature,
+        messages: [
+          {
+            role: 'user',
+            content: [
+              ...images.map(imageBase64 => ({
+                type: 'image',
+                source: { type: 'base64', media_type: detectImageMediaType(imageBase64), data: imageBase64 }
+              })),
+              { type: 'text', text: userPrompt }
+            ]
+          }
+        ],
+        // Structured output through a forced tool call
+        ...(responseSchema ? {
+          tools: [{ name: responseSchema.name, description: 'Record the analysis', input_schema: responseSchema.schema }],
+          tool_choice: { type: 'tool', name: responseSchema.name }
+        } : {})
+      },
+      signal
+    ) as { content?: { type: string; text?: string; input?: unknown }[] };
+
+    const toolUse = data.content?.find(block => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    return (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('\n');
+  }
+}
+
+/**
+ * Ollama chat API for models served on a local machine
+ */
+class OllamaProvider implements AIProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+
+  constructor(private config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete({ systemPrompt, userPrompt, images, responseSchema, signal }: AIChatRequest): Promise<string> {
+    const data = await postJson(
+      `${this.config.baseUrl}/api/chat`,
+      this.config.headers,
+      {
+        model: this.model,
+        stream: false,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt, images }
+        ],
+        ...(responseSchema ? { format: responseSchema.schema } : {}),
+        options: {
+          num_predict: this.config.maxTokens,
+          temperature: this.config.temperature
+        }
+      },
+      signal
+    ) as { message?: { content?: string } };
+
+    return data.message?.content || '';
+  }
+}
+
+/**
+ * Offline provider that answers without a network call. The response only
+ * depends on the request, so runs are reproducible.
+ */
+class MockProvider implements AIProvider {
+  readonly name = 'mock';
+  readonly model: string;
+
+  constructor(config: AIProviderConfig) {
+    this.model = config.model;
+  }
+
+  async complete({ userPrompt, images, responseSchema }: AIChatRequest): Promise<string> {
+    // FNV-1a over the prompt and image sizes, to tell requests apart in tests
+    let hash = 0x811c9dc5;
+    for (const char of userPrompt + images.map(image => image.length).join(',')) {
+      hash = Math.imul(hash ^ char.charCodeAt(0), 0x01000193) >>> 0;
+    }
+    const id = hash.toString(16).padStart(8, '0');
+
+    // Image names mentioning a critical result flag it, to exercise escalation;
+    // names are only sent as they are with DEID_PROFILE=off
+    const criticalImages = userPrompt
+      .split('\n')
+      .flatMap(line => /^Image (\d+):.*pneumothorax/i.exec(line)?.[1] ?? [])
+      .map(Number);
+
+    const findings = criticalImages.length > 0
+      ? `Mock analysis ${id} of ${images.length} images. Pneumothorax on image ${criticalImages.join(', ')}.`
+      : `Mock analysis ${id} of ${images.length} images. No acute abnormality identified.`;
+    const impressions = 'Normal study (mock response).';
+    const recommendations = 'No follow-up required (mock response).';
+    const technicalNotes = 'Generated by the mock AI provider; not a clinical interpretation.';
+
+    if (responseSchema?.name === SYNTHESIS_RESPONSE_NAME) {
+      return JSON.stringify({
+        findings: `Mock consolidated findings ${id}. No acute abnormality identified.`,
+        impressions: [{ statement: impressions, sources: [{ batch: 1, images: [1] }] }],
+        recommendations,
+        sections: []
+      });
+    }
+
+    if (responseSchema) {
+      return JSON.stringify({
+        findings,
+        impressions,
+        recommendations,
+        technicalNotes,
+        keyObservations: [impressions],
+        imageObservations: images.map((_, i) => ({ image: i + 1, observation: 'No abnormality (mock response).' })),
+        criticalFindings: criticalImages.length > 0
+          ? [{ category: 'pneumothorax', description: 'Pneumothorax (mock response).', images: criticalImages }]
+          : [],
+        confidence: 0.5
+      });
+    }
+
+    return [
+      `CLINICAL FINDINGS: ${findings}`,
+      `IMPRESSIONS: ${impressions}`,
+      `RECOMMENDATIONS: ${recommendations}`,
+      `TECHNICAL NOTES: ${technicalNotes}`
+    ].join('\n');
+  }
+}
+
+export function createAIProvider(config: AIProviderConfig = getAIConfig()): AIProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config);
+    case 'anthropic':
+      return new AnthropicProvider(config);
+    case 'ollama':
+      return new OllamaProvider(config);
+    case 'mock':
+      return new MockProvider(config);
+  }
+}
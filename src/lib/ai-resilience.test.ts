@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AIRequestError,
+  CircuitBreaker,
+  CircuitOpenError,
+  ResilienceConfig,
+  TokenBucket,
+  callWithResilience,
+  parseRetryAfter
+} from './ai-resilience';
+
+const CONFIG: ResilienceConfig = {
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  timeoutMs: 5000,
+  requestsPerMinute: 0,
+  burst: 1,
+  circuitFailureThreshold: 5,
+  circuitCooldownMs: 60000
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  // The limiter and breaker are shared per process; start each test with new ones
+  const shared = globalThis as { aiRateLimiter?: TokenBucket; aiCircuitBreaker?: CircuitBreaker };
+  delete shared.aiRateLimiter;
+  delete shared.aiCircuitBreaker;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Whether the promise has settled once pending timers up to `ms` have run
+ */
+async function settlesWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+  let settled = false;
+  promise.then(() => { settled = true; }, () => { settled = true; });
+  await vi.advanceTimersByTimeAsync(ms);
+  return settled;
+}
+
+describe('TokenBucket', () => {
+  it('lets a burst through at once and spaces the rest to the rate', async () => {
+    const bucket = new TokenBucket(2, 1 / 1000);
+
+    expect(await settlesWithin(bucket.take(), 0)).toBe(true);
+    expect(await settlesWithin(bucket.take(), 0)).toBe(true);
+
+    const third = bucket.take();
+    expect(await settlesWithin(third, 999)).toBe(false);
+    expect(await settlesWithin(third, 1)).toBe(true);
+  });
+
+  it('serves waiting callers in arrival order', async () => {
+    const bucket = new TokenBucket(1, 1 / 1000);
+    const order: number[] = [];
+
+    const taken = [1, 2, 3].map(n => bucket.take().then(() => order.push(n)));
+    await vi.advanceTimersByTimeAsync(2000);
+    await Promise.all(taken);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('does not limit at a rate of 0', async () => {
+    const bucket = new TokenBucket(1, 0);
+
+    for (let i = 0; i < 5; i++) {
+      expect(await settlesWithin(bucket.take(), 0)).toBe(true);
+    }
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+
+    breaker.acquire();
+    breaker.recordFailure();
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+  });
+
+  it('lets one trial request through after the cooldown and closes when it succeeds', () => {
+    const breaker = new CircuitBreaker(1, 1000);
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(999);
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    vi.advanceTimersByTime(1);
+    breaker.acquire();
+    // Only the trial while it is in flight
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.recordSuccess();
+    breaker.acquire();
+    breaker.acquire();
+  });
+
+  it('reopens for another cooldown when the trial request fails', () => {
+    const breaker = new CircuitBreaker(3, 1000);
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    vi.advanceTimersByTime(1000);
+    breaker.acquire();
+    breaker.recordFailure();
+
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    vi.advanceTimersByTime(1000);
+    breaker.acquire();
+  });
+
+  it('counts failures again from zero once closed', () => {
+    const breaker = new CircuitBreaker(2, 1000);
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    breaker.acquire();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('Mon, 19 Oct 2026 12:00:00 GMT');
+
+  it('reads seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter('0', now)).toBe(0);
+  });
+
+  it('reads an HTTP date as the time left until it', () => {
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:59:00 GMT', now)).toBe(0);
+  });
+
+  it('ignores missing and unreadable values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('AIRequestError', () => {
+  it('retries rate limits and server errors but not bad requests', () => {
+    expect(new AIRequestError('', { status: 429 }).retryable).toBe(true);
+    expect(new AIRequestError('', { status: 503 }).retryable).toBe(true);
+    expect(new AIRequestError('', { status: 400 }).retryable).toBe(false);
+  });
+});
+
+describe('callWithResilience', () => {
+  it('waits at least as long as Retry-After before retrying', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const call = vi.fn()
+      .mockRejectedValueOnce(new AIRequestError('Too many requests', { status: 429, retryAfterMs: 5000 }))
+      .mockResolvedValueOnce('analysis');
+    const onRetry = vi.fn();
+
+    const result = callWithResilience(call, { config: CONFIG, onRetry });
+
+    expect(await settlesWithin(result, 4999)).toBe(false);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(AIRequestError), 5000);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(await result).toBe('analysis');
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('backs off exponentially up to the maximum delay', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    const call = vi.fn().mockRejectedValue(new AIRequestError('Unavailable', { status: 503 }));
+    const delays: number[] = [];
+
+    const result = callWithResilience(call, {
+      config: { ...CONFIG, maxRetries: 3, maxDelayMs: 3000 },
+      onRetry: (_attempt, _error, delayMs) => delays.push(Math.round(delayMs))
+    });
+    const settled = expect(result).rejects.toThrow('Unavailable');
+    await vi.advanceTimersByTimeAsync(10000);
+    await settled;
+
+    expect(delays).toEqual([1000, 2000, 3000]);
+    expect(call).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not retry requests the provider rejected', async () => {
+    const call = vi.fn().mockRejectedValue(new AIRequestError('Bad request', { status: 400 }));
+
+    await expect(callWithResilience(call, { config: CONFIG })).rejects.toThrow('Bad request');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts attempts that exceed the timeout', async () => {
+    let signal: AbortSignal | undefined;
+    const call = vi.fn((abortSignal: AbortSignal) => new Promise<string>((_resolve, reject) => {
+      signal = abortSignal;
+      abortSignal.addEventListener('abort', () => reject(new Error('aborted')));
+    }));
+
+    const result = callWithResilience(call, { config: { ...CONFIG, maxRetries: 0 } });
+    const settled = expect(result).rejects.toThrow('AI request timed out after 5000ms');
+
+    expect(await settlesWithin(result, 4999)).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    await settled;
+    expect(signal!.aborted).toBe(true);
+  });
+
+  it('stops calling the provider once the circuit opens', async () => {
+    const call = vi.fn().mockRejectedValue(new AIRequestError('Unavailable', { status: 503 }));
+    const config = { ...CONFIG, maxRetries: 0, circuitFailureThreshold: 2 };
+
+    await expect(callWithResilience(call, { config })).rejects.toThrow('Unavailable');
+    await expect(callWithResilience(call, { config })).rejects.toThrow('Unavailable');
+    await expect(callWithResilience(call, { config })).rejects.toThrow(CircuitOpenError);
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+});
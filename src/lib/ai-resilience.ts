@@ -0,0 +1,247 @@
+/**
+ * Retries, rate limiting, timeouts and a circuit breaker for AI provider calls
+ */
+
+export interface ResilienceConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  requestsPerMinute: number;
+  burst: number;
+  circuitFailureThreshold: number;
+  circuitCooldownMs: number;
+}
+
+/**
+ * Read resilience settings from server-side environment variables:
+ * AI_MAX_RETRIES, AI_TIMEOUT_MS, AI_RATE_LIMIT_RPM, AI_RATE_LIMIT_BURST,
+ * AI_CIRCUIT_FAILURE_THRESHOLD and AI_CIRCUIT_COOLDOWN_MS
+ */
+export function getResilienceConfig(env: Record<string, string | undefined> = process.env): ResilienceConfig {
+  const number = (name: string, fallback: number) => {
+    const value = Number(env[name]);
+    return env[name] && Number.isFinite(value) && value >= 0 ? value : fallback;
+  };
+
+  return {
+    maxRetries: number('AI_MAX_RETRIES', 3),
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    timeoutMs: number('AI_TIMEOUT_MS', 120000),
+    requestsPerMinute: number('AI_RATE_LIMIT_RPM', 30),
+    burst: number('AI_RATE_LIMIT_BURST', 3),
+    circuitFailureThreshold: number('AI_CIRCUIT_FAILURE_THRESHOLD', 5),
+    circuitCooldownMs: number('AI_CIRCUIT_COOLDOWN_MS', 60000),
+  };
+}
+
+// Statuses worth another attempt: timeouts, rate limits and server errors
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+/**
+ * Failed AI request, with what the response says about retrying
+ */
+export class AIRequestError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = 'AIRequestError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable ?? (options.status !== undefined && RETRYABLE_STATUSES.includes(options.status));
+  }
+}
+
+export class CircuitOpenError extends Error {
+  constructor(retryInMs: number) {
+    super(`AI provider is unavailable after repeated failures; requests resume in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Parse a Retry-After header, given either in seconds or as an HTTP date
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket: `burst` requests may go out at once, after which requests
+ * are spaced to `requestsPerMinute`. A rate of 0 disables limiting.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private capacity: number, private refillPerMs: number) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait for a token. Callers are served in arrival order.
+   */
+  take(): Promise<void> {
+    if (this.refillPerMs <= 0) {
+      return Promise.resolve();
+    }
+    const turn = this.queue.then(async () => {
+      this.refill();
+      if (this.tokens < 1) {
+        await delay((1 - this.tokens) / this.refillPerMs);
+        this.refill();
+      }
+      this.tokens -= 1;
+    });
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Stops calls to a failing provider for a cooldown period. After the
+ * cooldown one trial request is let through; its outcome closes or reopens
+ * the circuit.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+  /**
+   * Throw CircuitOpenError unless a request may be sent now
+   */
+  acquire() {
+    if (this.openedAt === undefined) return;
+
+    const retryInMs = this.openedAt + this.cooldownMs - Date.now();
+    if (retryInMs > 0 || this.trialInFlight) {
+      throw new CircuitOpenError(Math.max(retryInMs, 1000));
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures += 1;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+// Shared by every job in the process so concurrent work respects one limit
+const globalForResilience = globalThis as unknown as {
+  aiRateLimiter?: TokenBucket;
+  aiCircuitBreaker?: CircuitBreaker;
+};
+
+function getRateLimiter(config: ResilienceConfig): TokenBucket {
+  return globalForResilience.aiRateLimiter ??= new TokenBucket(
+    Math.max(1, config.burst),
+    config.requestsPerMinute / 60000
+  );
+}
+
+function getCircuitBreaker(config: ResilienceConfig): CircuitBreaker {
+  return globalForResilience.aiCircuitBreaker ??= new CircuitBreaker(
+    config.circuitFailureThreshold,
+    config.circuitCooldownMs
+  );
+}
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof AIRequestError) return error.retryable;
+  // fetch rejects with a TypeError on network failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Exponential backoff with full jitter, never shorter than Retry-After
+ */
+function backoffDelay(attempt: number, error: unknown, config: ResilienceConfig): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * exponential;
+  const retryAfter = error instanceof AIRequestError ? error.retryAfterMs : undefined;
+  return retryAfter !== undefined ? Math.max(retryAfter, jittered) : jittered;
+}
+
+export interface ResilientCallOptions {
+  config?: ResilienceConfig;
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+}
+
+/**
+ * Call the AI provider through the shared rate limiter and circuit breaker,
+ * aborting attempts that exceed the timeout and retrying transient failures
+ */
+export async function callWithResilience<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  { config = getResilienceConfig(), onRetry }: ResilientCallOptions = {}
+): Promise<T> {
+  const rateLimiter = getRateLimiter(config);
+  const circuitBreaker = getCircuitBreaker(config);
+
+  for (let attempt = 0; ; attempt++) {
+    circuitBreaker.acquire();
+    await rateLimiter.take();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs);
+    try {
+      const result = await call(controller.signal);
+      circuitBreaker.recordSuccess();
+      return result;
+    } catch (caught) {
+      const error = controller.signal.aborted
+        ? new AIRequestError(`AI request timed out after ${config.timeoutMs}ms`, { retryable: true })
+        : caught;
+
+      if (!isRetryable(error)) {
+        // The provider answered; a bad request says nothing about its health
+        circuitBreaker.recordSuccess();
+        throw error;
+      }
+
+      circuitBreaker.recordFailure();
+      if (attempt >= config.maxRetries) {
+        throw error;
+      }
+
+      const delayMs = backoffDelay(attempt, error, config);
+      onRetry?.(attempt + 1, error, delayMs);
+      await delay(delayMs);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
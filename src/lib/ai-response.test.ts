@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { mapAnalysisText, parseAnalysisResponse, parseSynthesisResponse } from './ai-response';
+
+const ANALYSIS = {
+  findings: 'Small right apical pneumothorax.',
+  impressions: 'Right pneumothorax.',
+  recommendations: 'Urgent clinical review.',
+  technicalNotes: '',
+  keyObservations: ['Right apical pneumothorax'],
+  imageObservations: [{ image: 1, observation: 'Visceral pleural line at the right apex' }],
+  criticalFindings: [{ category: 'pneumothorax' as const, description: 'Right apical pneumothorax', images: [1] }],
+  confidence: 0.8
+};
+
+describe('parseAnalysisResponse', () => {
+  it('reads schema-valid JSON', () => {
+    expect(parseAnalysisResponse(JSON.stringify(ANALYSIS))).toEqual({
+      ...ANALYSIS,
+      technicalNotes: undefined,
+      parseMode: 'json'
+    });
+  });
+
+  it('reads JSON in a code fence with text around it', () => {
+    const response = parseAnalysisResponse(`Here is the analysis:\n\`\`\`json\n${JSON.stringify(ANALYSIS)}\n\`\`\`\nDone.`);
+
+    expect(response.parseMode).toBe('json');
+    expect(response.findings).toBe(ANALYSIS.findings);
+  });
+
+  it('defaults missing critical findings and clamps the confidence', () => {
+    const response = parseAnalysisResponse(JSON.stringify({ ...ANALYSIS, criticalFindings: undefined, confidence: 1.5 }));
+
+    expect(response.criticalFindings).toEqual([]);
+    expect(response.confidence).toBe(1);
+  });
+
+  it('falls back to the headings of the default prompt, with the reason', () => {
+    const response = parseAnalysisResponse([
+      '## Clinical Findings',
+      'Clear lungs. No effusion.',
+      '',
+      '**IMPRESSIONS:**',
+      '1. Normal chest radiograph',
+      '- No acute disease',
+      '',
+      'RECOMMENDATION: None.',
+      'Technical notes: Slight rotation.'
+    ].join('\n'));
+
+    expect(response).toMatchObject({
+      findings: 'Clear lungs. No effusion.',
+      impressions: '1. Normal chest radiograph\n- No acute disease',
+      recommendations: 'None.',
+      technicalNotes: 'Slight rotation.',
+      keyObservations: ['Normal chest radiograph', 'No acute disease'],
+      criticalFindings: [],
+      parseMode: 'headings'
+    });
+    expect(response.parseErrors).toEqual([expect.stringMatching(/^Invalid JSON/)]);
+  });
+
+  it('reports schema errors when falling back from JSON', () => {
+    const response = parseAnalysisResponse(`{"findings": "Clear lungs."}\n\nCLINICAL FINDINGS: Clear lungs.`);
+
+    expect(response.parseMode).toBe('headings');
+    expect(response.parseErrors![0]).toMatch(/^JSON does not match the schema: .*recommendations/);
+  });
+
+  it('keeps the raw text when there are no headings', () => {
+    const response = parseAnalysisResponse('  The lungs are clear.  ');
+
+    expect(response).toMatchObject({ findings: 'The lungs are clear.', parseMode: 'raw' });
+    expect(response.parseErrors).toContain('No CLINICAL FINDINGS heading found');
+  });
+
+  it('rejects an empty response', () => {
+    expect(() => parseAnalysisResponse(' \n')).toThrow('AI returned an empty response');
+  });
+});
+
+describe('parseSynthesisResponse', () => {
+  it('throws with the reason instead of falling back', () => {
+    expect(() => parseSynthesisResponse('FINDINGS: Clear lungs.')).toThrow('no JSON object found');
+    expect(() => parseSynthesisResponse('{"findings": "Clear lungs."}')).toThrow(/JSON does not match the schema: impressions/);
+  });
+});
+
+describe('mapAnalysisText', () => {
+  it('transforms every text field', () => {
+    const mapped = mapAnalysisText({ ...ANALYSIS, parseMode: 'json' }, text => text.toUpperCase());
+
+    expect(mapped.findings).toBe('SMALL RIGHT APICAL PNEUMOTHORAX.');
+    expect(mapped.imageObservations[0]).toEqual({ image: 1, observation: 'VISCERAL PLEURAL LINE AT THE RIGHT APEX' });
+    expect(mapped.criticalFindings[0]).toMatchObject({ category: 'pneumothorax', description: 'RIGHT APICAL PNEUMOTHORAX' });
+  });
+});
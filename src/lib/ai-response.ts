@@ -0,0 +1,247 @@
+import { z } from 'zod/v4';
+import { AIAnalysisResponse } from '@/types/report';
+import { CRITICAL_FINDING_CATEGORIES } from './critical-findings';
+
+/**
+ * Structured analysis requested from the model. Every field is required so
+ * the schema can be used with strict structured-output modes.
+ */
+export const analysisResponseSchema = z.object({
+  findings: z.string().describe('Detailed observations across all images'),
+  impressions: z.string().describe('Clinical interpretation of the findings'),
+  recommendations: z.string().describe('Suggested next steps or follow-up'),
+  technicalNotes: z.string().describe('Image quality or acquisition notes; empty if none'),
+  keyObservations: z.array(z.string()).describe('Short list of the most important observations'),
+  imageObservations: z.array(z.object({
+    image: z.number().describe('1-based position of the image in the request'),
+    observation: z.string()
+  })).describe('Observations for individual images'),
+  criticalFindings: z.array(z.object({
+    category: z.enum(CRITICAL_FINDING_CATEGORIES).describe('The kind of critical result; other for any not listed'),
+    description: z.string().describe('The finding as it should be reported to the care team'),
+    images: z.array(z.number()).describe('1-based positions of the images showing it; empty if not specific')
+  })).describe('Findings that need immediate communication to the care team, such as pneumothorax, intracranial hemorrhage, free air, pulmonary embolism or aortic dissection; empty if none'),
+  confidence: z.number().describe('Confidence in the analysis, from 0 to 1')
+});
+
+// Models following the prompt rather than the schema may leave out critical findings
+const analysisParseSchema = analysisResponseSchema.extend({
+  criticalFindings: analysisResponseSchema.shape.criticalFindings.default([])
+});
+
+export const ANALYSIS_RESPONSE_NAME = 'radiology_analysis';
+
+/**
+ * JSON Schema for providers that constrain output to a schema
+ */
+export function getAnalysisJsonSchema(): Record<string, unknown> {
+  const schema = z.toJSONSchema(analysisResponseSchema) as Record<string, unknown>;
+  delete schema.$schema;
+  return schema;
+}
+
+export const JSON_RESPONSE_INSTRUCTIONS = `Respond with a single JSON object with these fields:
+- findings (string), impressions (string), recommendations (string), technicalNotes (string, empty if none)
+- keyObservations (array of strings)
+- imageObservations (array of { image: 1-based image number, observation: string })
+- criticalFindings (array of { category: one of ${CRITICAL_FINDING_CATEGORIES.join(', ')}, description: string, images: array of image numbers } for findings that need immediate communication to the care team, empty if none)
+- confidence (number from 0 to 1)
+Do not wrap the JSON in any other text.`;
+
+/**
+ * Consolidated report requested from the model in the second, text-only pass
+ * over all batch results. Sources cite batches and images by the numbers
+ * used in the prompt.
+ */
+export const synthesisResponseSchema = z.object({
+  findings: z.string().describe('Unified findings across the whole study'),
+  impressions: z.array(z.object({
+    statement: z.string().describe('One impression item'),
+    sources: z.array(z.object({
+      batch: z.number().describe('Batch number the impression is based on'),
+      images: z.array(z.number()).describe('Image numbers within that batch; empty for the batch as a whole')
+    }))
+  })).describe('Numbered impression items, most important first'),
+  recommendations: z.string().describe('Suggested next steps or follow-up'),
+  sections: z.array(z.object({
+    title: z.string(),
+    content: z.string()
+  })).describe('Additional report sections requested in the prompt; empty if none')
+});
+
+export type SynthesisResponse = z.infer<typeof synthesisResponseSchema>;
+
+export const SYNTHESIS_RESPONSE_NAME = 'radiology_synthesis';
+
+export function getSynthesisJsonSchema(): Record<string, unknown> {
+  const schema = z.toJSONSchema(synthesisResponseSchema) as Record<string, unknown>;
+  delete schema.$schema;
+  return schema;
+}
+
+export const SYNTHESIS_RESPONSE_INSTRUCTIONS = `Respond with a single JSON object with these fields:
+- findings (string)
+- impressions (array of { statement: string, sources: array of { batch: batch number, images: array of image numbers in that batch } })
+- recommendations (string)
+- sections (array of { title: string, content: string } for the additional sections requested, empty if none)
+Do not wrap the JSON in any other text.`;
+
+/**
+ * Read a consolidation response. Unlike batch analyses there is no text
+ * fallback; invalid output throws with the reason.
+ */
+export function parseSynthesisResponse(text: string): SynthesisResponse {
+  const result = synthesisResponseSchema.safeParse(extractJson(text));
+  if (!result.success) {
+    throw new Error(`JSON does not match the schema: ${result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`)
+      .join('; ')}`);
+  }
+  return result.data;
+}
+
+// Headings the default system prompt asks for, in order
+const HEADINGS = {
+  findings: 'CLINICAL FINDINGS',
+  impressions: 'IMPRESSIONS?',
+  recommendations: 'RECOMMENDATIONS?',
+  technicalNotes: 'TECHNICAL NOTES'
+} as const;
+
+/**
+ * Take the JSON object out of a response, allowing for a Markdown code fence
+ * or text around it
+ */
+function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('no JSON object found');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+}
+
+/**
+ * Split text on "HEADING:" lines (optionally Markdown-decorated, e.g.
+ * "## Clinical Findings" or "**IMPRESSIONS:**")
+ */
+function parseHeadings(text: string): Partial<Record<keyof typeof HEADINGS, string>> {
+  const names = Object.keys(HEADINGS) as (keyof typeof HEADINGS)[];
+  const pattern = new RegExp(
+    `^[\\s>#*_-]*(${names.map(name => HEADINGS[name]).join('|')})[ \\t*_]*(?::|$)[\\s*_]*`,
+    'gim'
+  );
+
+  const matches = Array.from(text.matchAll(pattern));
+  const sections: Partial<Record<keyof typeof HEADINGS, string>> = {};
+  matches.forEach((match, i) => {
+    const name = names.find(key => new RegExp(`^${HEADINGS[key]}$`, 'i').test(match[1]));
+    const end = i + 1 < matches.length ? matches[i + 1].index : text.length;
+    const content = text.slice(match.index! + match[0].length, end).trim();
+    if (name && content && !sections[name]) {
+      sections[name] = content;
+    }
+  });
+  return sections;
+}
+
+function toBulletList(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read a model response: schema-validated JSON first, then the heading
+ * format of the default prompt, then the raw text. Whenever the structured
+ * parse fails the reasons are returned in parseErrors.
+ */
+export function parseAnalysisResponse(text: string): AIAnalysisResponse {
+  if (!text.trim()) {
+    throw new Error('AI returned an empty response');
+  }
+
+  const parseErrors: string[] = [];
+
+  try {
+    const result = analysisParseSchema.safeParse(extractJson(text));
+    if (result.success) {
+      const data = result.data;
+      return {
+        findings: data.findings,
+        impressions: data.impressions || undefined,
+        recommendations: data.recommendations,
+        technicalNotes: data.technicalNotes || undefined,
+        keyObservations: data.keyObservations,
+        imageObservations: data.imageObservations,
+        criticalFindings: data.criticalFindings,
+        confidence: Math.min(1, Math.max(0, data.confidence)),
+        parseMode: 'json'
+      };
+    }
+    parseErrors.push(`JSON does not match the schema: ${result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'} ${issue.message}`)
+      .join('; ')}`);
+  } catch (error) {
+    parseErrors.push(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const sections = parseHeadings(text);
+  if (sections.findings) {
+    return {
+      findings: sections.findings,
+      impressions: sections.impressions,
+      recommendations: sections.recommendations || 'Please consult with a qualified radiologist for interpretation.',
+      technicalNotes: sections.technicalNotes,
+      keyObservations: sections.impressions ? toBulletList(sections.impressions) : [],
+      imageObservations: [],
+      criticalFindings: [],
+      parseMode: 'headings',
+      parseErrors
+    };
+  }
+  parseErrors.push('No CLINICAL FINDINGS heading found');
+
+  return {
+    findings: text.trim(),
+    recommendations: 'Please consult with a qualified radiologist for interpretation.',
+    keyObservations: [],
+    imageObservations: [],
+    criticalFindings: [],
+    parseMode: 'raw',
+    parseErrors
+  };
+}
+
+/**
+ * The response with `transform` applied to all of its text, e.g. to restore
+ * identifiers that were replaced before the request
+ */
+export function mapAnalysisText(response: AIAnalysisResponse, transform: (text: string) => string): AIAnalysisResponse {
+  return {
+    ...response,
+    findings: transform(response.findings),
+    impressions: response.impressions && transform(response.impressions),
+    recommendations: transform(response.recommendations),
+    technicalNotes: response.technicalNotes && transform(response.technicalNotes),
+    keyObservations: response.keyObservations.map(transform),
+    imageObservations: response.imageObservations.map(item => ({ ...item, observation: transform(item.observation) })),
+    criticalFindings: response.criticalFindings.map(finding => ({ ...finding, description: transform(finding.description) }))
+  };
+}
+
+/**
+ * A consolidation response with `transform` applied to all of its text
+ */
+export function mapSynthesisText(response: SynthesisResponse, transform: (text: string) => string): SynthesisResponse {
+  return {
+    ...response,
+    findings: transform(response.findings),
+    impressions: response.impressions.map(item => ({ ...item, statement: transform(item.statement) })),
+    recommendations: transform(response.recommendations),
+    sections: response.sections.map(section => ({ ...section, content: transform(section.content) }))
+  };
+}
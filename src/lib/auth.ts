@@ -0,0 +1,109 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod/v4';
+import { SESSION_COOKIE } from './session';
+
+/**
+ * A signed-in user. The name is recorded as the signer of reports, the
+ * author of addenda and the person acknowledging critical alerts.
+ */
+export interface AuthUser {
+  name: string;
+}
+
+export interface AuthConfig {
+  users: { name: string; tokenDigest: Buffer }[];
+}
+
+const MIN_TOKEN_LENGTH = 16;
+
+const usersSchema = z.array(z.object({
+  name: z.string().trim().min(1),
+  token: z.string().min(MIN_TOKEN_LENGTH, `Tokens must be at least ${MIN_TOKEN_LENGTH} characters`)
+}));
+
+export const signInSchema = z.object({
+  token: z.string().min(1, 'An access token is required')
+});
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Read the users allowed to sign in from server-side environment variables:
+ *
+ * - AUTH_USERS: JSON array of users and their access tokens, e.g.
+ *   [{"name":"Dr. Jane Smith","token":"..."}]; tokens are at least 16
+ *   characters. Without users, routes with patient data answer 503.
+ */
+export function getAuthConfig(env: Record<string, string | undefined> = process.env): AuthConfig {
+  if (!env.AUTH_USERS) return { users: [] };
+
+  let users: unknown;
+  try {
+    users = JSON.parse(env.AUTH_USERS);
+  } catch {
+    throw new Error('AUTH_USERS must be a JSON array');
+  }
+  const result = usersSchema.safeParse(users);
+  if (!result.success) {
+    throw new Error(`Invalid AUTH_USERS: ${result.error.issues
+      .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ')}`);
+  }
+  return { users: result.data.map(user => ({ name: user.name, tokenDigest: digest(user.token) })) };
+}
+
+/**
+ * The user an access token belongs to. Tokens are compared as digests, in
+ * constant time.
+ */
+export function findUserByToken(token: string | undefined, config: AuthConfig): AuthUser | undefined {
+  if (!token) return undefined;
+
+  const tokenDigest = digest(token);
+  const user = config.users.find(item => timingSafeEqual(item.tokenDigest, tokenDigest));
+  return user && { name: user.name };
+}
+
+/**
+ * The user making a request, by bearer token or session cookie
+ */
+export function getRequestUser(request: NextRequest, config: AuthConfig = getAuthConfig()): AuthUser | undefined {
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1].trim();
+  return findUserByToken(bearer ?? request.cookies.get(SESSION_COOKIE)?.value, config);
+}
+
+/**
+ * The signed-in user, or the response for a request without one: 401
+ * without valid credentials, 503 when no users are configured and 500 when
+ * AUTH_USERS is invalid
+ */
+export function requireUser(request: NextRequest): AuthUser | NextResponse {
+  let config: AuthConfig;
+  try {
+    config = getAuthConfig();
+  } catch (error) {
+    console.error('Sign-in configuration error:', error instanceof Error ? error.message : error);
+    return NextResponse.json(
+      { error: 'Sign-in is not configured correctly' },
+      { status: 500 }
+    );
+  }
+  if (config.users.length === 0) {
+    return NextResponse.json(
+      { error: 'Sign-in is not configured; set AUTH_USERS to allow access to patient data' },
+      { status: 503 }
+    );
+  }
+
+  const user = getRequestUser(request, config);
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Sign in to access patient data' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+  return user;
+}
@@ -0,0 +1,197 @@
+import { ImageBatch, MedicalImage } from '@/types/medical';
+import { getInstanceKey, getInstanceNumber, groupImagesBySeries } from './study-grouping';
+import { evenlySpacedIndexes } from './utils';
+
+export interface BatchPlanOptions {
+  model?: string;
+  imageTokenBudget?: number; // image tokens allowed per request
+  maxImagesPerBatch?: number;
+  maxSlicesPerSeries?: number; // longer stacks are sub-sampled evenly
+}
+
+interface ModelImageProfile {
+  pattern: RegExp;
+  imageTokenBudget: number;
+  maxImagesPerBatch: number;
+  estimateTokens: (width: number, height: number) => number;
+}
+
+// The upload route fits images inside 1024x1024, so this bounds images of unknown size
+const DEFAULT_IMAGE_SIZE = 1024;
+const DEFAULT_MAX_SLICES_PER_SERIES = 60;
+
+/**
+ * Claude downsizes images to a 1568px long edge and charges about
+ * width * height / 750 tokens
+ */
+function estimateClaudeTokens(width: number, height: number): number {
+  const scale = Math.min(1, 1568 / Math.max(width, height));
+  return Math.ceil((width * scale) * (height * scale) / 750);
+}
+
+/**
+ * GPT-4o fits images in 2048x2048, scales the short side to 768 and charges
+ * 170 tokens per 512px tile plus a base of 85
+ */
+function estimateOpenAITokens(width: number, height: number): number {
+  let scale = Math.min(1, 2048 / Math.max(width, height));
+  scale *= Math.min(1, 768 / (Math.min(width, height) * scale));
+  const tiles = Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512);
+  return 85 + 170 * tiles;
+}
+
+const MODEL_IMAGE_PROFILES: ModelImageProfile[] = [
+  { pattern: /claude/i, imageTokenBudget: 32000, maxImagesPerBatch: 30, estimateTokens: estimateClaudeTokens },
+  { pattern: /gpt-|(^|\/)o\d/i, imageTokenBudget: 24000, maxImagesPerBatch: 30, estimateTokens: estimateOpenAITokens },
+  { pattern: /gemini/i, imageTokenBudget: 24000, maxImagesPerBatch: 30, estimateTokens: () => 258 },
+];
+
+const DEFAULT_IMAGE_PROFILE: ModelImageProfile = {
+  pattern: /.*/,
+  imageTokenBudget: 20000,
+  maxImagesPerBatch: 20,
+  estimateTokens: estimateClaudeTokens
+};
+
+export function getModelImageProfile(model = ''): ModelImageProfile {
+  return MODEL_IMAGE_PROFILES.find(profile => profile.pattern.test(model)) || DEFAULT_IMAGE_PROFILE;
+}
+
+/**
+ * Read width and height from the IHDR chunk of a base64 PNG. Returns
+ * undefined for other formats.
+ */
+export function readPngSize(base64Data: string): { width: number; height: number } | undefined {
+  try {
+    const header = atob(base64Data.slice(0, 32));
+    if (header.slice(1, 4) !== 'PNG' || header.slice(12, 16) !== 'IHDR') {
+      return undefined;
+    }
+    const readUint32 = (offset: number) =>
+      ((header.charCodeAt(offset) << 24) >>> 0) +
+      (header.charCodeAt(offset + 1) << 16) +
+      (header.charCodeAt(offset + 2) << 8) +
+      header.charCodeAt(offset + 3);
+    return { width: readUint32(16), height: readUint32(20) };
+  } catch {
+    return undefined;
+  }
+}
+
+export function estimateImageTokens(image: MedicalImage, model?: string): number {
+  const size = image.base64Data ? readPngSize(image.base64Data) : undefined;
+  return getModelImageProfile(model).estimateTokens(
+    size?.width || DEFAULT_IMAGE_SIZE,
+    size?.height || DEFAULT_IMAGE_SIZE
+  );
+}
+
+/**
+ * One slice of a series: a single-frame instance or one frame of a
+ * multi-frame object, with all of its window renditions
+ */
+interface Slice {
+  images: MedicalImage[];
+  instanceNumber?: number;
+  sliceLocation?: number;
+  frameNumber?: number;
+  tokens: number;
+}
+
+function compareOptional(a?: number, b?: number): number {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+}
+
+/**
+ * Order slices by Instance Number, then Slice Location, then frame number.
+ * Ties keep upload order.
+ */
+function compareSlices(a: Slice, b: Slice): number {
+  return compareOptional(a.instanceNumber, b.instanceNumber) ||
+    compareOptional(a.sliceLocation, b.sliceLocation) ||
+    compareOptional(a.frameNumber, b.frameNumber);
+}
+
+function collectSlices(images: MedicalImage[], model?: string): Slice[] {
+  const slices = new Map<string, Slice>();
+
+  images.forEach(image => {
+    const key = `${getInstanceKey(image)}:${image.frame?.frameNumber ?? 0}`;
+    let slice = slices.get(key);
+    if (!slice) {
+      slice = {
+        images: [],
+        instanceNumber: getInstanceNumber(image),
+        sliceLocation: image.metadata?.sliceLocation,
+        frameNumber: image.frame?.frameNumber,
+        tokens: 0
+      };
+      slices.set(key, slice);
+    }
+    slice.images.push(image);
+    slice.tokens += estimateImageTokens(image, model);
+  });
+
+  return Array.from(slices.values()).sort(compareSlices);
+}
+
+/**
+ * Split ordered slices into the fewest contiguous chunks that fit the
+ * limits, with the slices spread evenly across chunks. A single slice that
+ * exceeds the limits on its own gets a chunk of its own.
+ */
+function splitSlices(slices: Slice[], imageTokenBudget: number, maxImagesPerBatch: number): Slice[][] {
+  const fits = (chunk: Slice[]) =>
+    chunk.length === 1 || (
+      chunk.reduce((sum, slice) => sum + slice.tokens, 0) <= imageTokenBudget &&
+      chunk.reduce((sum, slice) => sum + slice.images.length, 0) <= maxImagesPerBatch
+    );
+
+  for (let count = 1; count < slices.length; count++) {
+    const chunks = Array.from({ length: count }, (_, i) =>
+      slices.slice(Math.round(i * slices.length / count), Math.round((i + 1) * slices.length / count))
+    );
+    if (chunks.every(fits)) {
+      return chunks;
+    }
+  }
+  return slices.map(slice => [slice]);
+}
+
+/**
+ * Plan analysis batches. Each batch holds consecutive slices of a single
+ * series in slice order, long stacks are sub-sampled evenly down to
+ * maxSlicesPerSeries, and batches are sized by the estimated image tokens
+ * of the configured model.
+ */
+export function planBatches(images: MedicalImage[], options: BatchPlanOptions = {}): ImageBatch[] {
+  const profile = getModelImageProfile(options.model);
+  const imageTokenBudget = options.imageTokenBudget ?? profile.imageTokenBudget;
+  const maxImagesPerBatch = options.maxImagesPerBatch ?? profile.maxImagesPerBatch;
+  const maxSlicesPerSeries = options.maxSlicesPerSeries ?? DEFAULT_MAX_SLICES_PER_SERIES;
+
+  const batches: ImageBatch[] = [];
+  const timestamp = Date.now();
+
+  groupImagesBySeries(images).forEach((seriesImages, seriesKey) => {
+    const slices = collectSlices(seriesImages, options.model);
+    const sampled = evenlySpacedIndexes(slices.length, maxSlicesPerSeries).map(i => slices[i]);
+
+    splitSlices(sampled, imageTokenBudget, maxImagesPerBatch).forEach(chunk => {
+      batches.push({
+        id: `batch_${timestamp}_${batches.length}`,
+        images: chunk.flatMap(slice => slice.images),
+        seriesKey,
+        seriesImageCount: seriesImages.length,
+        estimatedTokens: chunk.reduce((sum, slice) => sum + slice.tokens, 0),
+        status: 'pending',
+        createdAt: new Date()
+      });
+    });
+  });
+
+  return batches;
+}
@@ -1,30 +1,33 @@
-import { MedicalImage, ImageBatch, ProcessingStatus } from '@/types/medical';
+import { DeidentifiedImages, DiagnosticReport, MedicalImage, ImageBatch, ProcessingStatus } from '@/types/medical';
 import { AIClient } from './ai-client';
+import { getAIConfig } from './ai-providers';
+import { mapAnalysisText } from './ai-response';
+import { BatchPlanOptions, planBatches } from './batch-planner';
+import { collectCriticalFindings } from './critical-findings';
+import { deidentifyImages } from './deidentification';
+import { describeImage } from './study-grouping';
 
 export class BatchProcessor {
-  static readonly BATCH_SIZE = 20;
-  
-  static createBatches(images: MedicalImage[]): ImageBatch[] {
-    const batches: ImageBatch[] = [];
-    
-    for (let i = 0; i < images.length; i += this.BATCH_SIZE) {
-      const batchImages = images.slice(i, i + this.BATCH_SIZE);
-      
-      batches.push({
-        id: `batch_${Date.now()}_${Math.floor(i / this.BATCH_SIZE)}`,
-        images: batchImages,
-        status: 'pending',
-        createdAt: new Date()
-      });
-    }
-    
-    return batches;
+  /**
+   * Plan batches for the configured model, see planBatches
+   */
+  static createBatches(images: MedicalImage[], options: BatchPlanOptions = {}): ImageBatch[] {
+    return planBatches(images, { model: getAIConfig().model, ...options });
   }
   
+  /**
+   * Analyze one batch. The images are replaced with copies stripped of
+   * patient identifiers before anything is sent, as configured through
+   * DEID_PROFILE, and the identifiers are restored in the analysis that
+   * comes back. `patientInfo` is the patient as entered with the job, whose
+   * name and ID are removed too when the DICOM headers lack them.
+   */
   static async processBatch(
     batch: ImageBatch,
     systemPrompt?: string,
-    _onProgress?: (status: ProcessingStatus) => void
+    _onProgress?: (status: ProcessingStatus) => void,
+    patientInfo?: DiagnosticReport['patientInfo'],
+    deidentify: (images: MedicalImage[]) => Promise<DeidentifiedImages> = images => deidentifyImages(images, { patientInfo })
   ): Promise<ImageBatch> {
     try {
       // Update batch status
@@ -37,38 +40,62 @@ export class BatchProcessor {
         throw new Error('No processable images in batch');
       }
       
+      const deidentified = await deidentify(processableImages);
+      
       // Extract base64 data
-      const base64Images = processableImages.map(img => img.base64Data!);
+      const base64Images = deidentified.images.map(img => img.base64Data!);
       
       // Create user prompt with context about the images
-      const imageInfo = processableImages.map((img, index) => {
+      const imageInfo = deidentified.images.map((img, index) => {
         let info = `Image ${index + 1}: ${img.originalName}`;
+        if (img.frame) {
+          info += ` (frame ${img.frame.frameNumber} of ${img.frame.numberOfFrames})`;
+        }
         if (img.metadata) {
           if (img.metadata.modality) info += ` (${img.metadata.modality})`;
           if (img.metadata.bodyPart) info += ` - ${img.metadata.bodyPart}`;
           if (img.metadata.studyDescription) info += ` - ${img.metadata.studyDescription}`;
+          if (img.metadata.patientSex || img.metadata.patientAge) {
+            info += ` - patient ${[img.metadata.patientSex, img.metadata.patientAge].filter(Boolean).join(', ')}`;
+          }
+        }
+        if (img.window) {
+          info += ` [${img.window.name ? `${img.window.name} window, ` : ''}C ${img.window.center} / W ${img.window.width}]`;
         }
         return info;
       }).join('\n');
       
+      // Tell the model when it is looking at part of a longer stack
+      const seriesInfo = batch.seriesImageCount && batch.seriesImageCount > batch.images.length
+        ? `These images are in slice order and are part of a series of ${batch.seriesImageCount} images; long series are split across requests and evenly sub-sampled.\n\n`
+        : '';
+      
       const userPrompt = `Please analyze the following medical images:
 
-${imageInfo}
+${seriesInfo}${imageInfo}
 
 Provide a comprehensive diagnostic analysis focusing on:
 1. Key findings for each image
 2. Overall clinical impression
 3. Recommendations for further evaluation if needed
-4. Any urgent or critical findings
+4. Any urgent or critical findings, such as pneumothorax, intracranial hemorrhage, free air, pulmonary embolism or aortic dissection
 
 Please maintain professional medical terminology and provide detailed observations.`;
 
       // Analyze images with AI
       const aiClient = new AIClient(systemPrompt);
-      const aiResponse = await aiClient.analyzeImages(base64Images, userPrompt);
+      const response = await aiClient.analyzeImages(base64Images, deidentified.deidentifyText(userPrompt), {
+        onRetry: (attempt, error, delayMs) => {
+          batch.retryCount = (batch.retryCount || 0) + 1;
+          console.warn(`Retrying batch ${batch.id} (attempt ${attempt + 1}) in ${Math.round(delayMs)}ms:`,
+            error instanceof Error ? error.message : error);
+        }
+      });
+      const aiResponse = mapAnalysisText(response, deidentified.reidentifyText);
       
       // Update batch with results
       batch.aiResponse = JSON.stringify(aiResponse);
+      batch.criticalFindings = collectCriticalFindings(aiResponse, processableImages.map(describeImage));
       batch.status = 'completed';
       batch.completedAt = new Date();
       
@@ -83,67 +110,62 @@ Please maintain professional medical terminology and provide detailed observatio
     }
   }
   
+  /**
+   * Process batches with up to `concurrency` AI requests in flight, defaulting
+   * to the configured provider's limit. Results keep the order of `batches`.
+   */
   static async processAllBatches(
     batches: ImageBatch[],
     systemPrompt?: string,
-    onProgress?: (status: ProcessingStatus) => void
+    onProgress?: (status: ProcessingStatus) => void,
+    concurrency = getAIConfig().concurrency
   ): Promise<ImageBatch[]> {
-    const results: ImageBatch[] = [];
+    const results: ImageBatch[] = new Array(batches.length);
     const totalBatches = batches.length;
     const totalImages = batches.reduce((sum, batch) => sum + batch.images.length, 0);
     let processedImages = 0;
+    let startedBatches = 0;
+    let nextIndex = 0;
     
-    for (let i = 0; i < batches.length; i++) {
-      const batch = batches[i];
-      
-      // Update progress
-      if (onProgress) {
-        onProgress({
-          totalImages,
-          processedImages,
-          currentBatch: i + 1,
-          totalBatches,
-          status: 'processing',
-          progress: Math.floor((processedImages / totalImages) * 100)
-        });
-      }
-      
-      try {
-        // Process batch with delay between batches to avoid rate limiting
-        if (i > 0) {
-          await this.delay(1000); // 1 second delay between batches
-        }
-        
-        const processedBatch = await this.processBatch(batch, systemPrompt);
-        results.push(processedBatch);
-        
-        // Update processed count
-        processedImages += batch.images.length;
+    const reportProgress = () => {
+      onProgress?.({
+        totalImages,
+        processedImages,
+        currentBatch: startedBatches,
+        totalBatches,
+        status: 'processing',
+        progress: Math.floor((processedImages / totalImages) * 100)
+      });
+    };
+    
+    // Each runner takes the next unstarted batch until none are left
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < batches.length) {
+        const i = nextIndex++;
+        const batch = batches[i];
+        startedBatches++;
+        reportProgress();
         
-        // Update progress
-        if (onProgress) {
-          onProgress({
-            totalImages,
-            processedImages,
-            currentBatch: i + 1,
-            totalBatches,
-            status: 'processing',
-            progress: Math.floor((processedImages / totalImages) * 100)
-          });
+        try {
+          // Requests are spaced by the shared rate limiter in AIClient
+          results[i] = await this.processBatch(batch, systemPrompt);
+        } catch (error) {
+          console.error(`Error processing batch ${i + 1}:`, error);
+          
+          // Mark batch as failed but continue with others
+          batch.status = 'failed';
+          batch.error = error instanceof Error ? error.message : 'Unknown error occurred';
+          batch.completedAt = new Date();
+          results[i] = batch;
         }
         
-      } catch (error) {
-        console.error(`Error processing batch ${i + 1}:`, error);
-        
-        // Mark batch as failed but continue with others
-        batch.status = 'failed';
-        batch.error = error instanceof Error ? error.message : 'Unknown error occurred';
-        batch.completedAt = new Date();
-        results.push(batch);
-        
         processedImages += batch.images.length;
+        reportProgress();
       }
-    }
+    };
+    
+    const runners = Math.max(1, Math.min(concurrency, batches.length));
+    await Promise.all(Array.from({ length: runners }, runNext));
     
     // Final progress update
     if (onProgress) {
@@ -192,8 +214,4 @@ Please maintain professional medical terminology and provide detailed observatio
   static getFailedBatches(batches: ImageBatch[]): ImageBatch[] {
     return batches.filter(batch => batch.status === 'failed');
   }
-  
-  private static delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
 }
\ No newline at end of file
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CriticalFinding, ImageBatch, MedicalImage } from '@/types/medical';
+import { CriticalAlerts, getCriticalAlertConfig } from './critical-alerts';
+import { JobQueue } from './job-queue';
+
+const IMAGE: MedicalImage = {
+  id: 'image-1',
+  originalName: 'chest.png',
+  fileName: 'chest.png',
+  filePath: '/api/uploads/chest.png',
+  fileType: 'PNG',
+  fileSize: 1,
+  isDicom: false,
+  uploadedAt: new Date(),
+  processed: false
+};
+
+function analyzedBatch(
+  finding: Pick<CriticalFinding, 'description' | 'images'> = { description: 'Large left pneumothorax', images: [] },
+  image = IMAGE
+): ImageBatch {
+  const job = JobQueue.createJob([image], { patientInfo: { name: 'Jane Doe', id: 'P123' } });
+  return {
+    ...JobQueue.getJobBatches(job.id)[0],
+    status: 'completed',
+    criticalFindings: [{ category: 'pneumothorax', ...finding, detectedBy: 'model' }]
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getCriticalAlertConfig', () => {
+  it('leaves the patient out of alerts unless enabled', () => {
+    expect(getCriticalAlertConfig({}).includePatient).toBe(false);
+    expect(getCriticalAlertConfig({ CRITICAL_ALERT_INCLUDE_PATIENT: 'true' }).includePatient).toBe(true);
+  });
+
+  it('requires a URL for the webhook channel', () => {
+    expect(() => getCriticalAlertConfig({ CRITICAL_ALERT_CHANNEL: 'webhook' })).toThrow(/CRITICAL_ALERT_WEBHOOK_URL/);
+  });
+});
+
+describe('CriticalAlerts.raise', () => {
+  it('logs and sends alerts without the patient by default', async () => {
+    vi.stubEnv('CRITICAL_ALERT_CHANNEL', 'webhook');
+    vi.stubEnv('CRITICAL_ALERT_WEBHOOK_URL', 'https://alerts.example/hook');
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetch);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const alert = CriticalAlerts.raise(analyzedBatch())!;
+    await vi.waitFor(() => expect(CriticalAlerts.get(alert.id)!.deliveryStatus).toBe('delivered'));
+
+    const logged = warn.mock.calls.flat().join(' ');
+    expect(logged).toContain(alert.id);
+    expect(logged).toContain('Pneumothorax');
+    expect(logged).not.toMatch(/Jane Doe|P123/);
+    const body = String((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body);
+    expect(body).not.toMatch(/Jane Doe|P123/);
+  });
+
+  it('keeps patient names in file names and descriptions out of webhooks by default', async () => {
+    vi.stubEnv('CRITICAL_ALERT_CHANNEL', 'webhook');
+    vi.stubEnv('CRITICAL_ALERT_WEBHOOK_URL', 'https://alerts.example/hook');
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const image = { ...IMAGE, originalName: 'Jane_Doe_P123_chest.png', fileName: 'Jane_Doe_P123_chest.png' };
+    const alert = CriticalAlerts.raise(analyzedBatch(
+      { description: 'Large left pneumothorax in Jane Doe', images: ['Jane_Doe_P123_chest.png'] },
+      image
+    ))!;
+    await vi.waitFor(() => expect(CriticalAlerts.get(alert.id)!.deliveryStatus).toBe('delivered'));
+
+    const body = String((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body);
+    expect(body).not.toMatch(/Jane|Doe|P123/);
+    const { text, alert: sent } = JSON.parse(body);
+    expect(text).toContain(alert.id);
+    expect(text).toContain('Pneumothorax (images 1)');
+    expect(sent).toMatchObject({
+      id: alert.id,
+      severity: 'critical',
+      findings: [{ category: 'pneumothorax', label: 'Pneumothorax', imageNumbers: [1] }]
+    });
+  });
+
+  it('sends the patient when enabled', async () => {
+    vi.stubEnv('CRITICAL_ALERT_CHANNEL', 'webhook');
+    vi.stubEnv('CRITICAL_ALERT_WEBHOOK_URL', 'https://alerts.example/hook');
+    vi.stubEnv('CRITICAL_ALERT_INCLUDE_PATIENT', 'true');
+    const fetch = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetch);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const alert = CriticalAlerts.raise(analyzedBatch())!;
+    await vi.waitFor(() => expect(CriticalAlerts.get(alert.id)!.deliveryStatus).toBe('delivered'));
+
+    expect(warn.mock.calls.flat().join(' ')).not.toMatch(/Jane Doe|P123/);
+    const { text, alert: sent } = JSON.parse(String((fetch.mock.calls[0] as unknown as [string, RequestInit])[1].body));
+    expect(text).toContain('Jane Doe (P123)');
+    expect(sent.patientInfo).toEqual({ name: 'Jane Doe', id: 'P123' });
+  });
+});
@@ -0,0 +1,325 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod/v4';
+import { CriticalAlert, CriticalAlertChannel, ImageBatch, MedicalImage } from '@/types/medical';
+import { CRITICAL_FINDING_LABELS, formatCriticalFinding } from './critical-findings';
+import { getDatabase } from './db';
+import { describeImage } from './study-grouping';
+
+interface CriticalAlertRow {
+  id: string;
+  job_id: string;
+  batch_id: string;
+  findings: string;
+  channel: CriticalAlertChannel;
+  delivery_status: CriticalAlert['deliveryStatus'];
+  delivery_error: string | null;
+  delivered_at: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: string | null;
+  created_at: string;
+  position: number;
+  patient_info: string | null;
+  report_id: string | null;
+}
+
+export interface CriticalAlertConfig {
+  channel: CriticalAlertChannel;
+  webhookUrl?: string;
+  headers: Record<string, string>;
+  timeoutMs: number;
+  includePatient: boolean; // send the patient and finding descriptions with webhook alerts
+}
+
+/**
+ * Thrown when an alert action does not apply to the alert's current state
+ */
+export class CriticalAlertStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CriticalAlertStateError';
+  }
+}
+
+const CHANNELS: CriticalAlertChannel[] = ['log', 'webhook'];
+
+const MAX_ALERTS = 100;
+
+/**
+ * Alert actions: acknowledging records the signed-in user as having taken
+ * the alert on, resending delivers an alert again after its delivery failed
+ */
+export const criticalAlertActionSchema = z.object({
+  action: z.enum(['acknowledge', 'resend'])
+});
+
+export const criticalAlertListSchema = z.object({
+  status: z.enum(['open', 'acknowledged', 'all']).default('all'),
+  jobId: z.string().trim().min(1).optional()
+});
+
+/**
+ * Read the critical result notification settings from server-side
+ * environment variables:
+ *
+ * - CRITICAL_ALERT_CHANNEL: log (the server log, the default) or webhook
+ * - CRITICAL_ALERT_WEBHOOK_URL: receives each alert as a JSON POST with a
+ *   `text` summary, so Slack and Teams incoming webhooks work as they are
+ * - CRITICAL_ALERT_WEBHOOK_HEADERS: JSON object of additional request headers
+ * - CRITICAL_ALERT_TIMEOUT_MS: webhook request timeout, 10 seconds by default
+ * - CRITICAL_ALERT_INCLUDE_PATIENT: true to send the patient name and ID and
+ *   the findings as worded with webhook alerts. By default only the finding
+ *   categories and image numbers are sent; the patient is never logged.
+ */
+export function getCriticalAlertConfig(env: Record<string, string | undefined> = process.env): CriticalAlertConfig {
+  const channel = (env.CRITICAL_ALERT_CHANNEL || 'log').toLowerCase() as CriticalAlertChannel;
+  if (!CHANNELS.includes(channel)) {
+    throw new Error(`Unknown CRITICAL_ALERT_CHANNEL "${env.CRITICAL_ALERT_CHANNEL}", expected one of: ${CHANNELS.join(', ')}`);
+  }
+  if (channel === 'webhook' && !env.CRITICAL_ALERT_WEBHOOK_URL) {
+    throw new Error('CRITICAL_ALERT_WEBHOOK_URL is required for the webhook channel');
+  }
+
+  let headers: Record<string, string> = {};
+  if (env.CRITICAL_ALERT_WEBHOOK_HEADERS) {
+    try {
+      headers = JSON.parse(env.CRITICAL_ALERT_WEBHOOK_HEADERS);
+    } catch {
+      throw new Error('CRITICAL_ALERT_WEBHOOK_HEADERS must be a JSON object');
+    }
+  }
+
+  const timeoutMs = Number(env.CRITICAL_ALERT_TIMEOUT_MS);
+  return {
+    channel,
+    webhookUrl: env.CRITICAL_ALERT_WEBHOOK_URL,
+    headers,
+    timeoutMs: env.CRITICAL_ALERT_TIMEOUT_MS && Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 10000,
+    includePatient: env.CRITICAL_ALERT_INCLUDE_PATIENT === 'true'
+  };
+}
+
+const ALERT_COLUMNS = `
+  critical_alerts.*, batches.position, jobs.patient_info,
+  (SELECT id FROM reports WHERE reports.job_id = critical_alerts.job_id ORDER BY created_at DESC, rowid DESC LIMIT 1) AS report_id
+`;
+
+const ALERT_SOURCE = `
+  critical_alerts
+  JOIN batches ON batches.id = critical_alerts.batch_id
+  JOIN jobs ON jobs.id = critical_alerts.job_id
+`;
+
+function toAlert(row: CriticalAlertRow): CriticalAlert {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    batchId: row.batch_id,
+    batchNumber: row.position + 1,
+    reportId: row.report_id ?? undefined,
+    patientInfo: row.patient_info ? JSON.parse(row.patient_info) : {},
+    findings: JSON.parse(row.findings),
+    channel: row.channel,
+    deliveryStatus: row.delivery_status,
+    deliveryError: row.delivery_error ?? undefined,
+    deliveredAt: row.delivered_at ? new Date(row.delivered_at) : undefined,
+    acknowledgedBy: row.acknowledged_by ?? undefined,
+    acknowledgedAt: row.acknowledged_at ? new Date(row.acknowledged_at) : undefined,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+/**
+ * The alert as one line of text, e.g. "CRITICAL RESULT for Jane Doe (P1),
+ * batch 2: Pneumothorax: ...", with the findings as worded in the analysis
+ */
+function describeAlert(alert: CriticalAlert): string {
+  const patient = [alert.patientInfo.name, alert.patientInfo.id && `(${alert.patientInfo.id})`].filter(Boolean).join(' ');
+  return `CRITICAL RESULT for ${patient || `job ${alert.jobId}`}, batch ${alert.batchNumber}: ${alert.findings
+    .map(finding => formatCriticalFinding({ ...finding, batchNumber: undefined }))
+    .join('; ')}`;
+}
+
+/**
+ * The alert with nothing that can identify the patient. Descriptions are
+ * model text that may quote the patient and image labels are upload file
+ * names, so findings are sent as their category and the position of the
+ * cited images in the batch, as numbered in the analysis prompt.
+ */
+function toAnonymousAlert(alert: CriticalAlert) {
+  const images = getDatabase().prepare('SELECT images FROM batches WHERE id = ?').pluck().get(alert.batchId) as string | undefined;
+  const labels = images ? (JSON.parse(images) as MedicalImage[]).map(describeImage) : [];
+  const findings = alert.findings.map(finding => ({
+    category: finding.category,
+    label: CRITICAL_FINDING_LABELS[finding.category],
+    imageNumbers: finding.images.map(image => labels.indexOf(image) + 1).filter(number => number > 0)
+  }));
+
+  return {
+    text: `CRITICAL RESULT alert ${alert.id} for job ${alert.jobId}, batch ${alert.batchNumber}: ${findings
+      .map(finding => finding.imageNumbers.length > 0 ? `${finding.label} (images ${finding.imageNumbers.join(', ')})` : finding.label)
+      .join('; ')}`,
+    alert: {
+      id: alert.id,
+      jobId: alert.jobId,
+      batchNumber: alert.batchNumber,
+      severity: 'critical',
+      findings,
+      createdAt: alert.createdAt
+    }
+  };
+}
+
+async function sendWebhook(alert: CriticalAlert, config: CriticalAlertConfig) {
+  const body = config.includePatient ? { text: describeAlert(alert), alert } : toAnonymousAlert(alert);
+  const response = await fetch(config.webhookUrl!, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...config.headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(config.timeoutMs)
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status} ${response.statusText}`.trim());
+  }
+}
+
+/**
+ * Critical result alerts. The worker raises one for every analyzed batch
+ * with critical findings and delivers it to the configured channel; the
+ * outcome of the delivery is recorded. Alerts stay open until someone
+ * acknowledges them.
+ */
+export class CriticalAlerts {
+  static raise(batch: ImageBatch): CriticalAlert | undefined {
+    if (!batch.criticalFindings?.length || !batch.jobId) return undefined;
+
+    let config: CriticalAlertConfig | undefined;
+    let configError: string | undefined;
+    try {
+      config = getCriticalAlertConfig();
+    } catch (error) {
+      configError = error instanceof Error ? error.message : String(error);
+    }
+
+    const id = `alert_${randomUUID()}`;
+    getDatabase().prepare(`
+      INSERT INTO critical_alerts (id, job_id, batch_id, findings, channel, delivery_status, delivery_error, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (batch_id) DO NOTHING
+    `).run(
+      id,
+      batch.jobId,
+      batch.id,
+      JSON.stringify(batch.criticalFindings),
+      config?.channel ?? 'log',
+      config ? 'pending' : 'failed',
+      configError ?? null,
+      new Date().toISOString()
+    );
+
+    const alert = this.get(id);
+    if (!alert) return undefined;
+
+    // The server log always has the alert, whatever the channel, but not the patient
+    console.warn(`CRITICAL RESULT alert ${alert.id} for job ${alert.jobId}, batch ${alert.batchNumber}: ${alert.findings
+      .map(finding => CRITICAL_FINDING_LABELS[finding.category])
+      .join(', ')}`);
+    if (config) {
+      void this.deliver(alert, config);
+    } else {
+      console.error(`Critical alert ${id} could not be delivered: ${configError}`);
+    }
+    return alert;
+  }
+
+  static get(id: string): CriticalAlert | undefined {
+    const row = getDatabase()
+      .prepare(`SELECT ${ALERT_COLUMNS} FROM ${ALERT_SOURCE} WHERE critical_alerts.id = ?`)
+      .get(id) as CriticalAlertRow | undefined;
+    return row ? toAlert(row) : undefined;
+  }
+
+  /**
+   * Alerts, newest first: open ones are not acknowledged yet
+   */
+  static list(query: { status?: 'open' | 'acknowledged' | 'all'; jobId?: string } = {}): CriticalAlert[] {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (query.status === 'open') {
+      conditions.push('critical_alerts.acknowledged_at IS NULL');
+    } else if (query.status === 'acknowledged') {
+      conditions.push('critical_alerts.acknowledged_at IS NOT NULL');
+    }
+    if (query.jobId) {
+      conditions.push('critical_alerts.job_id = ?');
+      params.push(query.jobId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = getDatabase().prepare(`
+      SELECT ${ALERT_COLUMNS} FROM ${ALERT_SOURCE}
+      ${where}
+      ORDER BY critical_alerts.created_at DESC, critical_alerts.rowid DESC
+      LIMIT ?
+    `).all(...params, MAX_ALERTS) as CriticalAlertRow[];
+    return rows.map(toAlert);
+  }
+
+  static acknowledge(id: string, acknowledgedBy: string): CriticalAlert | undefined {
+    const alert = this.get(id);
+    if (!alert) return undefined;
+    if (alert.acknowledgedAt) {
+      throw new CriticalAlertStateError(`Alert ${id} was already acknowledged by ${alert.acknowledgedBy}`);
+    }
+
+    getDatabase().prepare(`
+      UPDATE critical_alerts SET acknowledged_by = ?, acknowledged_at = ? WHERE id = ? AND acknowledged_at IS NULL
+    `).run(acknowledgedBy, new Date().toISOString(), id);
+    return this.get(id);
+  }
+
+  /**
+   * Deliver an alert again after its delivery failed, e.g. once the
+   * webhook is reachable or configured. Resolves once delivery is done.
+   */
+  static async resend(id: string): Promise<CriticalAlert | undefined> {
+    const alert = this.get(id);
+    if (!alert) return undefined;
+    if (alert.deliveryStatus !== 'failed') {
+      throw new CriticalAlertStateError(`Alert ${id} is ${alert.deliveryStatus}, only failed deliveries are sent again`);
+    }
+
+    const db = getDatabase();
+    let config: CriticalAlertConfig;
+    try {
+      config = getCriticalAlertConfig();
+    } catch (error) {
+      db.prepare('UPDATE critical_alerts SET delivery_error = ? WHERE id = ?')
+        .run(error instanceof Error ? error.message : String(error), id);
+      return this.get(id);
+    }
+
+    db.prepare(`
+      UPDATE critical_alerts SET channel = ?, delivery_status = 'pending', delivery_error = NULL WHERE id = ?
+    `).run(config.channel, id);
+    await this.deliver({ ...alert, channel: config.channel }, config);
+    return this.get(id);
+  }
+
+  private static async deliver(alert: CriticalAlert, config: CriticalAlertConfig) {
+    const db = getDatabase();
+    try {
+      if (config.channel === 'webhook') {
+        await sendWebhook(alert, config);
+      }
+      db.prepare(`
+        UPDATE critical_alerts SET delivery_status = 'delivered', delivery_error = NULL, delivered_at = ? WHERE id = ?
+      `).run(new Date().toISOString(), alert.id);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Critical alert ${alert.id} could not be delivered:`, message);
+      db.prepare(`
+        UPDATE critical_alerts SET delivery_status = 'failed', delivery_error = ? WHERE id = ?
+      `).run(message, alert.id);
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { collectCriticalFindings, detectCriticalFindings } from './critical-findings';
+
+const categories = (text: string) => detectCriticalFindings(text).map(finding => finding.category);
+
+describe('detectCriticalFindings', () => {
+  it('finds critical results named in the text', () => {
+    expect(categories('Large left pneumothorax with mediastinal shift.')).toEqual(['pneumothorax']);
+    expect(categories('Acute subdural hematoma. Free intraperitoneal air under the diaphragm.'))
+      .toEqual(['intracranial_hemorrhage', 'free_air']);
+  });
+
+  it('skips findings ruled out before or after them', () => {
+    expect(categories('No pneumothorax.')).toEqual([]);
+    expect(categories('There is no evidence of pneumothorax or pulmonary embolism.')).toEqual([]);
+    expect(categories('Pneumothorax is not seen.')).toEqual([]);
+    expect(categories('Aortic dissection has been excluded.')).toEqual([]);
+    expect(categories('History of subdural hematoma.')).toEqual([]);
+  });
+
+  it('does not carry a negation past a clause break or contrast', () => {
+    expect(categories('No effusion; small apical pneumothorax.')).toEqual(['pneumothorax']);
+    expect(categories('No consolidation, but there is a right pneumothorax.')).toEqual(['pneumothorax']);
+  });
+
+  it('describes a finding by the clause naming it', () => {
+    expect(detectCriticalFindings('Lungs clear. Saddle embolus in the main pulmonary artery.')).toEqual([{
+      category: 'pulmonary_embolism',
+      description: 'Saddle embolus in the main pulmonary artery',
+      images: [],
+      detectedBy: 'text'
+    }]);
+  });
+});
+
+describe('collectCriticalFindings', () => {
+  it('keeps the findings the model flagged and adds those only named in the text', () => {
+    const findings = collectCriticalFindings({
+      findings: 'Tension pneumothorax on the left. Free air under the diaphragm.',
+      recommendations: '',
+      keyObservations: [],
+      imageObservations: [],
+      criticalFindings: [{ category: 'pneumothorax', description: 'Left tension pneumothorax', images: [2, 7] }],
+      parseMode: 'json'
+    }, ['a.dcm', 'b.dcm']);
+
+    expect(findings).toEqual([
+      { category: 'pneumothorax', description: 'Left tension pneumothorax', images: ['b.dcm'], detectedBy: 'model' },
+      { category: 'free_air', description: 'Free air under the diaphragm', images: [], detectedBy: 'text' }
+    ]);
+  });
+});
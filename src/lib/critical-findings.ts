@@ -0,0 +1,118 @@
+import { CriticalFinding, CriticalFindingCategory, ImageBatch } from '@/types/medical';
+import { AIAnalysisResponse } from '@/types/report';
+
+/**
+ * Critical results: findings that are communicated to the care team as soon
+ * as they are seen. Shared by the server and the report page.
+ */
+
+export const CRITICAL_FINDING_LABELS: Record<CriticalFindingCategory, string> = {
+  pneumothorax: 'Pneumothorax',
+  intracranial_hemorrhage: 'Intracranial hemorrhage',
+  free_air: 'Free air',
+  pulmonary_embolism: 'Pulmonary embolism',
+  aortic_dissection: 'Aortic dissection',
+  other: 'Other critical finding'
+};
+
+export const CRITICAL_FINDING_CATEGORIES = Object.keys(CRITICAL_FINDING_LABELS) as CriticalFindingCategory[];
+
+// Wording of each category in free text; "other" is only flagged by the model
+const PATTERNS: Partial<Record<CriticalFindingCategory, RegExp>> = {
+  pneumothorax: /\bpneumothora(?:x|ces)\b/i,
+  intracranial_hemorrhage: /\b(?:(?:intracranial|intracerebral|intraparenchymal|intraventricular|subarachnoid|subdural|epidural|extradural)\s+(?:hemorrhage|haemorrhage|hematoma|haematoma|bleed(?:ing)?)|(?:hemorrhagic|haemorrhagic) stroke)\b/i,
+  free_air: /\b(?:free (?:intraperitoneal |intra-abdominal |abdominal )?(?:air|gas)|pneumoperitoneum)\b/i,
+  pulmonary_embolism: /\b(?:pulmonary (?:embolism|embolus|emboli|thromboembolism)|saddle embol(?:us|ism))\b/i,
+  aortic_dissection: /\b(?:aortic dissection|dissection of the (?:thoracic |abdominal )?aorta|dissecting aneurysm)\b/i
+};
+
+// Words before a finding that rule it out, e.g. "no pneumothorax or effusion"
+const NEGATION_BEFORE = /\b(?:no|not|without|negative for|free of|absence of|absent|rule out|ruled out|exclude|excluded|history of|resolved)\b/i;
+
+// Words after a finding that rule it out, e.g. "pneumothorax is not seen"
+const NEGATION_AFTER = /\b(?:not (?:seen|identified|present|demonstrated|visuali[sz]ed|detected)|(?:is|are|was|were|has been) (?:excluded|ruled out|resolved)|has resolved)\b/i;
+
+// A negation carries over a list ("no effusion, pneumothorax or ...") but not past a contrast
+const CLAUSE_BREAK = /[.;:!?\n]+|\b(?:but|however|although|though|whereas|except)\b/i;
+
+const MAX_DESCRIPTION_LENGTH = 240;
+
+/**
+ * Critical results named in free text, one per category, skipping those the
+ * text rules out. The description is the clause that names the finding.
+ */
+export function detectCriticalFindings(text: string): CriticalFinding[] {
+  const findings: CriticalFinding[] = [];
+  const clauses = text.split(CLAUSE_BREAK).map(clause => clause.trim()).filter(Boolean);
+
+  for (const category of CRITICAL_FINDING_CATEGORIES) {
+    const pattern = PATTERNS[category];
+    if (!pattern) continue;
+
+    const clause = clauses.find(item => {
+      const match = item.match(pattern);
+      if (!match) return false;
+      const before = item.slice(0, match.index);
+      const after = item.slice(match.index! + match[0].length);
+      return !NEGATION_BEFORE.test(before) && !NEGATION_AFTER.test(after);
+    });
+    if (clause) {
+      findings.push({
+        category,
+        description: clause.length > MAX_DESCRIPTION_LENGTH ? `${clause.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : clause,
+        images: [],
+        detectedBy: 'text'
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Critical results of a batch analysis: those the model flagged, with image
+ * numbers resolved to `imageLabels`, then any further category named in the
+ * text of the analysis. The text is read too because the model can miss the
+ * field, and responses read from headings or raw text do not have it.
+ */
+export function collectCriticalFindings(response: AIAnalysisResponse, imageLabels: string[]): CriticalFinding[] {
+  const flagged: CriticalFinding[] = (response.criticalFindings ?? []).map(finding => ({
+    category: CRITICAL_FINDING_CATEGORIES.includes(finding.category) ? finding.category : 'other',
+    description: finding.description.trim(),
+    images: finding.images
+      .filter(image => image >= 1 && image <= imageLabels.length)
+      .map(image => imageLabels[image - 1]),
+    detectedBy: 'model'
+  }));
+
+  const text = [response.findings, response.impressions, ...response.keyObservations]
+    .filter(Boolean)
+    .join('\n');
+  const detected = detectCriticalFindings(text)
+    .filter(finding => !flagged.some(item => item.category === finding.category));
+
+  return [...flagged, ...detected];
+}
+
+/**
+ * Critical results of a study, in batch order, each with the number of the
+ * batch it was found in
+ */
+export function getCriticalFindings(batches: ImageBatch[]): CriticalFinding[] {
+  return batches.flatMap((batch, index) => batch.status === 'completed'
+    ? (batch.criticalFindings ?? []).map(finding => ({ ...finding, batchNumber: index + 1 }))
+    : []);
+}
+
+/**
+ * A critical finding as a single line, e.g. "Pneumothorax: large left
+ * pneumothorax (Batch 2: chest.dcm)"
+ */
+export function formatCriticalFinding(finding: CriticalFinding): string {
+  const sources = [
+    finding.batchNumber ? `Batch ${finding.batchNumber}` : undefined,
+    finding.images.length > 0 ? finding.images.join(', ') : undefined
+  ].filter(Boolean).join(': ');
+  const line = `${CRITICAL_FINDING_LABELS[finding.category]}: ${finding.description}`;
+  return sources ? `${line} (${sources})` : line;
+}
@@ -0,0 +1,265 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import * as path from 'path';
+
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join(process.cwd(), 'data', 'radiology.db');
+
+/**
+ * Schema migrations, applied in order. The index of the last applied
+ * migration + 1 is kept in PRAGMA user_version; only ever append.
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    system_prompt TEXT,
+    patient_info TEXT,
+    total_images INTEGER NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    completed_at TEXT
+  );
+
+  CREATE TABLE batches (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    series_key TEXT,
+    series_image_count INTEGER,
+    estimated_tokens INTEGER,
+    images TEXT NOT NULL,
+    status TEXT NOT NULL,
+    ai_response TEXT,
+    error TEXT,
+    created_at TEXT NOT NULL,
+    started_at TEXT,
+    completed_at TEXT
+  );
+
+  CREATE INDEX batches_job ON batches(job_id, position);
+  CREATE INDEX batches_status ON batches(status, created_at);
+  `,
+  `
+  ALTER TABLE batches ADD COLUMN image_count INTEGER NOT NULL DEFAULT 0;
+  UPDATE batches SET image_count = json_array_length(images);
+  `,
+  `
+  ALTER TABLE batches ADD COLUMN retry_count INTEGER NOT NULL DEFAULT 0;
+  `,
+  `
+  CREATE TABLE report_templates (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    description TEXT,
+    modalities TEXT NOT NULL,
+    body_parts TEXT NOT NULL,
+    system_prompt TEXT NOT NULL,
+    sections TEXT NOT NULL,
+    is_default INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+
+  ALTER TABLE jobs ADD COLUMN template TEXT;
+  `,
+  `
+  CREATE TABLE reports (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    patient_info TEXT,
+    template_name TEXT,
+    total_images INTEGER NOT NULL,
+    report_text TEXT NOT NULL,
+    synthesis TEXT,
+    recommendations TEXT NOT NULL,
+    statistics TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX reports_created ON reports(created_at);
+  CREATE INDEX reports_job ON reports(job_id);
+  `,
+  `
+  ALTER TABLE reports ADD COLUMN status TEXT NOT NULL DEFAULT 'completed';
+  ALTER TABLE reports ADD COLUMN template_id TEXT;
+  ALTER TABLE reports ADD COLUMN body_part TEXT;
+  ALTER TABLE reports ADD COLUMN patient_name TEXT GENERATED ALWAYS AS (json_extract(patient_info, '$.name')) VIRTUAL;
+  ALTER TABLE reports ADD COLUMN patient_id TEXT GENERATED ALWAYS AS (json_extract(patient_info, '$.id')) VIRTUAL;
+  ALTER TABLE reports ADD COLUMN modality TEXT GENERATED ALWAYS AS (json_extract(patient_info, '$.modality')) VIRTUAL;
+
+  UPDATE reports SET status = 'failed' WHERE synthesis IS NULL;
+  UPDATE reports SET template_id = (SELECT json_extract(template, '$.id') FROM jobs WHERE jobs.id = reports.job_id);
+  UPDATE reports SET body_part = (
+    SELECT json_extract(images, '$[0].metadata.bodyPart') FROM batches
+    WHERE batches.job_id = reports.job_id ORDER BY position LIMIT 1
+  );
+
+  -- Full-text index of the report text, kept in step with reports by triggers
+  CREATE VIRTUAL TABLE reports_fts USING fts5(report_id UNINDEXED, report_text, tokenize = 'porter unicode61');
+  INSERT INTO reports_fts (report_id, report_text) SELECT id, report_text FROM reports;
+
+  CREATE TRIGGER reports_fts_insert AFTER INSERT ON reports BEGIN
+    INSERT INTO reports_fts (report_id, report_text) VALUES (new.id, new.report_text);
+  END;
+  CREATE TRIGGER reports_fts_update AFTER UPDATE OF report_text ON reports BEGIN
+    UPDATE reports_fts SET report_text = new.report_text WHERE report_id = old.id;
+  END;
+  CREATE TRIGGER reports_fts_delete AFTER DELETE ON reports BEGIN
+    DELETE FROM reports_fts WHERE report_id = old.id;
+  END;
+  `,
+  `
+  -- Reports now follow the review workflow; existing ones are unreviewed drafts
+  UPDATE reports SET status = 'draft';
+  ALTER TABLE reports ADD COLUMN edited_at TEXT;
+
+  CREATE TABLE report_signatures (
+    id TEXT PRIMARY KEY,
+    report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL,
+    signed_by TEXT NOT NULL,
+    attestation TEXT NOT NULL,
+    reason TEXT,
+    signed_at TEXT NOT NULL
+  );
+
+  CREATE INDEX report_signatures_report ON report_signatures(report_id, signed_at);
+  `,
+  `
+  -- Every text of a report is kept; reports holds the current version
+  ALTER TABLE reports ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+  CREATE TABLE report_versions (
+    id TEXT PRIMARY KEY,
+    report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    kind TEXT NOT NULL,
+    report_text TEXT NOT NULL,
+    synthesis TEXT,
+    recommendations TEXT NOT NULL,
+    created_by TEXT,
+    created_at TEXT NOT NULL,
+    UNIQUE (report_id, version)
+  );
+
+  INSERT INTO report_versions (id, report_id, version, kind, report_text, synthesis, recommendations, created_at)
+  SELECT 'version_' || lower(hex(randomblob(16))), id, 1,
+    CASE WHEN edited_at IS NULL THEN 'generated' ELSE 'edited' END,
+    report_text, synthesis, recommendations, COALESCE(edited_at, created_at)
+  FROM reports;
+
+  ALTER TABLE report_signatures ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+  CREATE TABLE report_addenda (
+    id TEXT PRIMARY KEY,
+    report_id TEXT NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+
+  CREATE INDEX report_addenda_report ON report_addenda(report_id, created_at);
+
+  -- Versions, sign-offs and addenda are a record; they are only removed with their report
+  CREATE TRIGGER report_versions_immutable BEFORE UPDATE ON report_versions BEGIN
+    SELECT RAISE(ABORT, 'Report versions cannot be changed');
+  END;
+  CREATE TRIGGER report_signatures_immutable BEFORE UPDATE ON report_signatures BEGIN
+    SELECT RAISE(ABORT, 'Report signatures cannot be changed');
+  END;
+  CREATE TRIGGER report_addenda_immutable BEFORE UPDATE ON report_addenda BEGIN
+    SELECT RAISE(ABORT, 'Report addenda cannot be changed');
+  END;
+  `,
+  `
+  ALTER TABLE batches ADD COLUMN critical_findings TEXT;
+  ALTER TABLE reports ADD COLUMN critical_findings TEXT NOT NULL DEFAULT '[]';
+  ALTER TABLE reports ADD COLUMN critical_count INTEGER GENERATED ALWAYS AS (json_array_length(critical_findings)) VIRTUAL;
+
+  -- One alert per batch with critical findings, until someone acknowledges it
+  CREATE TABLE critical_alerts (
+    id TEXT PRIMARY KEY,
+    job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+    findings TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    delivery_status TEXT NOT NULL,
+    delivery_error TEXT,
+    delivered_at TEXT,
+    acknowledged_by TEXT,
+    acknowledged_at TEXT,
+    created_at TEXT NOT NULL,
+    UNIQUE (batch_id)
+  );
+
+  CREATE INDEX critical_alerts_open ON critical_alerts(acknowledged_at, created_at);
+  CREATE INDEX critical_alerts_job ON critical_alerts(job_id, created_at);
+  `,
+  `
+  -- Pseudonyms given to identifiers before images leave the server, kept to re-identify results
+  CREATE TABLE deid_mappings (
+    kind TEXT NOT NULL,
+    original TEXT NOT NULL,
+    pseudonym TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (kind, original)
+  );
+  `,
+  `
+  -- Encrypted upload files; rows stay after a file is purged, to tell a purged file from a missing one
+  CREATE TABLE stored_files (
+    name TEXT PRIMARY KEY,
+    kind TEXT NOT NULL,
+    size INTEGER NOT NULL,
+    job_id TEXT REFERENCES jobs(id) ON DELETE SET NULL,
+    created_at TEXT NOT NULL,
+    purged_at TEXT,
+    purge_reason TEXT
+  );
+
+  CREATE INDEX stored_files_job ON stored_files(job_id);
+  CREATE INDEX stored_files_kept ON stored_files(created_at) WHERE purged_at IS NULL;
+  `,
+  `
+  -- The review record cannot be deleted either, also not by deleting its report or job
+  CREATE TRIGGER report_versions_undeletable BEFORE DELETE ON report_versions BEGIN
+    SELECT RAISE(ABORT, 'Report versions cannot be deleted');
+  END;
+  CREATE TRIGGER report_signatures_undeletable BEFORE DELETE ON report_signatures BEGIN
+    SELECT RAISE(ABORT, 'Report signatures cannot be deleted');
+  END;
+  CREATE TRIGGER report_addenda_undeletable BEFORE DELETE ON report_addenda BEGIN
+    SELECT RAISE(ABORT, 'Report addenda cannot be deleted');
+  END;
+  `,
+];
+
+// Survives module reloads in development so there is one connection per process
+const globalForDb = globalThis as unknown as { radiologyDb?: Database.Database };
+
+function migrate(db: Database.Database) {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[i]);
+      db.pragma(`user_version = ${i + 1}`);
+    })();
+  }
+}
+
+/**
+ * Open the application database, creating and migrating it on first use
+ */
+export function getDatabase(): Database.Database {
+  if (!globalForDb.radiologyDb) {
+    mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+    const db = new Database(DATABASE_PATH);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+    globalForDb.radiologyDb = db;
+  }
+  return globalForDb.radiologyDb;
+}
@@ -0,0 +1,190 @@
+import sharp from 'sharp';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageBatch, MedicalImage } from '@/types/medical';
+import { AIClient } from './ai-client';
+import { BatchProcessor } from './batch-processor';
+import {
+  DeidentificationConfig,
+  DeidentificationMap,
+  createTextDeidentifier,
+  deidentifyImages,
+  getDeidentificationConfig
+} from './deidentification';
+
+const CONFIG: DeidentificationConfig = { profile: 'basic', retain: [], blankRegions: [], allowBurnedIn: false };
+
+function image(overrides: Partial<MedicalImage> = {}): MedicalImage {
+  return {
+    id: 'image-1',
+    originalName: 'Doe John chest.dcm',
+    fileName: '1700000000000_0_Doe_John_chest.dcm',
+    filePath: '/api/uploads/1700000000000_0_Doe_John_chest.dcm',
+    fileType: 'DICOM',
+    fileSize: 1,
+    isDicom: true,
+    uploadedAt: new Date(),
+    processed: false,
+    metadata: {
+      patientName: 'DOE^JOHN',
+      patientId: 'MRN-445566',
+      patientSex: 'M',
+      studyDate: '20240102',
+      modality: 'CR',
+      institutionName: 'St. Elsewhere Hospital',
+      studyInstanceUid: '1.2.840.113619.2.55.3'
+    },
+    ...overrides
+  };
+}
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('getDeidentificationConfig', () => {
+  it('uses the basic profile and refuses uncovered burned-in annotation by default', () => {
+    expect(getDeidentificationConfig({})).toEqual(CONFIG);
+    expect(getDeidentificationConfig({ DEID_ALLOW_BURNED_IN: 'true' }).allowBurnedIn).toBe(true);
+  });
+
+  it('rejects unknown settings', () => {
+    expect(() => getDeidentificationConfig({ DEID_PROFILE: 'strict' })).toThrow(/DEID_PROFILE/);
+    expect(() => getDeidentificationConfig({ DEID_RETAIN: 'names' })).toThrow(/DEID_RETAIN/);
+    expect(() => getDeidentificationConfig({ DEID_BLANK_REGIONS: '[{"x":0.5,"y":0,"width":0.6,"height":1}]' }))
+      .toThrow(/within the image/);
+  });
+});
+
+describe('createTextDeidentifier', () => {
+  const { deidentifyText, reidentifyText } = createTextDeidentifier([image()], { config: CONFIG });
+  const name = DeidentificationMap.pseudonymize('patient-name', 'DOE^JOHN');
+
+  it('replaces the patient name however it is written', () => {
+    for (const written of ['DOE^JOHN', 'Doe^John', 'John Doe', 'Doe, John', 'DOE_JOHN', 'john_doe']) {
+      expect(deidentifyText(`Patient ${written} seen today.`)).toBe(`Patient ${name} seen today.`);
+    }
+    expect(deidentifyText('Mr. Doe was told; John agreed.')).toBe(`Mr. ${name} was told; ${name} agreed.`);
+  });
+
+  it('replaces file names as uploaded and as stored', () => {
+    const alias = DeidentificationMap.pseudonymize('file', 'Doe John chest.dcm');
+    expect(deidentifyText('See Doe John chest.dcm')).toBe(`See ${alias}`);
+    expect(deidentifyText('See 1700000000000_0_Doe_John_chest.dcm')).toBe(`See 1700000000000_0_${alias}`);
+  });
+
+  it('replaces identifiers and removes attributes the profile removes', () => {
+    const text = deidentifyText('MRN-445566 at St. Elsewhere Hospital on 20240102, study 1.2.840.113619.2.55.3');
+    expect(text).not.toMatch(/445566|Elsewhere|20240102|113619/);
+    expect(text).toContain(DeidentificationMap.pseudonymize('patient-id', 'MRN-445566'));
+    expect(text).toContain('[removed]');
+  });
+
+  it('leaves words that only contain a name part alone', () => {
+    expect(deidentifyText('Johnson and Doebler')).toBe('Johnson and Doebler');
+  });
+
+  it('re-identifies pseudonyms in text that comes back', () => {
+    expect(reidentifyText(deidentifyText('John Doe (MRN-445566): no acute findings.')))
+      .toBe('DOE^JOHN (MRN-445566): no acute findings.');
+  });
+
+  it('passes text through with the profile off', () => {
+    const off = createTextDeidentifier([image()], { config: { ...CONFIG, profile: 'off' } });
+    expect(off.deidentifyText('John Doe')).toBe('John Doe');
+  });
+});
+
+describe('deidentifyImages', () => {
+  it('pseudonymizes metadata and drops server paths', async () => {
+    const { images: [copy] } = await deidentifyImages([image()], { config: CONFIG });
+    expect(copy.originalName).toMatch(/^image-[0-9a-f]{8}\.dcm$/);
+    expect(copy.fileName).toBe(copy.originalName);
+    expect(copy.filePath).toBe('');
+    expect(copy.metadata).toEqual({
+      patientName: DeidentificationMap.pseudonymize('patient-name', 'DOE^JOHN'),
+      patientId: DeidentificationMap.pseudonymize('patient-id', 'MRN-445566'),
+      modality: 'CR',
+      studyInstanceUid: DeidentificationMap.pseudonymize('uid', '1.2.840.113619.2.55.3')
+    });
+  });
+
+  it('keeps what the retain options name', async () => {
+    const { images: [copy] } = await deidentifyImages([image()], {
+      config: { ...CONFIG, retain: ['dates', 'patient-characteristics', 'uids'] }
+    });
+    expect(copy.metadata).toMatchObject({ patientSex: 'M', studyDate: '20240102', studyInstanceUid: '1.2.840.113619.2.55.3' });
+  });
+
+  it('refuses burned-in annotation that no region covers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const burnedIn = image({ metadata: { modality: 'US', burnedInAnnotation: true } });
+    await expect(deidentifyImages([burnedIn], { config: CONFIG })).rejects.toThrow(/burned-in annotation/);
+    await expect(deidentifyImages([burnedIn], { config: { ...CONFIG, allowBurnedIn: true } })).resolves.toBeDefined();
+  });
+
+  it('blanks the configured regions', async () => {
+    const white = await sharp({ create: { width: 10, height: 10, channels: 3, background: { r: 255, g: 255, b: 255 } } }).png().toBuffer();
+    const burnedIn = image({ base64Data: white.toString('base64'), metadata: { modality: 'US', burnedInAnnotation: true } });
+    const { images: [copy] } = await deidentifyImages([burnedIn], {
+      config: { ...CONFIG, blankRegions: [{ modality: 'US', burnedInOnly: true, x: 0, y: 0, width: 1, height: 0.5 }] }
+    });
+
+    const { data } = await sharp(Buffer.from(copy.base64Data!, 'base64')).raw().toBuffer({ resolveWithObject: true });
+    expect(data[0]).toBe(0); // top row blanked
+    expect(data[data.length - 1]).toBe(255); // bottom row kept
+  });
+});
+
+describe('BatchProcessor.processBatch', () => {
+  function batch(images: MedicalImage[]): ImageBatch {
+    return { id: 'batch-1', images, status: 'pending', createdAt: new Date() };
+  }
+
+  it('de-identifies images and prompt by default', async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('AI_RATE_LIMIT_RPM', '0');
+    const analyze = vi.spyOn(AIClient.prototype, 'analyzeImages');
+
+    const result = await BatchProcessor.processBatch(batch([image({ base64Data: 'iVBORw0KGgo=' })]));
+    expect(result.status).toBe('completed');
+    const prompt = analyze.mock.calls[0][1]!;
+    expect(prompt).toMatch(/image-[0-9a-f]{8}\.dcm/);
+    expect(prompt).not.toMatch(/Doe|John/i);
+  });
+
+  it('removes a patient entered only with the job from the prompt', async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('AI_RATE_LIMIT_RPM', '0');
+    vi.stubEnv('DEID_RETAIN', 'descriptors');
+    const analyze = vi.spyOn(AIClient.prototype, 'analyzeImages');
+
+    const result = await BatchProcessor.processBatch(
+      batch([image({
+        base64Data: 'iVBORw0KGgo=',
+        metadata: { modality: 'CR', studyDescription: 'Chest PA for Mary Roe, MRN-778899' }
+      })]),
+      undefined,
+      undefined,
+      { name: 'Mary Roe', id: 'MRN-778899' }
+    );
+    expect(result.status).toBe('completed');
+    const prompt = analyze.mock.calls[0][1]!;
+    expect(prompt).toContain('Chest PA');
+    expect(prompt).not.toMatch(/Mary|Roe|778899/);
+  });
+
+  it('fails the batch with uncovered burned-in annotation', async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const analyze = vi.spyOn(AIClient.prototype, 'analyzeImages');
+
+    const result = await BatchProcessor.processBatch(batch([image({
+      base64Data: 'iVBORw0KGgo=',
+      metadata: { modality: 'US', burnedInAnnotation: true }
+    })]));
+    expect(result.status).toBe('failed');
+    expect(result.error).toMatch(/DEID_ALLOW_BURNED_IN/);
+    expect(analyze).not.toHaveBeenCalled();
+  });
+});
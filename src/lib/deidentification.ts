@@ -0,0 +1,471 @@
+import { randomBytes, randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { z } from 'zod/v4';
+import { DeidentifiedImages, DiagnosticReport, DicomFrameInfo, DicomMetadata, MedicalImage } from '@/types/medical';
+import { getDatabase } from './db';
+import { sanitizeFileName } from './upload-storage';
+
+/**
+ * De-identification of studies before they are sent to the AI provider,
+ * following the Basic Application Level Confidentiality Profile of DICOM
+ * PS3.15 (Annex E). Identifiers are replaced with pseudonyms that are kept
+ * in the database, so results can be re-identified on the way back.
+ */
+
+export type DeidentificationProfile = 'basic' | 'off';
+
+/**
+ * Profile options that keep attributes the basic profile removes:
+ *
+ * - dates: Retain Longitudinal Temporal Information with Full Dates
+ * - patient-characteristics: Retain Patient Characteristics (sex and age)
+ * - institution: Retain Institution Identity
+ * - uids: Retain UIDs
+ * - descriptors: Clean Descriptors (study and series descriptions, with
+ *   known identifiers replaced)
+ */
+export type DeidentificationRetainOption = 'dates' | 'patient-characteristics' | 'institution' | 'uids' | 'descriptors';
+
+export type PseudonymKind = 'patient-id' | 'patient-name' | 'uid' | 'file';
+
+export interface BlankRegion {
+  modality?: string; // applies to every modality when absent
+  burnedInOnly: boolean; // only images marked as having burned-in annotation
+  x: number; // left edge, as a fraction of the image width
+  y: number; // top edge, as a fraction of the image height
+  width: number;
+  height: number;
+}
+
+export interface DeidentificationConfig {
+  profile: DeidentificationProfile;
+  retain: DeidentificationRetainOption[];
+  blankRegions: BlankRegion[];
+  allowBurnedIn: boolean; // send burned-in annotation no blank region covers
+}
+
+/**
+ * De-identification of the text about a study, without its images
+ */
+export interface TextDeidentifier {
+  patientInfo?: DiagnosticReport['patientInfo'];
+  deidentifyText: (text: string) => string;
+  reidentifyText: (text: string) => string;
+}
+
+const PROFILES: DeidentificationProfile[] = ['basic', 'off'];
+
+const RETAIN_OPTIONS: DeidentificationRetainOption[] = ['dates', 'patient-characteristics', 'institution', 'uids', 'descriptors'];
+
+const fraction = z.number().min(0).max(1);
+
+const blankRegionsSchema = z.array(z.object({
+  modality: z.string().trim().min(1).optional(),
+  burnedInOnly: z.boolean().default(false),
+  x: fraction,
+  y: fraction,
+  width: fraction.positive(),
+  height: fraction.positive()
+}).refine(region => region.x + region.width <= 1 && region.y + region.height <= 1, {
+  message: 'Region must lie within the image'
+}));
+
+/**
+ * Read the de-identification settings from server-side environment variables:
+ *
+ * - DEID_PROFILE: basic (the default) or off, to send studies as they are
+ * - DEID_RETAIN: comma-separated retain options, see DeidentificationRetainOption
+ * - DEID_BLANK_REGIONS: JSON array of regions blanked in the pixels, e.g.
+ *   [{"modality":"US","x":0,"y":0,"width":1,"height":0.1}]; coordinates are
+ *   fractions of the image size, and "burnedInOnly": true limits a region to
+ *   images marked as having burned-in annotation
+ * - DEID_ALLOW_BURNED_IN: true to send images with burned-in annotation that
+ *   no blank region covers; by default their batch fails instead
+ */
+export function getDeidentificationConfig(env: Record<string, string | undefined> = process.env): DeidentificationConfig {
+  const profile = (env.DEID_PROFILE || 'basic').toLowerCase() as DeidentificationProfile;
+  if (!PROFILES.includes(profile)) {
+    throw new Error(`Unknown DEID_PROFILE "${env.DEID_PROFILE}", expected one of: ${PROFILES.join(', ')}`);
+  }
+
+  const retain = (env.DEID_RETAIN || '')
+    .split(',')
+    .map(option => option.trim().toLowerCase())
+    .filter(Boolean) as DeidentificationRetainOption[];
+  const unknown = retain.filter(option => !RETAIN_OPTIONS.includes(option));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown DEID_RETAIN option "${unknown.join(', ')}", expected any of: ${RETAIN_OPTIONS.join(', ')}`);
+  }
+
+  let blankRegions: BlankRegion[] = [];
+  if (env.DEID_BLANK_REGIONS) {
+    let regions: unknown;
+    try {
+      regions = JSON.parse(env.DEID_BLANK_REGIONS);
+    } catch {
+      throw new Error('DEID_BLANK_REGIONS must be a JSON array');
+    }
+    const result = blankRegionsSchema.safeParse(regions);
+    if (!result.success) {
+      throw new Error(`Invalid DEID_BLANK_REGIONS: ${result.error.issues
+        .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+        .join('; ')}`);
+    }
+    blankRegions = result.data;
+  }
+
+  return {
+    profile,
+    retain: Array.from(new Set(retain)),
+    blankRegions,
+    allowBurnedIn: env.DEID_ALLOW_BURNED_IN === 'true'
+  };
+}
+
+type MetadataRule =
+  | { action: 'keep' }
+  | { action: 'remove'; retainedBy?: DeidentificationRetainOption }
+  | { action: 'pseudonymize'; kind: PseudonymKind }
+  | { action: 'remap-uid' };
+
+// What happens to each attribute, per PS3.15 Table E.1-1: remove (X),
+// replace with a dummy (Z, here a pseudonym) or remap a UID (U)
+const METADATA_RULES: Record<keyof DicomMetadata, MetadataRule> = {
+  patientName: { action: 'pseudonymize', kind: 'patient-name' },
+  patientId: { action: 'pseudonymize', kind: 'patient-id' },
+  patientSex: { action: 'remove', retainedBy: 'patient-characteristics' },
+  patientAge: { action: 'remove', retainedBy: 'patient-characteristics' },
+  studyDate: { action: 'remove', retainedBy: 'dates' },
+  studyTime: { action: 'remove', retainedBy: 'dates' },
+  modality: { action: 'keep' },
+  bodyPart: { action: 'keep' },
+  studyDescription: { action: 'remove', retainedBy: 'descriptors' },
+  seriesDescription: { action: 'remove', retainedBy: 'descriptors' },
+  institutionName: { action: 'remove', retainedBy: 'institution' },
+  physicianName: { action: 'remove' },
+  studyInstanceUid: { action: 'remap-uid' },
+  seriesInstanceUid: { action: 'remap-uid' },
+  sopInstanceUid: { action: 'remap-uid' },
+  seriesNumber: { action: 'keep' },
+  instanceNumber: { action: 'keep' },
+  sliceLocation: { action: 'keep' },
+  numberOfFrames: { action: 'keep' },
+  burnedInAnnotation: { action: 'keep' }
+};
+
+const REMOVED = '[removed]';
+
+// Identifiers shorter than this are not replaced in text, where they would match unrelated words and numbers
+const MIN_TEXT_IDENTIFIER_LENGTH = 3;
+
+// Every pseudonym format, to find them in model output
+const PSEUDONYM_PATTERN = /\b(?:ANON-[0-9A-F]{8}|Anonymous [0-9A-F]{8}|image-[0-9a-f]{8}(?:\.[a-z0-9]+)?|2\.25\.\d+)\b/g;
+
+function generatePseudonym(kind: PseudonymKind, original: string): string {
+  const suffix = randomBytes(4).toString('hex');
+  switch (kind) {
+    case 'patient-id':
+      return `ANON-${suffix.toUpperCase()}`;
+    case 'patient-name':
+      return `Anonymous ${suffix.toUpperCase()}`;
+    case 'file':
+      return `image-${suffix}${path.extname(original).toLowerCase().replace(/[^.a-z0-9]/g, '')}`;
+    case 'uid':
+      // A UUID-derived UID, as PS3.5 B.2 describes
+      return `2.25.${BigInt(`0x${randomUUID().replace(/-/g, '')}`).toString()}`;
+  }
+}
+
+/**
+ * Pseudonyms for identifiers. The same identifier always gets the same
+ * pseudonym, so series and studies stay linked across batches and jobs.
+ */
+export class DeidentificationMap {
+  static pseudonymize(kind: PseudonymKind, original: string): string {
+    const db = getDatabase();
+    const select = db.prepare('SELECT pseudonym FROM deid_mappings WHERE kind = ? AND original = ?');
+    const insert = db.prepare(`
+      INSERT INTO deid_mappings (kind, original, pseudonym, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT DO NOTHING
+    `);
+
+    // A new pseudonym that collides with an existing one is not inserted; draw again
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const row = select.get(kind, original) as { pseudonym: string } | undefined;
+      if (row) return row.pseudonym;
+      insert.run(kind, original, generatePseudonym(kind, original), new Date().toISOString());
+    }
+    throw new Error(`Could not assign a pseudonym for ${kind}`);
+  }
+
+  static reidentify(pseudonym: string): { kind: PseudonymKind; original: string } | undefined {
+    return getDatabase()
+      .prepare('SELECT kind, original FROM deid_mappings WHERE pseudonym = ?')
+      .get(pseudonym) as { kind: PseudonymKind; original: string } | undefined;
+  }
+
+  /**
+   * Text with every known pseudonym replaced by the identifier it stands for
+   */
+  static reidentifyText(text: string): string {
+    return text.replace(PSEUDONYM_PATTERN, pseudonym => this.reidentify(pseudonym)?.original ?? pseudonym);
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Replace identifiers in free text, longest first so a name is not replaced
+ * by a pseudonym of part of it. Identifiers match as whole words; an
+ * underscore separates words, as in stored file names.
+ */
+function createTextReplacer(replacements: Map<string, string>): (text: string) => string {
+  const originals = Array.from(replacements.keys())
+    .filter(original => original.length >= MIN_TEXT_IDENTIFIER_LENGTH)
+    .sort((a, b) => b.length - a.length);
+  if (originals.length === 0) return text => text;
+
+  const lookup = new Map(Array.from(replacements, ([original, replacement]) => [original.toLowerCase(), replacement]));
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}.])(?:${originals.map(escapeRegExp).join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  return text => text.replace(pattern, match => lookup.get(match.toLowerCase()) ?? REMOVED);
+}
+
+/**
+ * The ways a person name can be written: as given, e.g. DICOM "DOE^JOHN",
+ * with the parts in either order and separated as in "John Doe", "Doe, John"
+ * or "DOE_JOHN", and each part on its own. Parts shorter than
+ * MIN_TEXT_IDENTIFIER_LENGTH are not replaced in text.
+ */
+function getNameVariants(name: string): string[] {
+  const parts = name.split(/[\^,_\s]+/).filter(Boolean);
+  if (parts.length < 2) return [name, ...parts];
+
+  const [family, ...given] = parts;
+  const orders = [parts, [...given, family]];
+  return [
+    name,
+    ...orders.flatMap(order => ['^', ' ', '_'].map(separator => order.join(separator))),
+    `${family}, ${given.join(' ')}`,
+    ...parts
+  ];
+}
+
+function isRetained(rule: MetadataRule, config: DeidentificationConfig): boolean {
+  return rule.action === 'keep'
+    || (rule.action === 'remove' && !!rule.retainedBy && config.retain.includes(rule.retainedBy))
+    || (rule.action === 'remap-uid' && config.retain.includes('uids'));
+}
+
+/**
+ * What each identifier of the study is replaced with in text: its pseudonym,
+ * or a removal marker for attributes the profile removes
+ */
+function collectReplacements(
+  images: MedicalImage[],
+  config: DeidentificationConfig,
+  patientInfo?: DiagnosticReport['patientInfo']
+): Map<string, string> {
+  const replacements = new Map<string, string>();
+  const add = (original: string | undefined, replacement: () => string) => {
+    const key = original?.trim();
+    if (key && !replacements.has(key)) {
+      replacements.set(key, replacement());
+    }
+  };
+
+  // Every way of writing a name stands for the pseudonym of the name
+  const addName = (name: string | undefined) => {
+    if (!name?.trim()) return;
+    const pseudonym = () => DeidentificationMap.pseudonymize('patient-name', name);
+    getNameVariants(name.trim()).forEach(variant => add(variant, pseudonym));
+  };
+
+  for (const image of images) {
+    const fileAlias = () => DeidentificationMap.pseudonymize('file', image.originalName);
+    add(image.originalName, fileAlias);
+    // As the upload route stores it
+    add(sanitizeFileName(image.originalName), fileAlias);
+
+    const metadata: DicomMetadata = image.metadata ?? {};
+    for (const field of Object.keys(metadata) as (keyof DicomMetadata)[]) {
+      const value = metadata[field];
+      const rule = METADATA_RULES[field];
+      if (typeof value !== 'string' || isRetained(rule, config)) continue;
+      // Descriptors are free text, removed as attributes rather than searched for
+      if (field === 'studyDescription' || field === 'seriesDescription') continue;
+
+      if (rule.action === 'pseudonymize' && rule.kind === 'patient-name') {
+        addName(value);
+      } else if (rule.action === 'pseudonymize') {
+        add(value, () => DeidentificationMap.pseudonymize(rule.kind, value));
+      } else if (rule.action === 'remap-uid') {
+        add(value, () => DeidentificationMap.pseudonymize('uid', value));
+      } else {
+        add(value, () => REMOVED);
+      }
+    }
+
+    const parentUid = image.frame?.parentSopInstanceUid;
+    if (parentUid && !config.retain.includes('uids')) {
+      add(parentUid, () => DeidentificationMap.pseudonymize('uid', parentUid));
+    }
+    if (image.frame?.acquisitionDateTime && !config.retain.includes('dates')) {
+      add(image.frame.acquisitionDateTime, () => REMOVED);
+    }
+  }
+
+  addName(patientInfo?.name);
+  if (patientInfo?.id) add(patientInfo.id, () => DeidentificationMap.pseudonymize('patient-id', patientInfo.id!));
+  if (patientInfo?.studyDate && !config.retain.includes('dates')) add(patientInfo.studyDate, () => REMOVED);
+
+  return replacements;
+}
+
+function deidentifyMetadata(
+  metadata: DicomMetadata,
+  config: DeidentificationConfig,
+  deidentifyText: (text: string) => string
+): DicomMetadata {
+  const entries = Object.entries(metadata).flatMap(([field, value]) => {
+    const rule = METADATA_RULES[field as keyof DicomMetadata];
+    if (value === undefined || !rule) return [];
+    if (isRetained(rule, config)) {
+      // Retained text can still name the patient, e.g. a description with their name in it
+      return [[field, typeof value === 'string' ? deidentifyText(value) : value]];
+    }
+
+    switch (rule.action) {
+      case 'pseudonymize':
+        return [[field, DeidentificationMap.pseudonymize(rule.kind, String(value))]];
+      case 'remap-uid':
+        return [[field, DeidentificationMap.pseudonymize('uid', String(value))]];
+      default:
+        return [];
+    }
+  });
+  return Object.fromEntries(entries) as DicomMetadata;
+}
+
+function deidentifyFrame(frame: DicomFrameInfo, config: DeidentificationConfig): DicomFrameInfo {
+  return {
+    ...frame,
+    parentSopInstanceUid: frame.parentSopInstanceUid && !config.retain.includes('uids')
+      ? DeidentificationMap.pseudonymize('uid', frame.parentSopInstanceUid)
+      : frame.parentSopInstanceUid,
+    acquisitionDateTime: config.retain.includes('dates') ? frame.acquisitionDateTime : undefined
+  };
+}
+
+/**
+ * Regions of the configuration that apply to an image
+ */
+function getBlankRegions(image: MedicalImage, config: DeidentificationConfig): BlankRegion[] {
+  const modality = image.metadata?.modality?.toUpperCase();
+  return config.blankRegions.filter(region =>
+    (!region.modality || region.modality.toUpperCase() === modality)
+    && (!region.burnedInOnly || image.metadata?.burnedInAnnotation === true));
+}
+
+/**
+ * Paint regions of an image black, returning it as a base64 PNG
+ */
+async function blankRegions(base64Data: string, regions: BlankRegion[]): Promise<string> {
+  const input = Buffer.from(base64Data, 'base64');
+  const { width, height } = await sharp(input).metadata();
+  if (!width || !height) {
+    throw new Error('Image size could not be read to blank burned-in annotation');
+  }
+
+  const overlays = await Promise.all(regions.map(async region => {
+    const left = Math.floor(region.x * width);
+    const top = Math.floor(region.y * height);
+    const box = {
+      width: Math.max(1, Math.min(width - left, Math.ceil(region.width * width))),
+      height: Math.max(1, Math.min(height - top, Math.ceil(region.height * height)))
+    };
+    const input = await sharp({ create: { ...box, channels: 3, background: { r: 0, g: 0, b: 0 } } }).png().toBuffer();
+    return { input, left, top };
+  }));
+
+  const output = await sharp(input).composite(overlays).png().toBuffer();
+  return output.toString('base64');
+}
+
+/**
+ * The text transforms for a study: identifiers of the images and the patient
+ * are replaced in text sent out, and pseudonyms in text that comes back are
+ * replaced with the identifiers again. With the profile off, text passes
+ * through unchanged.
+ */
+export function createTextDeidentifier(
+  images: MedicalImage[],
+  options: { patientInfo?: DiagnosticReport['patientInfo']; config?: DeidentificationConfig } = {}
+): TextDeidentifier {
+  const config = options.config ?? getDeidentificationConfig();
+  const { patientInfo } = options;
+  if (config.profile === 'off') {
+    return { patientInfo, deidentifyText: text => text, reidentifyText: text => text };
+  }
+
+  const deidentifyText = createTextReplacer(collectReplacements(images, config, patientInfo));
+  return {
+    patientInfo: patientInfo && {
+      name: patientInfo.name && DeidentificationMap.pseudonymize('patient-name', patientInfo.name),
+      id: patientInfo.id && DeidentificationMap.pseudonymize('patient-id', patientInfo.id),
+      studyDate: config.retain.includes('dates') ? patientInfo.studyDate : undefined,
+      modality: patientInfo.modality
+    },
+    deidentifyText,
+    reidentifyText: text => DeidentificationMap.reidentifyText(text)
+  };
+}
+
+/**
+ * De-identified copies of images to send for analysis: metadata reduced as
+ * the profile says, file names replaced with aliases, server paths dropped
+ * and the configured regions blanked in the pixels. The basic profile cannot
+ * remove text from pixels by itself, so images marked as having burned-in
+ * annotation that no region covers are refused unless DEID_ALLOW_BURNED_IN
+ * is set.
+ */
+export async function deidentifyImages(
+  images: MedicalImage[],
+  options: { patientInfo?: DiagnosticReport['patientInfo']; config?: DeidentificationConfig } = {}
+): Promise<DeidentifiedImages> {
+  const config = options.config ?? getDeidentificationConfig();
+  const text = createTextDeidentifier(images, { ...options, config });
+  if (config.profile === 'off') {
+    return { images, deidentifyText: text.deidentifyText, reidentifyText: text.reidentifyText };
+  }
+
+  const uncovered = images.filter(image => image.metadata?.burnedInAnnotation && getBlankRegions(image, config).length === 0);
+  if (uncovered.length > 0 && !config.allowBurnedIn) {
+    throw new Error(`Not sent for analysis: ${uncovered.map(image => image.originalName).join(', ')} `
+      + 'have burned-in annotation that no DEID_BLANK_REGIONS entry covers. Add a region that blanks it, '
+      + 'or set DEID_ALLOW_BURNED_IN=true to send such images as they are.');
+  }
+
+  const deidentified = await Promise.all(images.map(async image => {
+    const alias = DeidentificationMap.pseudonymize('file', image.originalName);
+    const regions = getBlankRegions(image, config);
+    if (image.metadata?.burnedInAnnotation && regions.length === 0) {
+      console.warn(`Image ${alias} has burned-in annotation and no DEID_BLANK_REGIONS entry covers it; sent as DEID_ALLOW_BURNED_IN is set`);
+    }
+
+    return {
+      ...image,
+      originalName: alias,
+      fileName: alias,
+      filePath: '',
+      convertedPath: undefined,
+      base64Data: image.base64Data && regions.length > 0 ? await blankRegions(image.base64Data, regions) : image.base64Data,
+      frame: image.frame && deidentifyFrame(image.frame, config),
+      metadata: image.metadata && deidentifyMetadata(image.metadata, config, text.deidentifyText)
+    };
+  }));
+
+  return { images: deidentified, deidentifyText: text.deidentifyText, reidentifyText: text.reidentifyText };
+}
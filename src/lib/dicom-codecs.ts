@@ -0,0 +1,224 @@
+import * as jpeg from 'jpeg-js';
+import { Decoder as JpegLosslessDecoder } from 'jpeg-lossless-decoder-js';
+
+/**
+ * Transfer Syntax UIDs, PS3.6 Annex A
+ */
+export const TRANSFER_SYNTAX = {
+  implicitVrLittleEndian: '1.2.840.10008.1.2',
+  explicitVrLittleEndian: '1.2.840.10008.1.2.1',
+  deflatedExplicitVrLittleEndian: '1.2.840.10008.1.2.1.99',
+  explicitVrBigEndian: '1.2.840.10008.1.2.2',
+  rleLossless: '1.2.840.10008.1.2.5',
+  jpegBaseline: '1.2.840.10008.1.2.4.50',
+  jpegExtended: '1.2.840.10008.1.2.4.51',
+  jpegLossless: '1.2.840.10008.1.2.4.57',
+  jpegLosslessSv1: '1.2.840.10008.1.2.4.70',
+  jpegLsLossless: '1.2.840.10008.1.2.4.80',
+  jpegLsNearLossless: '1.2.840.10008.1.2.4.81',
+  jpeg2000Lossless: '1.2.840.10008.1.2.4.90',
+  jpeg2000: '1.2.840.10008.1.2.4.91',
+} as const;
+
+const NATIVE_TRANSFER_SYNTAXES: string[] = [
+  TRANSFER_SYNTAX.implicitVrLittleEndian,
+  TRANSFER_SYNTAX.explicitVrLittleEndian,
+  TRANSFER_SYNTAX.deflatedExplicitVrLittleEndian,
+  TRANSFER_SYNTAX.explicitVrBigEndian,
+];
+
+export interface FrameInfo {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  bitsAllocated: number;
+}
+
+/**
+ * Decoded samples of one frame, interleaved per pixel. Values are the raw
+ * stored bits; masking and sign extension are left to the caller.
+ */
+export type DecodedSamples = Uint8Array | Uint16Array | Uint32Array;
+
+export function isNativeTransferSyntax(transferSyntaxUid: string): boolean {
+  return NATIVE_TRANSFER_SYNTAXES.includes(transferSyntaxUid);
+}
+
+export function isSupportedTransferSyntax(transferSyntaxUid: string): boolean {
+  return Object.values(TRANSFER_SYNTAX).some(uid => uid === transferSyntaxUid);
+}
+
+/**
+ * Whether the decoder converts colour frames to RGB. JPEG decoders undo the
+ * YCbCr / RCT / ICT colour transform; RLE keeps the stored colour space.
+ */
+export function decodesToRgb(transferSyntaxUid: string): boolean {
+  return !isNativeTransferSyntax(transferSyntaxUid) && transferSyntaxUid !== TRANSFER_SYNTAX.rleLossless;
+}
+
+// WASM codecs are initialised on first use and shared afterwards
+let charlsModule: Promise<{ JpegLSDecoder: new () => JpegLSDecoder }> | undefined;
+let openJpegModule: Promise<{ J2KDecoder: new () => EmscriptenDecoder }> | undefined;
+
+function loadCharls() {
+  charlsModule ??= import('@cornerstonejs/codec-charls/decodewasmjs').then(m => m.default());
+  return charlsModule;
+}
+
+function loadOpenJpeg() {
+  // OpenJPEG logs progress for every codestream; keep it out of the server log
+  openJpegModule ??= import('@cornerstonejs/codec-openjpeg/decodewasmjs').then(m => m.default({ print: () => {} }));
+  return openJpegModule;
+}
+
+function interleavePlanes<T extends DecodedSamples>(samples: T, pixelCount: number, samplesPerPixel: number): T {
+  const interleaved = samples.slice() as T;
+  for (let p = 0; p < pixelCount; p++) {
+    for (let s = 0; s < samplesPerPixel; s++) {
+      interleaved[p * samplesPerPixel + s] = samples[s * pixelCount + p];
+    }
+  }
+  return interleaved;
+}
+
+/**
+ * Run an Emscripten decoder and copy the result out of WASM memory
+ */
+function decodeWithEmscripten(
+  decoder: EmscriptenDecoder,
+  frame: Uint8Array,
+  info: FrameInfo,
+  isPlanar: () => boolean = () => false
+): DecodedSamples {
+  try {
+    decoder.getEncodedBuffer(frame.length).set(frame);
+    decoder.decode();
+
+    const decodedInfo = decoder.getFrameInfo();
+    if (decodedInfo.width !== info.width || decodedInfo.height !== info.height) {
+      throw new Error(`Decoded frame is ${decodedInfo.width}x${decodedInfo.height}, expected ${info.width}x${info.height}`);
+    }
+
+    const bytes = decoder.getDecodedBuffer().slice();
+    const samples = decodedInfo.bitsPerSample > 8
+      ? new Uint16Array(bytes.buffer, 0, bytes.byteLength / 2)
+      : bytes;
+
+    return info.samplesPerPixel > 1 && isPlanar()
+      ? interleavePlanes(samples, info.width * info.height, info.samplesPerPixel)
+      : samples;
+  } finally {
+    decoder.delete();
+  }
+}
+
+/**
+ * Decode an RLE Lossless frame, PS3.5 Annex G. Each segment holds one byte
+ * plane (most significant first) of one sample, compressed with PackBits.
+ */
+export function decodeRleFrame(frame: Uint8Array, info: FrameInfo): DecodedSamples {
+  const { width, height, samplesPerPixel, bitsAllocated } = info;
+  const bytesPerSample = bitsAllocated / 8;
+  const pixelCount = width * height;
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+
+  const segmentCount = view.getUint32(0, true);
+  if (segmentCount !== samplesPerPixel * bytesPerSample) {
+    throw new Error(`RLE frame has ${segmentCount} segments, expected ${samplesPerPixel * bytesPerSample}`);
+  }
+
+  const output = bytesPerSample === 1
+    ? new Uint8Array(pixelCount * samplesPerPixel)
+    : bytesPerSample === 2
+      ? new Uint16Array(pixelCount * samplesPerPixel)
+      : new Uint32Array(pixelCount * samplesPerPixel);
+
+  const plane = new Uint8Array(pixelCount);
+  for (let segment = 0; segment < segmentCount; segment++) {
+    const start = view.getUint32(4 + segment * 4, true);
+    const end = segment + 1 < segmentCount ? view.getUint32(8 + segment * 4, true) : frame.length;
+
+    plane.fill(0);
+    let position = start;
+    let written = 0;
+    while (position < end && written < pixelCount) {
+      const header = view.getInt8(position++);
+      if (header >= 0) {
+        const count = Math.min(header + 1, pixelCount - written, end - position);
+        plane.set(frame.subarray(position, position + count), written);
+        position += header + 1;
+        written += count;
+      } else if (header !== -128) {
+        const count = Math.min(1 - header, pixelCount - written);
+        plane.fill(frame[position++], written, written + count);
+        written += count;
+      }
+    }
+
+    const sample = Math.floor(segment / bytesPerSample);
+    const shift = 8 * (bytesPerSample - 1 - (segment % bytesPerSample));
+    for (let p = 0; p < pixelCount; p++) {
+      output[p * samplesPerPixel + sample] += plane[p] * (2 ** shift);
+    }
+  }
+
+  return output;
+}
+
+function decodeJpegBaselineFrame(frame: Uint8Array, info: FrameInfo): DecodedSamples {
+  if (info.bitsAllocated > 8) {
+    throw new Error('12-bit JPEG Extended frames are not supported');
+  }
+
+  // jpeg-js always returns three channels; grayscale frames repeat the value
+  const decoded = jpeg.decode(frame, { useTArray: true, formatAsRGBA: false, tolerantDecoding: true });
+  if (info.samplesPerPixel === 3) {
+    return decoded.data;
+  }
+
+  const gray = new Uint8Array(decoded.width * decoded.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = decoded.data[i * 3];
+  }
+  return gray;
+}
+
+function decodeJpegLosslessFrame(frame: Uint8Array, info: FrameInfo): DecodedSamples {
+  const decoder = new JpegLosslessDecoder();
+  const decoded = decoder.decode(frame.buffer as ArrayBuffer, frame.byteOffset, frame.byteLength, info.bitsAllocated > 8 ? 2 : 1);
+  return decoded;
+}
+
+/**
+ * Decode one encapsulated frame with the codec for its transfer syntax
+ */
+export async function decodeFrame(
+  transferSyntaxUid: string,
+  frame: Uint8Array,
+  info: FrameInfo
+): Promise<DecodedSamples> {
+  switch (transferSyntaxUid) {
+    case TRANSFER_SYNTAX.rleLossless:
+      return decodeRleFrame(frame, info);
+    case TRANSFER_SYNTAX.jpegBaseline:
+    case TRANSFER_SYNTAX.jpegExtended:
+      return decodeJpegBaselineFrame(frame, info);
+    case TRANSFER_SYNTAX.jpegLossless:
+    case TRANSFER_SYNTAX.jpegLosslessSv1:
+      return decodeJpegLosslessFrame(frame, info);
+    case TRANSFER_SYNTAX.jpegLsLossless:
+    case TRANSFER_SYNTAX.jpegLsNearLossless: {
+      const charls = await loadCharls();
+      const decoder = new charls.JpegLSDecoder();
+      // Interleave mode 0 ("none") returns one plane per component
+      return decodeWithEmscripten(decoder, frame, info, () => decoder.getInterleaveMode() === 0);
+    }
+    case TRANSFER_SYNTAX.jpeg2000Lossless:
+    case TRANSFER_SYNTAX.jpeg2000: {
+      const openJpeg = await loadOpenJpeg();
+      return decodeWithEmscripten(new openJpeg.J2KDecoder(), frame, info);
+    }
+    default:
+      throw new Error(`Unsupported transfer syntax: ${transferSyntaxUid}`);
+  }
+}
@@ -1,65 +1,737 @@
-import { DicomMetadata, MedicalImage } from '@/types/medical';
+import * as dicomParser from 'dicom-parser';
+import sharp from 'sharp';
+import { evenlySpacedIndexes } from './utils';
+import { decodeFrame, decodesToRgb, DecodedSamples, isSupportedTransferSyntax, TRANSFER_SYNTAX } from './dicom-codecs';
+import {
+  DicomFrameInfo,
+  DicomLookupTable,
+  DicomMetadata,
+  DicomPixelData,
+  DicomWindow,
+  MedicalImage
+} from '@/types/medical';
+
+/**
+ * DICOM tags in the xGGGGEEEE form used by dicom-parser
+ */
+export const DICOM_TAGS = {
+  transferSyntaxUid: 'x00020010',
+  sopInstanceUid: 'x00080018',
+  studyDate: 'x00080020',
+  studyTime: 'x00080030',
+  modality: 'x00080060',
+  institutionName: 'x00080080',
+  referringPhysicianName: 'x00080090',
+  studyDescription: 'x00081030',
+  seriesDescription: 'x0008103e',
+  performingPhysicianName: 'x00081050',
+  patientName: 'x00100010',
+  patientId: 'x00100020',
+  patientSex: 'x00100040',
+  patientAge: 'x00101010',
+  bodyPartExamined: 'x00180015',
+  frameTime: 'x00181063',
+  frameTimeVector: 'x00181065',
+  frameAcquisitionDateTime: 'x00189074',
+  studyInstanceUid: 'x0020000d',
+  seriesInstanceUid: 'x0020000e',
+  seriesNumber: 'x00200011',
+  instanceNumber: 'x00200013',
+  imagePositionPatient: 'x00200032',
+  sliceLocation: 'x00201041',
+  stackId: 'x00209056',
+  inStackPositionNumber: 'x00209057',
+  frameContentSequence: 'x00209111',
+  planePositionSequence: 'x00209113',
+  temporalPositionIndex: 'x00209128',
+  dimensionIndexValues: 'x00209157',
+  samplesPerPixel: 'x00280002',
+  photometricInterpretation: 'x00280004',
+  planarConfiguration: 'x00280006',
+  numberOfFrames: 'x00280008',
+  burnedInAnnotation: 'x00280301',
+  rows: 'x00280010',
+  columns: 'x00280011',
+  bitsAllocated: 'x00280100',
+  bitsStored: 'x00280101',
+  pixelRepresentation: 'x00280103',
+  rescaleIntercept: 'x00281052',
+  rescaleSlope: 'x00281053',
+  windowCenter: 'x00281050',
+  windowWidth: 'x00281051',
+  windowExplanation: 'x00281055',
+  voiLutFunction: 'x00281056',
+  modalityLutSequence: 'x00283000',
+  lutDescriptor: 'x00283002',
+  lutData: 'x00283006',
+  voiLutSequence: 'x00283010',
+  frameVoiLutSequence: 'x00289132',
+  pixelValueTransformationSequence: 'x00289145',
+  sharedFunctionalGroups: 'x52009229',
+  perFrameFunctionalGroups: 'x52009230',
+  pixelData: 'x7fe00010',
+} as const;
 
 /**
  * Check if a file is a DICOM file based on its content
  */
-export function isDicomFile(buffer: any): boolean {
-  try {
-    // Simple check for DICOM magic number at offset 128
-    if (buffer.length < 132) return false;
-    
-    const bytes = new Uint8Array(buffer);
-    const dicmString = String.fromCharCode(...bytes.slice(128, 132));
-    return dicmString === 'DICM';
-  } catch (error) {
-    return false;
+export function isDicomFile(buffer: Uint8Array): boolean {
+  // DICOM Part 10 files carry the "DICM" magic number after a 128 byte preamble
+  if (buffer.length < 132) return false;
+
+  const dicmString = String.fromCharCode(...buffer.subarray(128, 132));
+  return dicmString === 'DICM';
+}
+
+/**
+ * Parse a DICOM data set. Part 10 files are read using the transfer syntax from
+ * their file meta information; raw data sets without a preamble are assumed to be
+ * implicit VR little endian, as required by PS3.5 for the default transfer syntax.
+ */
+export function parseDicomDataSet(buffer: Uint8Array): dicomParser.DataSet {
+  const byteArray = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  if (isDicomFile(byteArray)) {
+    return dicomParser.parseDicom(byteArray);
   }
+
+  return dicomParser.parseDicom(byteArray, { TransferSyntaxUID: TRANSFER_SYNTAX.implicitVrLittleEndian });
+}
+
+function readString(dataSet: dicomParser.DataSet, tag: string): string | undefined {
+  const value = dataSet.string(tag);
+  return value ? value : undefined;
+}
+
+function readInteger(dataSet: dicomParser.DataSet, tag: string): number | undefined {
+  const value = dataSet.intString(tag);
+  return value === undefined || Number.isNaN(value) ? undefined : value;
+}
+
+function readFloat(dataSet: dicomParser.DataSet, tag: string): number | undefined {
+  const value = dataSet.floatString(tag);
+  return value === undefined || Number.isNaN(value) ? undefined : value;
+}
+
+/**
+ * Format a DICOM person name (PN), e.g. "DOE^JOHN^^DR" -> "Dr John Doe"
+ */
+export function formatPersonName(value?: string): string | undefined {
+  if (!value) return undefined;
+
+  // Only the alphabetic component group is used; ideographic/phonetic groups follow "="
+  const name = dicomParser.parsePN(value.split('=')[0]);
+  const formatted = [name.prefix, name.givenName, name.middleName, name.familyName, name.suffix]
+    .filter(part => part && part.trim())
+    .map(part => part!.trim())
+    .join(' ');
+
+  return formatted || undefined;
+}
+
+/**
+ * Format a DICOM date (DA) as YYYY-MM-DD
+ */
+export function formatDicomDate(value?: string): string | undefined {
+  if (!value) return undefined;
+
+  const match = value.trim().match(/^(\d{4})\.?(\d{2})\.?(\d{2})$/);
+  if (!match) return value.trim() || undefined;
+
+  return `${match[1]}-${match[2]}-${match[3]}`;
 }
 
 /**
- * Extract metadata from DICOM file (simplified version)
+ * Format a DICOM time (TM) as HH:MM:SS
  */
-export function extractDicomMetadata(buffer: any): DicomMetadata {
+export function formatDicomTime(value?: string): string | undefined {
+  if (!value) return undefined;
+
+  const match = value.trim().match(/^(\d{2}):?(\d{2})?:?(\d{2})?/);
+  if (!match) return value.trim() || undefined;
+
+  return [match[1], match[2] || '00', match[3] || '00'].join(':');
+}
+
+/**
+ * Extract metadata from DICOM file
+ */
+export function extractDicomMetadata(buffer: Uint8Array): DicomMetadata {
   try {
-    // Simplified metadata extraction - in real implementation would use dicom-parser
-    return {
-      patientName: 'Unknown',
-      patientId: 'AUTO-GENERATED',
-      studyDate: new Date().toISOString().split('T')[0],
-      studyTime: new Date().toISOString().split('T')[1].split('.')[0],
-      modality: 'Unknown',
+    const dataSet = parseDicomDataSet(buffer);
+
+    const metadata: DicomMetadata = {
+      patientName: formatPersonName(readString(dataSet, DICOM_TAGS.patientName)),
+      patientId: readString(dataSet, DICOM_TAGS.patientId),
+      patientSex: readString(dataSet, DICOM_TAGS.patientSex),
+      patientAge: readString(dataSet, DICOM_TAGS.patientAge),
+      studyDate: formatDicomDate(readString(dataSet, DICOM_TAGS.studyDate)),
+      studyTime: formatDicomTime(readString(dataSet, DICOM_TAGS.studyTime)),
+      modality: readString(dataSet, DICOM_TAGS.modality),
+      bodyPart: readString(dataSet, DICOM_TAGS.bodyPartExamined),
+      studyDescription: readString(dataSet, DICOM_TAGS.studyDescription),
+      seriesDescription: readString(dataSet, DICOM_TAGS.seriesDescription),
+      institutionName: readString(dataSet, DICOM_TAGS.institutionName),
+      physicianName: formatPersonName(
+        readString(dataSet, DICOM_TAGS.referringPhysicianName) ||
+        readString(dataSet, DICOM_TAGS.performingPhysicianName)
+      ),
+      studyInstanceUid: readString(dataSet, DICOM_TAGS.studyInstanceUid),
+      seriesInstanceUid: readString(dataSet, DICOM_TAGS.seriesInstanceUid),
+      sopInstanceUid: readString(dataSet, DICOM_TAGS.sopInstanceUid),
+      seriesNumber: readInteger(dataSet, DICOM_TAGS.seriesNumber),
+      instanceNumber: readInteger(dataSet, DICOM_TAGS.instanceNumber),
+      sliceLocation: readFloat(dataSet, DICOM_TAGS.sliceLocation),
+      numberOfFrames: getNumberOfFrames(dataSet) > 1 ? getNumberOfFrames(dataSet) : undefined,
+      burnedInAnnotation: readString(dataSet, DICOM_TAGS.burnedInAnnotation)
+        ? readString(dataSet, DICOM_TAGS.burnedInAnnotation) === 'YES'
+        : undefined,
     };
+
+    // Drop tags that are absent from the data set
+    return Object.fromEntries(
+      Object.entries(metadata).filter(([, value]) => value !== undefined)
+    ) as DicomMetadata;
   } catch (error) {
     console.error('Error extracting DICOM metadata:', error);
     return {};
   }
 }
 
+function readNumber(dataSet: dicomParser.DataSet, tag: string, fallback: number): number {
+  const value = dataSet.uint16(tag);
+  return value === undefined ? fallback : value;
+}
+
+function readDecimal(dataSet: dicomParser.DataSet, tag: string, fallback: number): number {
+  const value = dataSet.floatString(tag);
+  return value === undefined || Number.isNaN(value) ? fallback : value;
+}
+
+/**
+ * Read the raw samples of one frame of native (uncompressed) pixel data
+ */
+function readNativeFrame(
+  dataSet: dicomParser.DataSet,
+  pixelDataElement: dicomParser.Element,
+  frameIndex: number,
+  sampleCount: number,
+  bitsAllocated: number
+): DecodedSamples {
+  const bytesPerSample = bitsAllocated / 8;
+  if (![1, 2, 4].includes(bytesPerSample)) {
+    throw new Error(`Unsupported Bits Allocated: ${bitsAllocated}`);
+  }
+
+  const frameLength = sampleCount * bytesPerSample;
+  if (pixelDataElement.length < (frameIndex + 1) * frameLength) {
+    throw new Error(`Pixel data is too short for frame ${frameIndex + 1}`);
+  }
+
+  const littleEndian = dataSet.byteArrayParser !== dicomParser.bigEndianByteArrayParser;
+  const { byteArray } = dataSet;
+  const view = new DataView(
+    byteArray.buffer,
+    byteArray.byteOffset + pixelDataElement.dataOffset + frameIndex * frameLength,
+    frameLength
+  );
+
+  if (bytesPerSample === 1) {
+    return new Uint8Array(view.buffer, view.byteOffset, sampleCount);
+  }
+
+  const samples = bytesPerSample === 2 ? new Uint16Array(sampleCount) : new Uint32Array(sampleCount);
+  for (let i = 0; i < sampleCount; i++) {
+    samples[i] = bytesPerSample === 2
+      ? view.getUint16(i * 2, littleEndian)
+      : view.getUint32(i * 4, littleEndian);
+  }
+  return samples;
+}
+
+/**
+ * Convert raw samples to stored values, masking unused high bits and
+ * sign-extending signed samples
+ */
+function toStoredValues(raw: DecodedSamples, bitsStored: number, pixelRepresentation: number): Float32Array {
+  const samples = new Float32Array(raw.length);
+  const modulus = 2 ** Math.min(bitsStored, 32);
+  const signBit = 2 ** (bitsStored - 1);
+
+  for (let i = 0; i < raw.length; i++) {
+    let value = raw[i] % modulus;
+    if (pixelRepresentation === 1 && value >= signBit) {
+      value -= modulus;
+    }
+    samples[i] = value;
+  }
+
+  return samples;
+}
+
+/**
+ * Convert planar configuration 1 (RRR...GGG...BBB...) to interleaved samples
+ */
+function interleavePlanes(samples: Float32Array, pixelCount: number, samplesPerPixel: number): Float32Array {
+  const interleaved = new Float32Array(samples.length);
+  for (let p = 0; p < pixelCount; p++) {
+    for (let s = 0; s < samplesPerPixel; s++) {
+      interleaved[p * samplesPerPixel + s] = samples[s * pixelCount + p];
+    }
+  }
+  return interleaved;
+}
+
+/**
+ * Read the first LUT of a Modality or VOI LUT Sequence
+ */
+function readLookupTable(
+  dataSet: dicomParser.DataSet,
+  sequenceTag: string,
+  pixelRepresentation: number
+): DicomLookupTable | undefined {
+  const item = dataSet.elements[sequenceTag]?.items?.[0]?.dataSet;
+  const lutDataElement = item?.elements[DICOM_TAGS.lutData];
+  if (!item || !lutDataElement || item.uint16(DICOM_TAGS.lutDescriptor, 2) === undefined) {
+    return undefined;
+  }
+
+  const numberOfEntries = item.uint16(DICOM_TAGS.lutDescriptor, 0) || 65536;
+  let firstValueMapped = item.uint16(DICOM_TAGS.lutDescriptor, 1)!;
+  const bitsPerEntry = item.uint16(DICOM_TAGS.lutDescriptor, 2)!;
+
+  // The first value mapped follows the signedness of the input pixel values
+  if (pixelRepresentation === 1 && firstValueMapped >= 0x8000) {
+    firstValueMapped -= 0x10000;
+  }
+
+  const data = new Uint16Array(numberOfEntries);
+  const { byteArray, byteArrayParser } = item;
+  const packedBytes = bitsPerEntry <= 8 && lutDataElement.length === numberOfEntries;
+
+  for (let i = 0; i < numberOfEntries; i++) {
+    data[i] = packedBytes
+      ? byteArray[lutDataElement.dataOffset + i]
+      : byteArrayParser.readUint16(byteArray, lutDataElement.dataOffset + i * 2);
+  }
+
+  return { firstValueMapped, bitsPerEntry, data };
+}
+
+function applyLookupTable(lut: DicomLookupTable, value: number): number {
+  const index = Math.max(0, Math.min(lut.data.length - 1, Math.round(value) - lut.firstValueMapped));
+  return lut.data[index];
+}
+
+/**
+ * Read the Window Center/Width pairs declared in the header
+ */
+function readWindows(dataSet: dicomParser.DataSet): DicomWindow[] {
+  const count = Math.min(
+    dataSet.numStringValues(DICOM_TAGS.windowCenter) || 0,
+    dataSet.numStringValues(DICOM_TAGS.windowWidth) || 0
+  );
+
+  const windows: DicomWindow[] = [];
+  for (let i = 0; i < count; i++) {
+    const center = dataSet.floatString(DICOM_TAGS.windowCenter, i);
+    const width = dataSet.floatString(DICOM_TAGS.windowWidth, i);
+    if (center === undefined || width === undefined || Number.isNaN(center) || !(width > 0)) continue;
+
+    windows.push({ center, width, name: dataSet.string(DICOM_TAGS.windowExplanation, i) || undefined });
+  }
+  return windows;
+}
+
+/**
+ * Find the item of a functional group macro sequence that applies to a frame,
+ * looking in the Per-frame Functional Groups before the Shared ones.
+ */
+function functionalGroup(
+  dataSet: dicomParser.DataSet,
+  frameIndex: number,
+  macroTag: string
+): dicomParser.DataSet | undefined {
+  const perFrame = dataSet.elements[DICOM_TAGS.perFrameFunctionalGroups]?.items?.[frameIndex]?.dataSet;
+  const shared = dataSet.elements[DICOM_TAGS.sharedFunctionalGroups]?.items?.[0]?.dataSet;
+
+  return perFrame?.elements[macroTag]?.items?.[0]?.dataSet ||
+    shared?.elements[macroTag]?.items?.[0]?.dataSet;
+}
+
+export function getNumberOfFrames(dataSet: dicomParser.DataSet): number {
+  return Math.max(1, dataSet.intString(DICOM_TAGS.numberOfFrames) || 1);
+}
+
+/**
+ * Describe one frame of a DICOM object: its position in the parent instance,
+ * timing for cine loops and the per-frame functional group attributes that
+ * locate it in space or time.
+ */
+export function extractFrameInfo(dataSet: dicomParser.DataSet, frameIndex: number): DicomFrameInfo {
+  const info: DicomFrameInfo = {
+    frameNumber: frameIndex + 1,
+    numberOfFrames: getNumberOfFrames(dataSet),
+    parentSopInstanceUid: readString(dataSet, DICOM_TAGS.sopInstanceUid),
+  };
+
+  // Cine timing: a constant Frame Time or a Frame Time Vector of increments
+  const frameTime = dataSet.floatString(DICOM_TAGS.frameTime);
+  if (frameTime !== undefined && !Number.isNaN(frameTime)) {
+    info.frameTimeOffsetMs = Number((frameIndex * frameTime).toFixed(3));
+  } else if (dataSet.elements[DICOM_TAGS.frameTimeVector]) {
+    let offset = 0;
+    for (let i = 1; i <= frameIndex; i++) {
+      offset += dataSet.floatString(DICOM_TAGS.frameTimeVector, i) || 0;
+    }
+    info.frameTimeOffsetMs = Number(offset.toFixed(3));
+  }
+
+  const frameContent = functionalGroup(dataSet, frameIndex, DICOM_TAGS.frameContentSequence);
+  if (frameContent) {
+    const dimensionIndexElement = frameContent.elements[DICOM_TAGS.dimensionIndexValues];
+    if (dimensionIndexElement) {
+      info.dimensionIndexValues = Array.from(
+        { length: dimensionIndexElement.length / 4 },
+        (_, i) => frameContent.uint32(DICOM_TAGS.dimensionIndexValues, i)!
+      );
+    }
+    info.stackId = readString(frameContent, DICOM_TAGS.stackId);
+    info.inStackPositionNumber = frameContent.uint32(DICOM_TAGS.inStackPositionNumber);
+    info.temporalPositionIndex = frameContent.uint32(DICOM_TAGS.temporalPositionIndex);
+    info.acquisitionDateTime = readString(frameContent, DICOM_TAGS.frameAcquisitionDateTime);
+  }
+
+  const planePosition = functionalGroup(dataSet, frameIndex, DICOM_TAGS.planePositionSequence);
+  if (planePosition?.elements[DICOM_TAGS.imagePositionPatient]) {
+    info.imagePositionPatient = [0, 1, 2].map(i => planePosition.floatString(DICOM_TAGS.imagePositionPatient, i) || 0);
+  }
+
+  // Drop attributes that are absent for this frame
+  return Object.fromEntries(
+    Object.entries(info).filter(([, value]) => value !== undefined)
+  ) as DicomFrameInfo;
+}
+
+/**
+ * Read one frame of encapsulated pixel data. The Basic Offset Table locates
+ * frames when present; otherwise single-frame images use all fragments and
+ * multi-frame images have their offsets derived from JPEG start-of-image markers.
+ */
+function readEncapsulatedFrame(
+  dataSet: dicomParser.DataSet,
+  pixelDataElement: dicomParser.Element,
+  frameIndex: number
+): Uint8Array {
+  const fragments = pixelDataElement.fragments || [];
+  if (fragments.length === 0) {
+    throw new Error('Encapsulated pixel data has no fragments');
+  }
+
+  const numberOfFrames = getNumberOfFrames(dataSet);
+  const basicOffsetTable = pixelDataElement.basicOffsetTable || [];
+
+  if (basicOffsetTable.length === 0 && numberOfFrames === 1) {
+    return new Uint8Array(dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, 0, fragments.length));
+  }
+
+  if (basicOffsetTable.length === 0 && numberOfFrames === fragments.length) {
+    return new Uint8Array(dicomParser.readEncapsulatedPixelDataFromFragments(dataSet, pixelDataElement, frameIndex, 1));
+  }
+
+  const offsets = basicOffsetTable.length > 0
+    ? basicOffsetTable
+    : dicomParser.createJPEGBasicOffsetTable(dataSet, pixelDataElement);
+
+  return new Uint8Array(dicomParser.readEncapsulatedImageFrame(dataSet, pixelDataElement, frameIndex, offsets));
+}
+
+/**
+ * Read one frame of a parsed data set. Values are returned after applying the
+ * Modality LUT, or Rescale Slope/Intercept when the file has no Modality LUT
+ * Sequence. Encapsulated pixel data is decoded with the codec for the file's
+ * transfer syntax. Enhanced multi-frame objects take their rescale and window
+ * values from the functional groups of the frame.
+ */
+async function readPixelFrame(dataSet: dicomParser.DataSet, frameIndex: number): Promise<DicomPixelData> {
+  const pixelDataElement = dataSet.elements[DICOM_TAGS.pixelData];
+
+  if (!pixelDataElement) {
+    throw new Error('DICOM file has no Pixel Data element');
+  }
+
+  const transferSyntaxUid = readString(dataSet, DICOM_TAGS.transferSyntaxUid) || TRANSFER_SYNTAX.implicitVrLittleEndian;
+  const encapsulated = !!pixelDataElement.encapsulatedPixelData;
+  if (encapsulated && !isSupportedTransferSyntax(transferSyntaxUid)) {
+    throw new Error(`Unsupported transfer syntax: ${transferSyntaxUid}`);
+  }
+
+  const width = readNumber(dataSet, DICOM_TAGS.columns, 0);
+  const height = readNumber(dataSet, DICOM_TAGS.rows, 0);
+  if (!width || !height) {
+    throw new Error('DICOM file is missing Rows/Columns');
+  }
+
+  const samplesPerPixel = readNumber(dataSet, DICOM_TAGS.samplesPerPixel, 1);
+  const bitsAllocated = readNumber(dataSet, DICOM_TAGS.bitsAllocated, 16);
+  const bitsStored = readNumber(dataSet, DICOM_TAGS.bitsStored, bitsAllocated);
+  const pixelRepresentation = readNumber(dataSet, DICOM_TAGS.pixelRepresentation, 0);
+  const planarConfiguration = readNumber(dataSet, DICOM_TAGS.planarConfiguration, 0);
+  const storedPhotometric = readString(dataSet, DICOM_TAGS.photometricInterpretation) ||
+    (samplesPerPixel === 3 ? 'RGB' : 'MONOCHROME2');
+  // Colour frames come out of the JPEG family decoders already converted to RGB
+  const photometricInterpretation = encapsulated && samplesPerPixel === 3 && decodesToRgb(transferSyntaxUid)
+    ? 'RGB'
+    : storedPhotometric;
+  const numberOfFrames = getNumberOfFrames(dataSet);
+  if (frameIndex < 0 || frameIndex >= numberOfFrames) {
+    throw new Error(`Frame ${frameIndex + 1} is out of range (${numberOfFrames} frames)`);
+  }
+
+  const pixelTransformation = functionalGroup(dataSet, frameIndex, DICOM_TAGS.pixelValueTransformationSequence) || dataSet;
+  const rescaleSlope = readDecimal(pixelTransformation, DICOM_TAGS.rescaleSlope, 1);
+  const rescaleIntercept = readDecimal(pixelTransformation, DICOM_TAGS.rescaleIntercept, 0);
+  const frameVoi = functionalGroup(dataSet, frameIndex, DICOM_TAGS.frameVoiLutSequence) || dataSet;
+
+  const pixelCount = width * height;
+  const frameInfo = { width, height, samplesPerPixel, bitsAllocated };
+  const rawSamples = encapsulated
+    ? await decodeFrame(transferSyntaxUid, readEncapsulatedFrame(dataSet, pixelDataElement, frameIndex), frameInfo)
+    : readNativeFrame(dataSet, pixelDataElement, frameIndex, pixelCount * samplesPerPixel, bitsAllocated);
+
+  if (rawSamples.length < pixelCount * samplesPerPixel) {
+    throw new Error('Decoded frame is shorter than Rows x Columns x Samples per Pixel');
+  }
+
+  let pixelData = toStoredValues(rawSamples.subarray(0, pixelCount * samplesPerPixel), bitsStored, pixelRepresentation);
+
+  // Decoders always return interleaved samples, whatever the Planar Configuration says
+  if (!encapsulated && samplesPerPixel > 1 && planarConfiguration === 1) {
+    pixelData = interleavePlanes(pixelData, pixelCount, samplesPerPixel);
+  }
+
+  // The modality transformation only applies to single-sample (grayscale) images
+  const modalityLut = samplesPerPixel === 1
+    ? readLookupTable(dataSet, DICOM_TAGS.modalityLutSequence, pixelRepresentation)
+    : undefined;
+
+  if (modalityLut) {
+    for (let i = 0; i < pixelData.length; i++) {
+      pixelData[i] = applyLookupTable(modalityLut, pixelData[i]);
+    }
+  } else if (samplesPerPixel === 1 && (rescaleSlope !== 1 || rescaleIntercept !== 0)) {
+    for (let i = 0; i < pixelData.length; i++) {
+      pixelData[i] = pixelData[i] * rescaleSlope + rescaleIntercept;
+    }
+  }
+
+  const voiLutFunction = readString(frameVoi, DICOM_TAGS.voiLutFunction);
+  // VOI LUT input is the modality output, which is only negative after a rescale
+  const voiInputSigned = !modalityLut && (pixelRepresentation === 1 || rescaleIntercept < 0);
+
+  return {
+    pixelData,
+    width,
+    height,
+    samplesPerPixel,
+    photometricInterpretation,
+    bitsAllocated,
+    bitsStored,
+    pixelRepresentation,
+    rescaleSlope,
+    rescaleIntercept,
+    windows: readWindows(frameVoi),
+    voiLutFunction: voiLutFunction === 'LINEAR_EXACT' || voiLutFunction === 'SIGMOID' ? voiLutFunction : 'LINEAR',
+    voiLut: readLookupTable(dataSet, DICOM_TAGS.voiLutSequence, voiInputSigned ? 1 : 0),
+  };
+}
+
 /**
- * Extract pixel data from DICOM file (simplified version)
+ * Extract pixel data of one frame (the first by default) from DICOM file
  */
-export function extractPixelData(buffer: any): {
-  pixelData: Uint8Array;
-  width: number;
-  height: number;
-  samplesPerPixel: number;
-  photometricInterpretation: string;
-} | null {
+export async function extractPixelData(buffer: Uint8Array, frameIndex: number = 0): Promise<DicomPixelData | null> {
   try {
-    // Simplified implementation - would need proper DICOM parsing in real use
-    return {
-      pixelData: new Uint8Array(512 * 512), // Dummy data
-      width: 512,
-      height: 512,
-      samplesPerPixel: 1,
-      photometricInterpretation: 'MONOCHROME2',
-    };
+    return await readPixelFrame(parseDicomDataSet(buffer), frameIndex);
   } catch (error) {
     console.error('Error extracting pixel data:', error);
     return null;
   }
 }
 
+/**
+ * Build the VOI transformation for a window, per PS3.3 C.11.2.1.2
+ */
+function windowTransform(window: DicomWindow, fn: DicomPixelData['voiLutFunction']): (value: number) => number {
+  const { center, width } = window;
+
+  if (fn === 'SIGMOID') {
+    return value => 255 / (1 + Math.exp((-4 * (value - center)) / width));
+  }
+
+  if (fn === 'LINEAR_EXACT') {
+    return value => {
+      if (value <= center - width / 2) return 0;
+      if (value > center + width / 2) return 255;
+      return ((value - center) / width + 0.5) * 255;
+    };
+  }
+
+  return value => {
+    if (width <= 1) return value < center ? 0 : 255;
+    if (value <= center - 0.5 - (width - 1) / 2) return 0;
+    if (value > center - 0.5 + (width - 1) / 2) return 255;
+    return ((value - (center - 0.5)) / (width - 1) + 0.5) * 255;
+  };
+}
+
+/**
+ * Choose the grayscale VOI transformation: an explicitly requested window,
+ * then the VOI LUT Sequence, then the first header window, and finally a
+ * linear mapping between the minimum and maximum pixel value.
+ */
+function voiTransform(pixels: DicomPixelData, window?: DicomWindow): (value: number) => number {
+  if (window) {
+    return windowTransform(window, pixels.voiLutFunction);
+  }
+
+  const { voiLut } = pixels;
+  if (voiLut) {
+    const scale = 255 / ((2 ** voiLut.bitsPerEntry) - 1);
+    return value => applyLookupTable(voiLut, value) * scale;
+  }
+
+  if (pixels.windows.length > 0) {
+    return windowTransform(pixels.windows[0], pixels.voiLutFunction);
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixels.pixelData.length; i++) {
+    if (pixels.pixelData[i] < min) min = pixels.pixelData[i];
+    if (pixels.pixelData[i] > max) max = pixels.pixelData[i];
+  }
+
+  const range = max - min || 1;
+  return value => ((value - min) / range) * 255;
+}
+
+/**
+ * Map pixel values to 8-bit display samples. Grayscale images go through the
+ * VOI transformation (inverted for MONOCHROME1); colour images are scaled by
+ * their bit depth and converted from YBR_FULL to RGB.
+ */
+export function renderPixelData(pixels: DicomPixelData, window?: DicomWindow): { data: Uint8Array; channels: 1 | 3 } {
+  const { pixelData, photometricInterpretation, samplesPerPixel } = pixels;
+
+  if (samplesPerPixel === 1) {
+    const transform = voiTransform(pixels, window);
+    const invert = photometricInterpretation === 'MONOCHROME1';
+    const data = new Uint8Array(pixelData.length);
+    for (let i = 0; i < pixelData.length; i++) {
+      const value = Math.max(0, Math.min(255, Math.round(transform(pixelData[i]))));
+      data[i] = invert ? 255 - value : value;
+    }
+    return { data, channels: 1 };
+  }
+
+  if (samplesPerPixel !== 3) {
+    throw new Error(`Unsupported Samples per Pixel: ${samplesPerPixel}`);
+  }
+
+  const scale = 255 / ((2 ** pixels.bitsStored) - 1);
+  const isYbr = photometricInterpretation === 'YBR_FULL';
+  if (!isYbr && photometricInterpretation !== 'RGB') {
+    throw new Error(`Unsupported Photometric Interpretation: ${photometricInterpretation}`);
+  }
+
+  const clamp = (value: number) => Math.max(0, Math.min(255, Math.round(value)));
+  const data = new Uint8Array(pixelData.length);
+  for (let i = 0; i < pixelData.length; i += 3) {
+    const a = pixelData[i] * scale;
+    const b = pixelData[i + 1] * scale;
+    const c = pixelData[i + 2] * scale;
+
+    if (isYbr) {
+      data[i] = clamp(a + 1.402 * (c - 128));
+      data[i + 1] = clamp(a - 0.344136 * (b - 128) - 0.714136 * (c - 128));
+      data[i + 2] = clamp(a + 1.772 * (b - 128));
+    } else {
+      data[i] = clamp(a);
+      data[i + 1] = clamp(b);
+      data[i + 2] = clamp(c);
+    }
+  }
+  return { data, channels: 3 };
+}
+
+export interface DicomRenderOptions {
+  window?: DicomWindow;
+  maxDimension?: number;
+}
+
+/**
+ * Render extracted pixel data to a PNG suitable for AI analysis
+ */
+export async function renderDicomPng(pixels: DicomPixelData, options: DicomRenderOptions = {}): Promise<Buffer> {
+  const { window, maxDimension = 1024 } = options;
+  const { data, channels } = renderPixelData(pixels, window);
+
+  return sharp(Buffer.from(data.buffer, data.byteOffset, data.byteLength), {
+    raw: { width: pixels.width, height: pixels.height, channels },
+  })
+    .resize(maxDimension, maxDimension, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+}
+
+/**
+ * Convert a DICOM file to a PNG suitable for AI analysis
+ */
+export async function convertDicomToPng(buffer: Uint8Array, options: DicomRenderOptions = {}): Promise<Buffer> {
+  const pixels = await extractPixelData(buffer);
+  if (!pixels) {
+    throw new Error('Unable to read DICOM pixel data');
+  }
+
+  return renderDicomPng(pixels, options);
+}
+
+export interface DicomRendition {
+  png: Buffer;
+  window?: DicomWindow;
+  frame?: DicomFrameInfo;
+}
+
+/**
+ * Render every frame selected for analysis under each requested window.
+ * Multi-frame objects are split into one rendition per frame, evenly
+ * sub-sampled to `maxFrames` when given; windows only apply to grayscale frames.
+ */
+export async function renderDicomFile(
+  buffer: Uint8Array,
+  options: { windows?: DicomWindow[]; maxFrames?: number; maxDimension?: number } = {}
+): Promise<DicomRendition[]> {
+  const dataSet = parseDicomDataSet(buffer);
+  const numberOfFrames = getNumberOfFrames(dataSet);
+  const frameIndexes = evenlySpacedIndexes(numberOfFrames, options.maxFrames || numberOfFrames);
+
+  const renditions: DicomRendition[] = [];
+  for (const frameIndex of frameIndexes) {
+    const pixels = await readPixelFrame(dataSet, frameIndex);
+    const frame = numberOfFrames > 1 ? extractFrameInfo(dataSet, frameIndex) : undefined;
+    const windows: (DicomWindow | undefined)[] = pixels.samplesPerPixel === 1 && options.windows?.length
+      ? options.windows
+      : [undefined];
+
+    for (const window of windows) {
+      const png = await renderDicomPng(pixels, { window, maxDimension: options.maxDimension });
+      renditions.push({ png, window, frame });
+    }
+  }
+
+  return renditions;
+}
+
 /**
  * Validate medical image file
  */
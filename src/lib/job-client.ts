@@ -0,0 +1,301 @@
+import type { AuthUser } from './auth';
+import { CriticalAlert, ProcessingJob, ProcessingStatus } from '@/types/medical';
+import {
+  ExportOptions,
+  ReportAction,
+  ReportContent,
+  ReportDiff,
+  ReportPage,
+  ReportSearchQuery,
+  ReportSynthesis,
+  ReportVersionSummary,
+  StoredReport
+} from '@/types/report';
+
+export type JobAction = 'pause' | 'resume' | 'cancel' | 'retry-failed';
+
+export interface JobUpdate {
+  job: ProcessingJob;
+  status: ProcessingStatus;
+}
+
+/**
+ * Browser helpers for following and controlling processing jobs
+ */
+
+export function isJobFinished(job: ProcessingJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Stream progress of a job until it completes, fails or is cancelled.
+ * Resolves with the final state of the job.
+ */
+export function watchJob(jobId: string, onProgress: (update: JobUpdate) => void): Promise<ProcessingJob> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/process-batch/events?jobId=${encodeURIComponent(jobId)}`);
+
+    events.addEventListener('progress', (event) => {
+      const update: JobUpdate = JSON.parse((event as MessageEvent).data);
+      onProgress(update);
+
+      if (isJobFinished(update.job)) {
+        events.close();
+        resolve(update.job);
+      }
+    });
+
+    // The browser reconnects after dropped connections; a closed source means the job is gone
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        reject(new Error('Lost connection to the processing job'));
+      }
+    };
+  });
+}
+
+export async function controlJob(jobId: string, action: JobAction): Promise<JobUpdate> {
+  const response = await fetch('/api/process-batch', {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ jobId, action }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to ${action} processing`);
+  }
+  return data;
+}
+
+/**
+ * Build the report of a finished job from all of its batch results
+ */
+export async function generateJobReport(jobId: string) {
+  const response = await fetch('/api/generate-report', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      jobId,
+      exportFormat: 'PDF'
+    }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Report generation failed');
+  }
+  return data;
+}
+
+/**
+ * A report generated earlier, in the shape returned by generateJobReport
+ */
+export async function getReport(reportId: string) {
+  const response = await fetch(`/api/generate-report?reportId=${encodeURIComponent(reportId)}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load report');
+  }
+  return data;
+}
+
+/**
+ * The signed-in user, who signs the reports reviewed in this browser
+ */
+export async function getSessionUser(): Promise<AuthUser> {
+  const response = await fetch('/api/session');
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load the signed-in user');
+  }
+  return data.user;
+}
+
+/**
+ * Save edits to a report that has not been signed
+ */
+export async function updateReport(reportId: string, content: ReportContent): Promise<StoredReport> {
+  const response = await fetch(`/api/reports/${encodeURIComponent(reportId)}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(content),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to save report');
+  }
+  return data.report;
+}
+
+/**
+ * Move a report through review: submit, sign, reopen or amend it
+ */
+export async function reviewReport(
+  reportId: string,
+  action: ReportAction,
+  details: { reason?: string; content?: ReportContent } = {}
+): Promise<StoredReport> {
+  const response = await fetch(`/api/reports/${encodeURIComponent(reportId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action, ...details }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update report status');
+  }
+  return data.report;
+}
+
+/**
+ * Append an addendum to a final report, written by the signed-in user
+ */
+export async function addReportAddendum(reportId: string, addendum: { text: string }): Promise<StoredReport> {
+  const response = await fetch(`/api/reports/${encodeURIComponent(reportId)}/addenda`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(addendum),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to add addendum');
+  }
+  return data.report;
+}
+
+export async function getReportVersions(reportId: string): Promise<ReportVersionSummary[]> {
+  const response = await fetch(`/api/reports/${encodeURIComponent(reportId)}/versions`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load report versions');
+  }
+  return data.versions;
+}
+
+/**
+ * Changes between two versions of a report, by default from the AI draft
+ * to the current version
+ */
+export async function getReportDiff(reportId: string, from?: number, to?: number): Promise<ReportDiff> {
+  const params = new URLSearchParams();
+  if (from) params.set('from', String(from));
+  if (to) params.set('to', String(to));
+  const response = await fetch(`/api/reports/${encodeURIComponent(reportId)}/diff?${params}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to compare report versions');
+  }
+  return data;
+}
+
+/**
+ * Search the report history; an empty query lists every report
+ */
+export async function searchReports(query: ReportSearchQuery = {}): Promise<ReportPage> {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const response = await fetch(`/api/reports?${params}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Report search failed');
+  }
+  return data;
+}
+
+/**
+ * Critical result alerts, newest first; open alerts are not acknowledged yet
+ */
+export async function getCriticalAlerts(query: { status?: 'open' | 'acknowledged' | 'all'; jobId?: string } = {}): Promise<CriticalAlert[]> {
+  const params = new URLSearchParams();
+  if (query.status) params.set('status', query.status);
+  if (query.jobId) params.set('jobId', query.jobId);
+  const response = await fetch(`/api/critical-alerts?${params}`);
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load critical alerts');
+  }
+  return data.alerts;
+}
+
+/**
+ * Acknowledge a critical result alert as the signed-in user, or send it
+ * again after its delivery failed
+ */
+export async function updateCriticalAlert(alertId: string, action: 'acknowledge' | 'resend'): Promise<CriticalAlert> {
+  const response = await fetch(`/api/critical-alerts/${encodeURIComponent(alertId)}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to update critical alert');
+  }
+  return data.alert;
+}
+
+const EXPORT_EXTENSIONS: Record<ExportOptions['format'], string> = { PDF: 'pdf', HTML: 'html', MARKDOWN: 'md' };
+
+async function downloadExport(body: object, options: ExportOptions, fallbackName: string) {
+  const response = await fetch('/api/export-report', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ ...body, options }),
+  });
+
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Report export failed');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || `${fallbackName}.${EXPORT_EXTENSIONS[options.format]}`;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export the report of a finished job and save it as a download. Pass the
+ * consolidated report on screen so the file matches it.
+ */
+export async function exportJobReport(jobId: string, options: ExportOptions, synthesis?: ReportSynthesis) {
+  await downloadExport({ jobId, synthesis }, options, `radiology-report-${jobId}`);
+}
+
+/**
+ * Export a stored report as reviewed, with its status and sign-offs
+ */
+export async function exportStoredReport(reportId: string, options: ExportOptions) {
+  await downloadExport({ reportId }, options, `radiology-report-${reportId}`);
+}
@@ -0,0 +1,22 @@
+import { EventEmitter } from 'events';
+
+// One emitter per process, shared by the worker and open event streams
+const globalForEvents = globalThis as unknown as { jobEvents?: EventEmitter };
+const emitter = (globalForEvents.jobEvents ??= new EventEmitter().setMaxListeners(0));
+
+/**
+ * Notify subscribers that the state of a job or one of its batches changed
+ */
+export function publishJobUpdate(jobId: string) {
+  emitter.emit(jobId);
+}
+
+/**
+ * Listen for updates to a job. Returns a function that unsubscribes.
+ */
+export function subscribeToJob(jobId: string, listener: () => void): () => void {
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -0,0 +1,410 @@
+import { randomUUID } from 'crypto';
+import { ImageBatch, ImageBatchSummary, MedicalImage, ProcessingJob, ProcessingStatus } from '@/types/medical';
+import { BatchProcessor } from './batch-processor';
+import { getDatabase } from './db';
+import { publishJobUpdate } from './job-events';
+import { UploadStorage } from './upload-storage';
+
+interface JobRow {
+  id: string;
+  status: ProcessingJob['status'];
+  system_prompt: string | null;
+  patient_info: string | null;
+  template: string | null;
+  total_images: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  total_batches: number;
+  completed_batches: number;
+  failed_batches: number;
+}
+
+interface BatchSummaryRow {
+  id: string;
+  job_id: string;
+  series_key: string | null;
+  series_image_count: number | null;
+  estimated_tokens: number | null;
+  image_count: number;
+  status: ImageBatch['status'];
+  ai_response: string | null;
+  error: string | null;
+  retry_count: number;
+  critical_findings: string | null;
+  created_at: string;
+  completed_at: string | null;
+}
+
+interface BatchRow extends BatchSummaryRow {
+  images: string;
+}
+
+/**
+ * Thrown when a job control action does not apply to the job's current state
+ */
+export class JobStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JobStateError';
+  }
+}
+
+export interface ClaimedBatch {
+  batch: ImageBatch;
+  systemPrompt?: string;
+  patientInfo?: ProcessingJob['patientInfo'];
+}
+
+// Every batch column except the stored images
+const BATCH_SUMMARY_COLUMNS = `
+  id, job_id, series_key, series_image_count, estimated_tokens, image_count,
+  status, ai_response, error, retry_count, critical_findings, created_at, completed_at
+`;
+
+const JOB_COLUMNS = `
+  jobs.*,
+  (SELECT COUNT(*) FROM batches WHERE job_id = jobs.id) AS total_batches,
+  (SELECT COUNT(*) FROM batches WHERE job_id = jobs.id AND status = 'completed') AS completed_batches,
+  (SELECT COUNT(*) FROM batches WHERE job_id = jobs.id AND status = 'failed') AS failed_batches
+`;
+
+function toJob(row: JobRow): ProcessingJob {
+  return {
+    id: row.id,
+    status: row.status,
+    systemPrompt: row.system_prompt ?? undefined,
+    patientInfo: row.patient_info ? JSON.parse(row.patient_info) : undefined,
+    template: row.template ? JSON.parse(row.template) : undefined,
+    totalImages: row.total_images,
+    totalBatches: row.total_batches,
+    completedBatches: row.completed_batches,
+    failedBatches: row.failed_batches,
+    error: row.error ?? undefined,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+  };
+}
+
+function toBatchFields(row: BatchSummaryRow): Omit<ImageBatch, 'images'> {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    seriesKey: row.series_key ?? undefined,
+    seriesImageCount: row.series_image_count ?? undefined,
+    estimatedTokens: row.estimated_tokens ?? undefined,
+    status: row.status,
+    aiResponse: row.ai_response ?? undefined,
+    error: row.error ?? undefined,
+    retryCount: row.retry_count,
+    criticalFindings: row.critical_findings ? JSON.parse(row.critical_findings) : undefined,
+    createdAt: new Date(row.created_at),
+    completedAt: row.completed_at ? new Date(row.completed_at) : undefined
+  };
+}
+
+function toBatchSummary(row: BatchSummaryRow): ImageBatchSummary {
+  return { ...toBatchFields(row), imageCount: row.image_count };
+}
+
+/**
+ * Map a batch row. Images are stored without their data, which is read
+ * from upload storage when needed.
+ */
+function toBatch(row: BatchRow): ImageBatch {
+  return { ...toBatchFields(row), images: JSON.parse(row.images) };
+}
+
+/**
+ * Close a running job once none of its batches are left to run. Paused and
+ * cancelled jobs keep their status. Call inside a transaction.
+ */
+function finishJobIfDone(jobId: string, now: string) {
+  const db = getDatabase();
+  const counts = db.prepare(`
+    SELECT
+      COUNT(*) AS total,
+      SUM(status = 'failed') AS failed,
+      SUM(status IN ('pending', 'processing')) AS remaining
+    FROM batches WHERE job_id = ?
+  `).get(jobId) as { total: number; failed: number; remaining: number };
+
+  if (counts.remaining === 0) {
+    const failed = counts.failed === counts.total;
+    db.prepare(`
+      UPDATE jobs SET status = ?, error = ?, updated_at = ?, completed_at = ?
+      WHERE id = ? AND status IN ('queued', 'processing')
+    `).run(failed ? 'failed' : 'completed', failed ? 'All batches failed' : null, now, now, jobId);
+  } else {
+    db.prepare('UPDATE jobs SET updated_at = ? WHERE id = ?').run(now, jobId);
+  }
+}
+
+/**
+ * Durable queue of processing jobs. A job owns the batches planned for one
+ * submission; workers claim pending batches one at a time, so progress
+ * survives page refreshes and server restarts.
+ */
+export class JobQueue {
+  static createJob(
+    images: MedicalImage[],
+    options: Pick<ProcessingJob, 'systemPrompt' | 'patientInfo' | 'template'> = {}
+  ): ProcessingJob {
+    const db = getDatabase();
+    const jobId = `job_${randomUUID()}`;
+    const now = new Date().toISOString();
+    const batches = BatchProcessor.createBatches(images);
+
+    const insertJob = db.prepare(`
+      INSERT INTO jobs (id, status, system_prompt, patient_info, template, total_images, created_at, updated_at)
+      VALUES (?, 'queued', ?, ?, ?, ?, ?, ?)
+    `);
+    const insertBatch = db.prepare(`
+      INSERT INTO batches (id, job_id, position, series_key, series_image_count, estimated_tokens, images, image_count, status, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)
+    `);
+
+    db.transaction(() => {
+      insertJob.run(
+        jobId,
+        options.systemPrompt ?? null,
+        options.patientInfo ? JSON.stringify(options.patientInfo) : null,
+        options.template ? JSON.stringify(options.template) : null,
+        images.length,
+        now,
+        now
+      );
+      batches.forEach((batch, position) => {
+        insertBatch.run(
+          `${jobId}_batch_${position}`,
+          jobId,
+          position,
+          batch.seriesKey ?? null,
+          batch.seriesImageCount ?? null,
+          batch.estimatedTokens ?? null,
+          JSON.stringify(batch.images.map(image => ({ ...image, base64Data: undefined }))),
+          batch.images.length,
+          now
+        );
+      });
+      UploadStorage.assignToJob(jobId, images);
+    })();
+
+    return this.getJob(jobId)!;
+  }
+
+  static getJob(jobId: string): ProcessingJob | undefined {
+    const row = getDatabase()
+      .prepare(`SELECT ${JOB_COLUMNS} FROM jobs WHERE id = ?`)
+      .get(jobId) as JobRow | undefined;
+    return row && toJob(row);
+  }
+
+  static getBatch(batchId: string): ImageBatch | undefined {
+    const row = getDatabase()
+      .prepare('SELECT * FROM batches WHERE id = ?')
+      .get(batchId) as BatchRow | undefined;
+    return row && toBatch(row);
+  }
+
+  static getJobBatches(jobId: string): ImageBatch[] {
+    const rows = getDatabase()
+      .prepare('SELECT * FROM batches WHERE job_id = ? ORDER BY position')
+      .all(jobId) as BatchRow[];
+    return rows.map(toBatch);
+  }
+
+  /**
+   * Batches of a job without their images, cheap enough to read on every update
+   */
+  static getJobBatchSummaries(jobId: string): ImageBatchSummary[] {
+    const rows = getDatabase()
+      .prepare(`SELECT ${BATCH_SUMMARY_COLUMNS} FROM batches WHERE job_id = ? ORDER BY position`)
+      .all(jobId) as BatchSummaryRow[];
+    return rows.map(toBatchSummary);
+  }
+
+  /**
+   * Progress of a job in the shape the upload page already renders, with
+   * the first running batch and the errors of failed batches
+   */
+  static getJobProgress(job: ProcessingJob): ProcessingStatus {
+    const batches = this.getJobBatchSummaries(job.id);
+    const totalImages = batches.reduce((sum, batch) => sum + batch.imageCount, 0);
+    const finished = batches.filter(batch => batch.status === 'completed' || batch.status === 'failed');
+    const processedImages = finished.reduce((sum, batch) => sum + batch.imageCount, 0);
+    const running = batches.filter(batch => batch.status === 'processing');
+
+    return {
+      totalImages,
+      processedImages,
+      currentBatch: finished.length + running.length,
+      totalBatches: batches.length,
+      status: job.status === 'queued' ? 'processing' : job.status,
+      progress: totalImages > 0 ? Math.floor((processedImages / totalImages) * 100) : 0,
+      error: job.error,
+      currentBatchId: running[0]?.id,
+      batchErrors: batches
+        .map((batch, index) => ({ batchId: batch.id, batchNumber: index + 1, error: batch.error }))
+        .filter((batch): batch is { batchId: string; batchNumber: number; error: string } => !!batch.error)
+    };
+  }
+
+  /**
+   * Atomically take the next pending batch and mark it as processing.
+   * Jobs take turns so one large study does not hold up the others: the job
+   * with the fewest batches in flight goes first, then the one served least
+   * recently, then the oldest. Within a job batches run in planned order.
+   */
+  static claimNextBatch(): ClaimedBatch | undefined {
+    const db = getDatabase();
+    const claimed = db.transaction(() => {
+      const job = db.prepare(`
+        SELECT jobs.id, jobs.system_prompt, jobs.patient_info FROM jobs
+        WHERE jobs.status IN ('queued', 'processing')
+          AND EXISTS (SELECT 1 FROM batches WHERE job_id = jobs.id AND status = 'pending')
+        ORDER BY
+          (SELECT COUNT(*) FROM batches WHERE job_id = jobs.id AND status = 'processing'),
+          (SELECT MAX(started_at) FROM batches WHERE job_id = jobs.id),
+          jobs.created_at
+        LIMIT 1
+      `).get() as { id: string; system_prompt: string | null; patient_info: string | null } | undefined;
+      if (!job) return undefined;
+
+      const row = db.prepare(`
+        SELECT * FROM batches WHERE job_id = ? AND status = 'pending' ORDER BY position LIMIT 1
+      `).get(job.id) as BatchRow;
+
+      const now = new Date().toISOString();
+      db.prepare(`UPDATE batches SET status = 'processing', started_at = ? WHERE id = ?`).run(now, row.id);
+      db.prepare(`UPDATE jobs SET status = 'processing', updated_at = ? WHERE id = ? AND status = 'queued'`).run(now, job.id);
+
+      return {
+        batch: { ...toBatch(row), status: 'processing' as const },
+        systemPrompt: job.system_prompt ?? undefined,
+        patientInfo: job.patient_info ? JSON.parse(job.patient_info) : undefined
+      };
+    })();
+
+    if (claimed) {
+      publishJobUpdate(claimed.batch.jobId!);
+    }
+    return claimed;
+  }
+
+  /**
+   * Store the outcome of a processed batch and close the job once no
+   * batches are left to run
+   */
+  static saveBatchResult(batch: ImageBatch) {
+    const db = getDatabase();
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare(`
+        UPDATE batches SET status = ?, ai_response = ?, error = ?, retry_count = ?, critical_findings = ?, completed_at = ?
+        WHERE id = ?
+      `).run(
+        batch.status,
+        batch.aiResponse ?? null,
+        batch.error ?? null,
+        batch.retryCount ?? 0,
+        batch.criticalFindings ? JSON.stringify(batch.criticalFindings) : null,
+        now,
+        batch.id
+      );
+
+      finishJobIfDone(batch.jobId!, now);
+    })();
+
+    publishJobUpdate(batch.jobId!);
+  }
+
+  /**
+   * Run a control action on a job. The batch being analyzed when a job is
+   * paused or cancelled still finishes and keeps its result.
+   */
+  private static updateJob(
+    jobId: string,
+    allowed: ProcessingJob['status'][],
+    action: string,
+    apply: (now: string) => void
+  ): ProcessingJob {
+    const db = getDatabase();
+    db.transaction(() => {
+      const job = this.getJob(jobId);
+      if (!job) {
+        throw new JobStateError(`Job ${jobId} not found`);
+      }
+      if (!allowed.includes(job.status)) {
+        throw new JobStateError(`Cannot ${action} a job that is ${job.status}`);
+      }
+      apply(new Date().toISOString());
+    })();
+
+    publishJobUpdate(jobId);
+    return this.getJob(jobId)!;
+  }
+
+  /**
+   * Stop handing out batches of a job until it is resumed
+   */
+  static pauseJob(jobId: string): ProcessingJob {
+    return this.updateJob(jobId, ['queued', 'processing'], 'pause', now => {
+      getDatabase().prepare(`UPDATE jobs SET status = 'paused', updated_at = ? WHERE id = ?`).run(now, jobId);
+    });
+  }
+
+  static resumeJob(jobId: string): ProcessingJob {
+    return this.updateJob(jobId, ['paused'], 'resume', now => {
+      getDatabase().prepare(`UPDATE jobs SET status = 'processing', updated_at = ? WHERE id = ?`).run(now, jobId);
+      // The last batch may have finished while the job was paused
+      finishJobIfDone(jobId, now);
+    });
+  }
+
+  /**
+   * Stop a job for good. Batches that have not started are marked cancelled.
+   */
+  static cancelJob(jobId: string): ProcessingJob {
+    return this.updateJob(jobId, ['queued', 'processing', 'paused'], 'cancel', now => {
+      const db = getDatabase();
+      db.prepare(`UPDATE batches SET status = 'cancelled', completed_at = ? WHERE job_id = ? AND status = 'pending'`).run(now, jobId);
+      db.prepare(`
+        UPDATE jobs SET status = 'cancelled', error = 'Cancelled by user', updated_at = ?, completed_at = ? WHERE id = ?
+      `).run(now, now, jobId);
+    });
+  }
+
+  /**
+   * Queue the failed batches of a finished job again. Completed batches keep
+   * their results, so a report generated afterwards merges old and new results.
+   */
+  static retryFailedBatches(jobId: string): ProcessingJob {
+    return this.updateJob(jobId, ['completed', 'failed', 'cancelled'], 'retry', now => {
+      const db = getDatabase();
+      const retried = db.prepare(`
+        UPDATE batches SET status = 'pending', error = NULL, ai_response = NULL, started_at = NULL, completed_at = NULL
+        WHERE job_id = ? AND status = 'failed'
+      `).run(jobId).changes;
+      if (retried === 0) {
+        throw new JobStateError(`Job ${jobId} has no failed batches`);
+      }
+      db.prepare(`
+        UPDATE jobs SET status = 'queued', error = NULL, updated_at = ?, completed_at = NULL WHERE id = ?
+      `).run(now, jobId);
+    });
+  }
+
+  /**
+   * Return batches left in processing by a previous server process to the
+   * queue. Only call this before any worker of this process has started.
+   */
+  static requeueInterruptedBatches(): number {
+    return getDatabase()
+      .prepare(`UPDATE batches SET status = 'pending', started_at = NULL WHERE status = 'processing'`)
+      .run().changes;
+  }
+}
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MedicalImage } from '@/types/medical';
+import { JobQueue } from './job-queue';
+import { ensureJobWorker } from './job-worker';
+import { UploadStorage } from './upload-storage';
+
+const IMAGE: MedicalImage = {
+  id: 'image-1',
+  originalName: 'chest.png',
+  fileName: 'chest.png',
+  filePath: '/api/uploads/chest.png',
+  fileType: 'PNG',
+  fileSize: 1,
+  isDicom: false,
+  convertedPath: '/api/uploads/chest_converted.png',
+  uploadedAt: new Date(),
+  processed: false
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+describe('ensureJobWorker', () => {
+  it('fails a batch whose images cannot be read and goes on with the queue', async () => {
+    vi.stubEnv('AI_PROVIDER', 'mock');
+    vi.stubEnv('AI_RATE_LIMIT_RPM', '0');
+    vi.stubEnv('AI_CONCURRENCY', '1');
+    vi.stubEnv('DEID_PROFILE', 'off');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(UploadStorage, 'withImageData')
+      .mockRejectedValueOnce(new Error('Unsupported state or unable to authenticate data'))
+      .mockImplementation(async images => images.map(image => ({ ...image, base64Data: 'iVBORw0KGgo=' })));
+
+    const broken = JobQueue.createJob([IMAGE]);
+    const next = JobQueue.createJob([{ ...IMAGE, id: 'image-2' }]);
+    ensureJobWorker();
+
+    await vi.waitFor(() => expect(JobQueue.getJob(next.id)!.status).toBe('completed'), { timeout: 5000 });
+    expect(JobQueue.getJob(broken.id)!.status).toBe('failed');
+    expect(JobQueue.getJobBatches(broken.id)[0]).toMatchObject({
+      status: 'failed',
+      error: 'Unsupported state or unable to authenticate data'
+    });
+  });
+});
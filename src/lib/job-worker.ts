@@ -0,0 +1,106 @@
+import { ImageBatch } from '@/types/medical';
+import { getAIConfig } from './ai-providers';
+import { BatchProcessor } from './batch-processor';
+import { CriticalAlerts } from './critical-alerts';
+import { ClaimedBatch, JobQueue } from './job-queue';
+import { UploadStorage } from './upload-storage';
+
+const globalForWorker = globalThis as unknown as { jobWorker?: { running: number; recovered: boolean } };
+const worker = (globalForWorker.jobWorker ??= { running: 0, recovered: false });
+
+/**
+ * Save a batch result. When that fails the batch is marked failed instead,
+ * so it does not stay processing until the next restart and the worker
+ * moves on to the next batch. Returns whether the result was saved.
+ */
+function saveResult(batch: ImageBatch): boolean {
+  try {
+    JobQueue.saveBatchResult(batch);
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to save the result of batch ${batch.id}:`, message);
+    try {
+      JobQueue.saveBatchResult({
+        ...batch,
+        status: 'failed',
+        aiResponse: undefined,
+        criticalFindings: undefined,
+        error: `The analysis result could not be saved: ${message}`
+      });
+    } catch (retryError) {
+      console.error(`Failed to mark batch ${batch.id} as failed:`, retryError);
+    }
+    return false;
+  }
+}
+
+/**
+ * Raise the critical alert of a saved batch result. A failure is logged so
+ * the worker goes on with the next batch.
+ */
+function raiseAlert(batch: ImageBatch) {
+  try {
+    CriticalAlerts.raise(batch);
+  } catch (error) {
+    console.error(`Failed to raise the critical alert of batch ${batch.id}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * Analyze a claimed batch. Anything that fails, e.g. reading its images
+ * from storage, fails this batch only.
+ */
+async function analyzeBatch(claimed: ClaimedBatch): Promise<ImageBatch> {
+  try {
+    const images = await UploadStorage.withImageData(claimed.batch.images);
+    return await BatchProcessor.processBatch({ ...claimed.batch, images }, claimed.systemPrompt, undefined, claimed.patientInfo);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to analyze batch ${claimed.batch.id}:`, message);
+    return { ...claimed.batch, status: 'failed', error: message };
+  }
+}
+
+async function drainQueue() {
+  try {
+    let claimed = JobQueue.claimNextBatch();
+    while (claimed) {
+      const batch = await analyzeBatch(claimed);
+      if (saveResult(batch)) {
+        raiseAlert(batch);
+      }
+
+      // Requests are spaced by the shared rate limiter in AIClient
+      claimed = JobQueue.claimNextBatch();
+    }
+  } catch (error) {
+    console.error('Job worker stopped:', error);
+  } finally {
+    worker.running--;
+  }
+}
+
+/**
+ * Start background workers until as many batches can be analyzed at once as
+ * the AI provider allows (AI_CONCURRENCY). Workers exit once the queue is
+ * empty, so call this after every submission. The first call also requeues
+ * batches interrupted by a restart.
+ */
+export function ensureJobWorker() {
+  if (!worker.recovered) {
+    worker.recovered = true;
+    const requeued = JobQueue.requeueInterruptedBatches();
+    if (requeued > 0) {
+      console.warn(`Requeued ${requeued} batches interrupted by a restart`);
+    }
+  }
+
+  // A worker that finds the queue empty exits synchronously, so count the
+  // workers to start up front rather than looping on worker.running
+  const idle = getAIConfig().concurrency - worker.running;
+  for (let i = 0; i < idle; i++) {
+    worker.running++;
+    void drainQueue();
+  }
+}
@@ -0,0 +1,24 @@
+import { DiagnosticReport, MedicalImage } from '@/types/medical';
+
+/**
+ * Derive report patient information from the DICOM metadata of uploaded images.
+ * Values are taken from the first image that carries them; when images span
+ * several modalities the modality is reported as "Multiple".
+ */
+export function derivePatientInfo(images: MedicalImage[]): DiagnosticReport['patientInfo'] {
+  const withMetadata = images.filter(img => img.metadata);
+
+  const first = <K extends 'patientName' | 'patientId' | 'studyDate'>(key: K) =>
+    withMetadata.find(img => img.metadata![key])?.metadata![key];
+
+  const modalities = Array.from(
+    new Set(withMetadata.map(img => img.metadata!.modality).filter((modality): modality is string => !!modality))
+  );
+
+  return {
+    name: first('patientName'),
+    id: first('patientId'),
+    studyDate: first('studyDate'),
+    modality: modalities.length > 1 ? 'Multiple' : modalities[0],
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines } from './report-diff';
+
+describe('diffLines', () => {
+  it('keeps identical texts unchanged', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  it('lists removed lines ahead of the lines replacing them', () => {
+    expect(diffLines('head\nold\ntail', 'head\nnew\ntail')).toEqual([
+      { type: 'same', text: 'head' },
+      { type: 'removed', text: 'old' },
+      { type: 'added', text: 'new' },
+      { type: 'same', text: 'tail' }
+    ]);
+  });
+
+  it('keeps the longest common subsequence of changed regions', () => {
+    const lines = diffLines('a\nx\nb\ny\nc', 'a\nb\nz\nc');
+    expect(lines.filter(line => line.type === 'same').map(line => line.text)).toEqual(['a', 'b', 'c']);
+    expect(lines.filter(line => line.type === 'removed').map(line => line.text)).toEqual(['x', 'y']);
+    expect(lines.filter(line => line.type === 'added').map(line => line.text)).toEqual(['z']);
+  });
+
+  it('handles insertions and deletions at either end', () => {
+    expect(diffLines('b', 'a\nb\nc')).toEqual([
+      { type: 'added', text: 'a' },
+      { type: 'same', text: 'b' },
+      { type: 'added', text: 'c' }
+    ]);
+    expect(diffLines('a\nb', '')).toEqual([
+      { type: 'removed', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: '' }
+    ]);
+  });
+});
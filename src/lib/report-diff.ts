@@ -0,0 +1,53 @@
+import { ReportDiffLine } from '@/types/report';
+
+/**
+ * Line diff of two report texts, from the longest common subsequence of
+ * their lines. Lines removed from `before` come ahead of the lines that
+ * replace them.
+ */
+export function diffLines(before: string, after: string): ReportDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Unchanged head and tail need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  // common[i][j]: length of the common subsequence of a[i..endA) and b[j..endB)
+  const rows = endA - start;
+  const columns = endB - start;
+  const common = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      common[i][j] = a[start + i] === b[start + j]
+        ? common[i + 1][j + 1] + 1
+        : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: ReportDiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  let i = 0;
+  let j = 0;
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && a[start + i] === b[start + j]) {
+      lines.push({ type: 'same', text: a[start + i] });
+      i++;
+      j++;
+    } else if (i < rows && (j === columns || common[i + 1][j] >= common[i][j + 1])) {
+      lines.push({ type: 'removed', text: a[start + i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[start + j] });
+      j++;
+    }
+  }
+  a.slice(endA).forEach(text => lines.push({ type: 'same', text }));
+
+  return lines;
+}
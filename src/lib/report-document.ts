@@ -0,0 +1,286 @@
+import sharp from 'sharp';
+import { z } from 'zod/v4';
+import { DiagnosticReport, ImageBatch, MedicalImage, ProcessingJob, ReportStatus } from '@/types/medical';
+import {
+  ExportOptions,
+  ReportAddendum,
+  ReportContent,
+  ReportImpression,
+  ReportSignature,
+  ReportStatistics,
+  ReportSynthesis
+} from '@/types/report';
+import { formatCriticalFinding, getCriticalFindings } from './critical-findings';
+import { DEFAULT_SECTIONS, getSectionKind } from './report-templates';
+import { reportContentSchema } from './report-repository';
+import { REPORT_STATUS_LABELS, SIGNATURE_KIND_LABELS } from './report-workflow';
+import { describeImage } from './study-grouping';
+import { UploadStorage } from './upload-storage';
+
+export interface ReportDocumentSection {
+  title: string;
+  content?: string;
+  items?: { text: string; sources?: string }[]; // numbered list, e.g. the impression
+}
+
+export interface KeyImage {
+  label: string;
+  data: Buffer; // JPEG thumbnail
+  width: number;
+  height: number;
+}
+
+/**
+ * A finished report laid out for export, independent of the output format
+ */
+export interface ReportDocument {
+  id: string;
+  title: string;
+  institution?: string;
+  generatedAt: Date;
+  patient: { label: string; value: string }[];
+  criticalFindings: string[]; // one line each, see formatCriticalFinding
+  sections: ReportDocumentSection[];
+  notes: string[]; // processing caveats, e.g. failed batches
+  keyImages: KeyImage[];
+  metadata: { label: string; value: string }[]; // empty unless requested
+  status?: ReportStatus; // review status, for stored reports
+  signatures: ReportSignature[];
+  addenda: ReportAddendum[];
+  disclaimer: string;
+}
+
+const MAX_KEY_IMAGES = 6;
+const THUMBNAIL_SIZE = 512;
+
+/**
+ * Export requests accepted from API clients. `synthesis` is a consolidated
+ * report as shown to the user, exported without another AI request.
+ */
+export const exportRequestSchema = z.object({
+  jobId: z.string().min(1).optional(),
+  reportId: z.string().min(1).optional(),
+  synthesis: reportContentSchema.extend({
+    source: z.enum(['model', 'batches']).default('batches'),
+    errors: z.array(z.string()).optional()
+  }).optional(),
+  patientInfo: z.object({
+    name: z.string().optional(),
+    id: z.string().optional(),
+    studyDate: z.string().optional(),
+    modality: z.string().optional()
+  }).optional(),
+  options: z.object({
+    format: z.enum(['PDF', 'HTML', 'MARKDOWN']).default('PDF'),
+    includeImages: z.boolean().default(true),
+    includeMetadata: z.boolean().default(true),
+    templateId: z.string().min(1).optional()
+  }).prefault({})
+});
+
+export const REPORT_DISCLAIMER = 'This report was generated using AI-assisted analysis and should always be reviewed by qualified medical professionals. It is not a substitute for professional medical diagnosis and clinical judgment.';
+
+export function getReportStatistics(batches: ImageBatch[], totalImages: number): ReportStatistics {
+  const successfulBatches = batches.filter(batch => batch.status === 'completed').length;
+  const failedBatches = batches.filter(batch => batch.status === 'failed').length;
+  return {
+    totalImages,
+    totalBatches: batches.length,
+    successfulBatches,
+    failedBatches,
+    successRate: batches.length > 0 ? Math.round((successfulBatches / batches.length) * 100) : 0
+  };
+}
+
+/**
+ * Review status as printed on exports, e.g. "Draft (not signed)"
+ */
+export function formatReportStatus(status: ReportStatus, signatures: ReportSignature[]): string {
+  return signatures.length > 0 ? REPORT_STATUS_LABELS[status] : `${REPORT_STATUS_LABELS[status]} (not signed)`;
+}
+
+/**
+ * A sign-off as a single line, e.g. "Final report signed by Dr. A on ..."
+ */
+export function formatSignature(signature: ReportSignature): string {
+  const line = `${SIGNATURE_KIND_LABELS[signature.kind]} signed by ${signature.signedBy} on ${signature.signedAt.toLocaleString()}`;
+  return signature.reason ? `${line}. Reason: ${signature.reason}` : line;
+}
+
+/**
+ * A key image as a data URI, for formats that embed images inline
+ */
+export function toDataUri(image: KeyImage): string {
+  return `data:image/jpeg;base64,${image.data.toString('base64')}`;
+}
+
+/**
+ * Sources of an impression item, e.g. "Batch 2: a.dcm, b.dcm; Batch 5"
+ */
+export function formatEvidence(impression: ReportImpression): string | undefined {
+  if (impression.evidence.length === 0) return undefined;
+  return impression.evidence
+    .map(evidence => evidence.images.length > 0
+      ? `Batch ${evidence.batchNumber}: ${evidence.images.join(', ')}`
+      : `Batch ${evidence.batchNumber}`)
+    .join('; ');
+}
+
+/**
+ * Fill the section headings of a template from a consolidated report
+ */
+export function resolveSections(synthesis: ReportSynthesis, sections: string[] = DEFAULT_SECTIONS): ReportDocumentSection[] {
+  return sections.map(title => {
+    switch (getSectionKind(title)) {
+      case 'findings':
+        return { title, content: synthesis.findings };
+      case 'impression':
+        return {
+          title,
+          items: synthesis.impressions.map(impression => ({ text: impression.statement, sources: formatEvidence(impression) }))
+        };
+      case 'recommendations':
+        return { title, content: synthesis.recommendations };
+      default: {
+        const section = synthesis.sections.find(item => item.title.toLowerCase() === title.toLowerCase());
+        return { title, content: section?.content || 'Not reported.' };
+      }
+    }
+  });
+}
+
+/**
+ * The editable parts of a report, with an entry for every section of the
+ * template other than findings, impression and recommendations
+ */
+export function toReportContent(synthesis: ReportSynthesis | undefined, sections: string[] = DEFAULT_SECTIONS): ReportContent {
+  return {
+    findings: synthesis?.findings ?? '',
+    impressions: synthesis?.impressions ?? [],
+    recommendations: synthesis?.recommendations ?? '',
+    sections: sections
+      .filter(title => !getSectionKind(title))
+      .map(title => ({
+        title,
+        content: synthesis?.sections.find(item => item.title.toLowerCase() === title.toLowerCase())?.content ?? ''
+      }))
+  };
+}
+
+/**
+ * Images to show with the report: those cited by the impression first,
+ * then the first image of each analyzed batch
+ */
+function selectKeyImages(batches: ImageBatch[], synthesis?: ReportSynthesis): MedicalImage[] {
+  const selected: MedicalImage[] = [];
+  const add = (image?: MedicalImage) => {
+    if (image?.convertedPath && !selected.includes(image) && selected.length < MAX_KEY_IMAGES) {
+      selected.push(image);
+    }
+  };
+
+  for (const impression of synthesis?.impressions ?? []) {
+    for (const evidence of impression.evidence) {
+      const batch = batches.find(item => item.id === evidence.batchId);
+      evidence.images.forEach(label => add(batch?.images.find(image => describeImage(image) === label)));
+    }
+  }
+  batches
+    .filter(batch => batch.status === 'completed')
+    .forEach(batch => add(batch.images[0]));
+
+  return selected;
+}
+
+// Images purged by a retention rule are left out
+async function toThumbnail(image: MedicalImage): Promise<KeyImage | undefined> {
+  try {
+    const stored = await UploadStorage.readImage(image);
+    if (!stored) return undefined;
+
+    const { data, info } = await sharp(stored)
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#000000' })
+      .jpeg({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+    return { label: describeImage(image), data, width: info.width, height: info.height };
+  } catch (error) {
+    console.warn(`Skipping key image ${image.originalName}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Lay out a job's report for export. Key images are read from upload
+ * storage.
+ */
+export async function buildReportDocument(
+  job: ProcessingJob,
+  batches: ImageBatch[],
+  synthesis: ReportSynthesis | undefined,
+  options: Pick<ExportOptions, 'includeImages' | 'includeMetadata'> & {
+    sections?: string[];
+    templateName?: string;
+    patientInfo?: DiagnosticReport['patientInfo'];
+    status?: ReportStatus;
+    signatures?: ReportSignature[];
+    addenda?: ReportAddendum[];
+  }
+): Promise<ReportDocument> {
+  const patientInfo = options.patientInfo ?? job.patientInfo ?? {};
+  const firstMetadata = batches.flatMap(batch => batch.images).find(image => image.metadata)?.metadata;
+  const statistics = getReportStatistics(batches, job.totalImages);
+
+  const patient = [
+    { label: 'Patient Name', value: patientInfo.name },
+    { label: 'Patient ID', value: patientInfo.id },
+    { label: 'Study Date', value: patientInfo.studyDate },
+    { label: 'Modality', value: patientInfo.modality },
+    { label: 'Study', value: firstMetadata?.studyDescription },
+    { label: 'Referring Physician', value: firstMetadata?.physicianName },
+    ...(options.status ? [{ label: 'Report Status', value: formatReportStatus(options.status, options.signatures ?? []) }] : [])
+  ].map(field => ({ label: field.label, value: field.value || 'N/A' }));
+
+  const notes: string[] = [];
+  if (!synthesis) {
+    notes.push('No batch of this study could be analyzed.');
+  } else if (synthesis.errors?.length) {
+    notes.push('The batch analyses could not be consolidated and are combined as they are.');
+  }
+  if (statistics.failedBatches > 0) {
+    notes.push(`${statistics.failedBatches} of ${statistics.totalBatches} batches failed and are not reflected in this report.`);
+  }
+
+  const keyImages = options.includeImages
+    ? (await Promise.all(selectKeyImages(batches, synthesis).map(toThumbnail)))
+      .filter((image): image is KeyImage => !!image)
+    : [];
+
+  const metadata = options.includeMetadata
+    ? [
+      { label: 'Report Template', value: options.templateName ?? job.template?.name ?? 'General Radiology' },
+      { label: 'Processing Job', value: job.id },
+      { label: 'Images Analyzed', value: String(statistics.totalImages) },
+      { label: 'Batches', value: `${statistics.successfulBatches} of ${statistics.totalBatches} succeeded (${statistics.successRate}%)` },
+      { label: 'Consolidation', value: synthesis?.source === 'model' ? 'AI consolidated' : 'Combined batch analyses' },
+      { label: 'Processing Completed', value: job.completedAt ? job.completedAt.toLocaleString() : 'N/A' }
+    ]
+    : [];
+
+  return {
+    id: job.id,
+    title: 'Diagnostic Imaging Report',
+    institution: firstMetadata?.institutionName,
+    generatedAt: new Date(),
+    patient,
+    criticalFindings: getCriticalFindings(batches).map(formatCriticalFinding),
+    sections: synthesis ? resolveSections(synthesis, options.sections ?? job.template?.sections) : [],
+    notes,
+    keyImages,
+    metadata,
+    status: options.status,
+    signatures: options.signatures ?? [],
+    addenda: options.addenda ?? [],
+    disclaimer: REPORT_DISCLAIMER
+  };
+}
@@ -0,0 +1,168 @@
+import { ReportDocument, ReportDocumentSection, formatSignature, toDataUri } from './report-document';
+
+const PLATFORM_NAME = 'AI-Assisted Radiology Platform';
+
+// Inline so the file renders the same wherever it is opened or attached
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #f1f3f5; color: #212529; font: 14px/1.55 -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; }
+  .page { max-width: 860px; margin: 24px auto; padding: 32px 40px; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.08); }
+  .letterhead { display: flex; justify-content: space-between; align-items: flex-end; gap: 24px; padding-bottom: 10px; border-bottom: 2px solid #2563eb; }
+  .letterhead .institution { font-size: 18px; font-weight: 700; color: #2563eb; }
+  .letterhead .title { font-size: 16px; font-weight: 700; text-align: right; }
+  .muted { color: #6c757d; font-size: 12px; }
+  .fields { display: grid; grid-template-columns: 1fr 1fr; gap: 6px 24px; margin: 18px 0 8px; padding: 12px 14px; background: #f3f6fa; }
+  .fields div { display: flex; gap: 8px; }
+  .fields dt { min-width: 130px; color: #6c757d; font-size: 12px; font-weight: 700; }
+  .fields dd { margin: 0; }
+  h2 { margin: 22px 0 8px; padding-bottom: 4px; border-bottom: 1px solid #ced4da; color: #2563eb; font-size: 14px; letter-spacing: 0.04em; text-transform: uppercase; }
+  p { margin: 0 0 8px; white-space: pre-wrap; }
+  ol, ul { margin: 0; padding-left: 22px; }
+  li { margin-bottom: 6px; }
+  .sources { display: block; color: #6c757d; font-size: 12px; font-style: italic; }
+  .critical { margin: 18px 0 0; padding: 10px 14px; border-left: 4px solid #c82333; background: #fdecee; }
+  .critical h2 { margin-top: 0; border-bottom-color: #f1aeb5; color: #c82333; }
+  .critical li { font-weight: 700; }
+  .notes { margin-top: 12px; color: #6c757d; font-size: 12px; font-style: italic; }
+  .images { display: grid; grid-template-columns: repeat(3, 1fr); gap: 12px; }
+  figure { margin: 0; break-inside: avoid; }
+  figure .frame { display: flex; align-items: center; justify-content: center; aspect-ratio: 1; background: #000; }
+  figure img { max-width: 100%; max-height: 100%; }
+  figcaption { margin-top: 4px; color: #6c757d; font-size: 11px; overflow-wrap: anywhere; }
+  .disclaimer { color: #6c757d; font-size: 12px; }
+  .signature { display: grid; grid-template-columns: repeat(3, 1fr); gap: 24px; margin-top: 40px; break-inside: avoid; }
+  .signature div { padding-top: 4px; border-top: 1px solid #212529; color: #6c757d; font-size: 11px; }
+  .signoff { margin-top: 28px; break-inside: avoid; }
+  .signoff p { margin: 0 0 2px; font-weight: 700; }
+  .signoff .attestation { margin-bottom: 10px; color: #6c757d; font-size: 12px; font-weight: 400; font-style: italic; }
+  .addenda .byline { margin: 12px 0 2px; font-weight: 700; }
+  footer { display: flex; justify-content: space-between; margin-top: 28px; padding-top: 6px; border-top: 1px solid #ced4da; }
+
+  @media print {
+    @page { size: A4; margin: 16mm; }
+    body { background: #fff; font-size: 11pt; }
+    .page { max-width: none; margin: 0; padding: 0; box-shadow: none; }
+    .fields, .critical, figure .frame { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    h2 { break-after: avoid; }
+    li, .fields { break-inside: avoid; }
+  }
+`;
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function renderFields(fields: { label: string; value: string }[]): string {
+  const rows = fields
+    .map(field => `<div><dt>${escapeHtml(field.label)}</dt><dd>${escapeHtml(field.value)}</dd></div>`)
+    .join('\n');
+  return `<dl class="fields">\n${rows}\n</dl>`;
+}
+
+function renderSection(section: ReportDocumentSection): string {
+  let body: string;
+  if (section.items) {
+    body = section.items.length === 0
+      ? '<p>Not reported.</p>'
+      : `<ol>\n${section.items.map(item =>
+        `<li>${escapeHtml(item.text)}${item.sources ? `<span class="sources">Sources: ${escapeHtml(item.sources)}</span>` : ''}</li>`
+      ).join('\n')}\n</ol>`;
+  } else {
+    body = (section.content ?? '')
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`)
+      .join('\n');
+  }
+  return `<section>\n<h2>${escapeHtml(section.title)}</h2>\n${body}\n</section>`;
+}
+
+/**
+ * Render a report as a single self-contained HTML page: styles are inline
+ * and key images are embedded as data URIs, so the file can be attached to
+ * a ticket or EMR note as it is. A print stylesheet lays it out on A4.
+ */
+export function renderReportHtml(document: ReportDocument): string {
+  const parts: string[] = [];
+
+  parts.push(`<header class="letterhead">
+<div>
+<div class="institution">${escapeHtml(document.institution || PLATFORM_NAME)}</div>
+<div class="muted">${document.institution ? PLATFORM_NAME : 'Medical Imaging Analysis'}</div>
+</div>
+<div>
+<div class="title">${escapeHtml(document.title)}</div>
+<div class="muted">Generated ${escapeHtml(document.generatedAt.toLocaleString())}</div>
+</div>
+</header>`);
+
+  parts.push(renderFields(document.patient));
+
+  if (document.criticalFindings.length > 0) {
+    const items = document.criticalFindings.map(finding => `<li>${escapeHtml(finding)}</li>`);
+    parts.push(`<section class="critical">\n<h2>Critical Findings</h2>\n<ul>\n${items.join('\n')}\n</ul>\n</section>`);
+  }
+  parts.push(...document.sections.map(renderSection));
+
+  if (document.notes.length > 0) {
+    parts.push(`<div class="notes">\n${document.notes.map(note => `<p>Note: ${escapeHtml(note)}</p>`).join('\n')}\n</div>`);
+  }
+
+  if (document.keyImages.length > 0) {
+    const figures = document.keyImages.map(image => `<figure>
+<div class="frame"><img src="${toDataUri(image)}" alt="${escapeHtml(image.label)}" width="${image.width}" height="${image.height}"></div>
+<figcaption>${escapeHtml(image.label)}</figcaption>
+</figure>`);
+    parts.push(`<section>\n<h2>Key Images</h2>\n<div class="images">\n${figures.join('\n')}\n</div>\n</section>`);
+  }
+
+  if (document.metadata.length > 0) {
+    parts.push(`<section>\n<h2>Report Details</h2>\n${renderFields(document.metadata)}\n</section>`);
+  }
+
+  parts.push(`<section>\n<h2>Disclaimer</h2>\n<p class="disclaimer">${escapeHtml(document.disclaimer)}</p>\n</section>`);
+
+  if (document.signatures.length > 0) {
+    const signoffs = document.signatures.map(signature =>
+      `<p>${escapeHtml(formatSignature(signature))}</p>\n<p class="attestation">${escapeHtml(signature.attestation)}</p>`);
+    parts.push(`<section class="signoff">\n<h2>Radiologist Review</h2>\n${signoffs.join('\n')}\n</section>`);
+  } else {
+    parts.push(`<section class="signature">
+<div>Reviewed by (name)</div>
+<div>Signature</div>
+<div>Date</div>
+</section>`);
+  }
+
+  if (document.addenda.length > 0) {
+    const addenda = document.addenda.map(addendum =>
+      `<p class="byline">Addendum by ${escapeHtml(addendum.author)} on ${escapeHtml(addendum.createdAt.toLocaleString())}</p>\n<p>${escapeHtml(addendum.text)}</p>`);
+    parts.push(`<section class="addenda">\n<h2>Addenda</h2>\n${addenda.join('\n')}\n</section>`);
+  }
+
+  parts.push(`<footer class="muted">
+<span>AI-assisted analysis. Requires review by a qualified medical professional.</span>
+<span>Report ${escapeHtml(document.id)}</span>
+</footer>`);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="${PLATFORM_NAME}">
+<title>${escapeHtml(`${document.title} - ${document.id}`)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main class="page">
+${parts.join('\n\n')}
+</main>
+</body>
+</html>
+`;
+}
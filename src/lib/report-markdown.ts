@@ -0,0 +1,134 @@
+import { DiagnosticReport, ImageBatch } from '@/types/medical';
+import { ReportSynthesis } from '@/types/report';
+import { formatCriticalFinding, getCriticalFindings } from './critical-findings';
+import { ReportDocument, formatReportStatus, formatSignature, resolveSections, toDataUri } from './report-document';
+import { DEFAULT_SECTIONS } from './report-templates';
+import { describeImage } from './study-grouping';
+
+/**
+ * The report as Markdown: the text shown on the report page and the
+ * Markdown export. Critical findings of the batches come first. Exports can
+ * add key images, embedded as data URIs so the file stands alone, the
+ * report details, the review status with its sign-offs and addenda.
+ * Re-rendering an edited report passes the time of the analysis as
+ * `generatedAt`, so versions differ only where edited.
+ */
+export function generateComprehensiveReport(
+  batches: ImageBatch[],
+  patientInfo?: DiagnosticReport['patientInfo'],
+  synthesis?: ReportSynthesis,
+  sections: string[] = DEFAULT_SECTIONS,
+  extras: Partial<Pick<ReportDocument, 'generatedAt' | 'keyImages' | 'metadata' | 'status' | 'signatures' | 'addenda'>> = {}
+): string {
+  const generatedAt = extras.generatedAt ?? new Date();
+  const successfulBatches = batches.filter(batch => batch.status === 'completed' && batch.aiResponse);
+  const failedBatches = batches.filter(batch => batch.status === 'failed');
+
+  let report = `# COMPREHENSIVE RADIOLOGY REPORT\n\n`;
+
+  if (patientInfo) {
+    report += `## PATIENT INFORMATION\n`;
+    if (patientInfo.name) report += `- Patient Name: ${patientInfo.name}\n`;
+    if (patientInfo.id) report += `- Patient ID: ${patientInfo.id}\n`;
+    if (patientInfo.studyDate) report += `- Study Date: ${patientInfo.studyDate}\n`;
+    if (patientInfo.modality) report += `- Modality: ${patientInfo.modality}\n`;
+    report += `\n`;
+  }
+
+  report += `## STUDY SUMMARY\n`;
+  report += `- Total Images Analyzed: ${batches.reduce((sum, batch) => sum + batch.images.length, 0)}\n`;
+  report += `- Successful Batches: ${successfulBatches.length}\n`;
+  report += `- Failed Batches: ${failedBatches.length}\n`;
+  report += `- Analysis Date: ${generatedAt.toLocaleDateString()}\n\n`;
+
+  const criticalFindings = getCriticalFindings(batches);
+  if (criticalFindings.length > 0) {
+    report += `## CRITICAL FINDINGS\n`;
+    criticalFindings.forEach(finding => {
+      report += `- **${formatCriticalFinding(finding)}**\n`;
+    });
+    report += `\n`;
+  }
+
+  if (synthesis) {
+    resolveSections(synthesis, sections).forEach(section => {
+      report += `## ${section.title.toUpperCase()}\n`;
+      if (section.items) {
+        section.items.forEach((item, index) => {
+          report += `${index + 1}. ${item.text}${item.sources ? ` [${item.sources}]` : ''}\n`;
+        });
+        report += `\n`;
+      } else {
+        report += `${section.content}\n\n`;
+      }
+    });
+
+    if (synthesis.errors?.length) {
+      report += `_Note: the batch analyses could not be consolidated (${synthesis.errors.join('; ')}) and are combined as they are._\n\n`;
+    }
+  }
+
+  if (extras.keyImages?.length) {
+    report += `## KEY IMAGES\n`;
+    extras.keyImages.forEach(image => {
+      report += `![${image.label}](${toDataUri(image)})\n_${image.label}_\n\n`;
+    });
+  }
+
+  if (successfulBatches.length > 0) {
+    report += `## SOURCE BATCHES\n`;
+    batches.forEach((batch, index) => {
+      if (batch.status !== 'completed' || !batch.aiResponse) return;
+      report += `- Batch ${index + 1}: ${batch.images.map(describeImage).join(', ')}\n`;
+      try {
+        const aiResponse = JSON.parse(batch.aiResponse);
+        if (aiResponse.parseErrors?.length) {
+          report += `  _Note: the AI response for this batch was not valid structured output and was read from its ${aiResponse.parseMode === 'headings' ? 'section headings' : 'raw text'}._\n`;
+        }
+      } catch (error) {
+        report += `  Error parsing AI response: ${error}\n`;
+      }
+    });
+    report += `\n`;
+  }
+
+  if (failedBatches.length > 0) {
+    report += `## PROCESSING ERRORS\n`;
+    failedBatches.forEach((batch) => {
+      report += `- Batch: ${batch.error || 'Unknown error'}\n`;
+    });
+    report += `\n`;
+  }
+
+  if (extras.metadata?.length) {
+    report += `## REPORT DETAILS\n`;
+    extras.metadata.forEach(field => {
+      report += `- ${field.label}: ${field.value}\n`;
+    });
+    report += `\n`;
+  }
+
+  if (extras.status) {
+    report += `## SIGN-OFF\n`;
+    report += `- Status: ${formatReportStatus(extras.status, extras.signatures ?? [])}\n`;
+    extras.signatures?.forEach(signature => {
+      report += `- ${formatSignature(signature)}\n  _${signature.attestation}_\n`;
+    });
+    report += `\n`;
+  }
+
+  if (extras.addenda?.length) {
+    report += `## ADDENDA\n`;
+    extras.addenda.forEach(addendum => {
+      report += `- Addendum by ${addendum.author} on ${addendum.createdAt.toLocaleString()}\n`;
+      report += `${addendum.text.split('\n').map(line => `  ${line}`).join('\n')}\n`;
+    });
+    report += `\n`;
+  }
+
+  report += `## IMPORTANT DISCLAIMER\n`;
+  report += `This report was generated using AI-assisted analysis and should always be reviewed by qualified medical professionals.\n\n`;
+  report += `Generated by AI-Assisted Radiology Platform on ${generatedAt.toLocaleString()}\n`;
+
+  return report;
+}
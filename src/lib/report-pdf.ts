@@ -0,0 +1,275 @@
+import { jsPDF } from 'jspdf';
+import { ReportDocument, formatSignature } from './report-document';
+
+// A4 portrait, in millimetres
+const MARGIN = 18;
+const HEADER_HEIGHT = 24; // letterhead band at the top of every page
+const FOOTER_HEIGHT = 14;
+const LINE_HEIGHT = 4.6; // for 10pt body text
+const IMAGE_COLUMNS = 3;
+const IMAGE_GAP = 4;
+
+const PLATFORM_NAME = 'AI-Assisted Radiology Platform';
+
+const COLORS = {
+  text: [33, 37, 41],
+  muted: [108, 117, 125],
+  accent: [37, 99, 235],
+  rule: [206, 212, 218],
+  panel: [243, 246, 250],
+  critical: [200, 35, 51]
+} as const;
+
+/**
+ * Writes content top to bottom, starting a new page whenever the next block
+ * does not fit
+ */
+class PdfWriter {
+  readonly doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  readonly width = this.doc.internal.pageSize.getWidth();
+  readonly height = this.doc.internal.pageSize.getHeight();
+  readonly contentWidth = this.width - MARGIN * 2;
+  y = MARGIN + HEADER_HEIGHT;
+
+  ensureSpace(height: number) {
+    if (this.y + height > this.height - MARGIN - FOOTER_HEIGHT) {
+      this.doc.addPage();
+      this.y = MARGIN + HEADER_HEIGHT;
+    }
+  }
+
+  color(rgb: readonly number[]) {
+    this.doc.setTextColor(rgb[0], rgb[1], rgb[2]);
+  }
+
+  font(size: number, style: 'normal' | 'bold' | 'italic' = 'normal', rgb: readonly number[] = COLORS.text) {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.color(rgb);
+  }
+
+  /**
+   * Wrapped paragraph; long paragraphs continue on the next page
+   */
+  paragraph(text: string, indent = 0, lineHeight = LINE_HEIGHT) {
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth - indent);
+    for (const line of lines) {
+      this.ensureSpace(lineHeight);
+      this.doc.text(line, MARGIN + indent, this.y + lineHeight - 1.2);
+      this.y += lineHeight;
+    }
+  }
+
+  heading(title: string, rgb: readonly number[] = COLORS.accent) {
+    // Keep the heading with at least two lines of its section
+    this.ensureSpace(10 + LINE_HEIGHT * 2);
+    this.y += 3;
+    this.font(11, 'bold', rgb);
+    this.doc.text(title.toUpperCase(), MARGIN, this.y + 4);
+    this.y += 6;
+    this.doc.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+    this.doc.line(MARGIN, this.y, MARGIN + this.contentWidth, this.y);
+    this.y += 2;
+  }
+
+  /**
+   * Two-column label/value grid on a shaded panel
+   */
+  fieldPanel(fields: { label: string; value: string }[]) {
+    const rows = Math.ceil(fields.length / 2);
+    const rowHeight = 6;
+    const height = rows * rowHeight + 4;
+    this.ensureSpace(height);
+
+    this.doc.setFillColor(COLORS.panel[0], COLORS.panel[1], COLORS.panel[2]);
+    this.doc.rect(MARGIN, this.y, this.contentWidth, height, 'F');
+
+    const columnWidth = this.contentWidth / 2;
+    fields.forEach((field, index) => {
+      const x = MARGIN + 3 + (index % 2) * columnWidth;
+      const y = this.y + 6 + Math.floor(index / 2) * rowHeight;
+      this.font(8, 'bold', COLORS.muted);
+      this.doc.text(`${field.label}:`, x, y);
+      this.font(9.5);
+      const value: string[] = this.doc.splitTextToSize(field.value, columnWidth - 38);
+      this.doc.text(value[0], x + 35, y);
+    });
+    this.y += height + 2;
+  }
+}
+
+function drawLetterhead(writer: PdfWriter, document: ReportDocument) {
+  const { doc, width } = writer;
+  writer.font(13, 'bold', COLORS.accent);
+  doc.text(document.institution || PLATFORM_NAME, MARGIN, MARGIN + 4);
+  writer.font(8, 'normal', COLORS.muted);
+  doc.text(document.institution ? PLATFORM_NAME : 'Medical Imaging Analysis', MARGIN, MARGIN + 9);
+
+  writer.font(11, 'bold');
+  doc.text(document.title, width - MARGIN, MARGIN + 4, { align: 'right' });
+  writer.font(8, 'normal', COLORS.muted);
+  doc.text(`Generated ${document.generatedAt.toLocaleString()}`, width - MARGIN, MARGIN + 9, { align: 'right' });
+
+  doc.setDrawColor(COLORS.accent[0], COLORS.accent[1], COLORS.accent[2]);
+  doc.setLineWidth(0.6);
+  doc.line(MARGIN, MARGIN + 13, width - MARGIN, MARGIN + 13);
+  doc.setLineWidth(0.2);
+}
+
+function drawFooter(writer: PdfWriter, document: ReportDocument, page: number, pages: number) {
+  const { doc, width, height } = writer;
+  const y = height - MARGIN;
+  doc.setDrawColor(COLORS.rule[0], COLORS.rule[1], COLORS.rule[2]);
+  doc.line(MARGIN, y - 6, width - MARGIN, y - 6);
+  writer.font(7.5, 'normal', COLORS.muted);
+  doc.text('AI-assisted analysis. Requires review by a qualified medical professional.', MARGIN, y - 2);
+  doc.text(`Report ${document.id}  |  Page ${page} of ${pages}`, width - MARGIN, y - 2, { align: 'right' });
+}
+
+function drawKeyImages(writer: PdfWriter, document: ReportDocument) {
+  const { doc, contentWidth } = writer;
+  const cellWidth = (contentWidth - IMAGE_GAP * (IMAGE_COLUMNS - 1)) / IMAGE_COLUMNS;
+  const cellHeight = cellWidth; // images are fitted into square cells
+  const captionHeight = 8;
+
+  writer.heading('Key Images');
+  for (let start = 0; start < document.keyImages.length; start += IMAGE_COLUMNS) {
+    writer.ensureSpace(cellHeight + captionHeight);
+    document.keyImages.slice(start, start + IMAGE_COLUMNS).forEach((image, column) => {
+      const x = MARGIN + column * (cellWidth + IMAGE_GAP);
+      const scale = Math.min(cellWidth / image.width, cellHeight / image.height);
+      const w = image.width * scale;
+      const h = image.height * scale;
+
+      doc.setFillColor(0, 0, 0);
+      doc.rect(x, writer.y, cellWidth, cellHeight, 'F');
+      doc.addImage(new Uint8Array(image.data), 'JPEG', x + (cellWidth - w) / 2, writer.y + (cellHeight - h) / 2, w, h);
+
+      writer.font(7.5, 'normal', COLORS.muted);
+      const caption: string[] = doc.splitTextToSize(image.label, cellWidth);
+      doc.text(caption.slice(0, 2), x, writer.y + cellHeight + 3.5);
+    });
+    writer.y += cellHeight + captionHeight + 2;
+  }
+}
+
+/**
+ * Recorded sign-offs with their attestations, or blank lines to sign by hand
+ */
+function drawSignatureBlock(writer: PdfWriter, document: ReportDocument) {
+  const { doc, contentWidth } = writer;
+  writer.ensureSpace(34);
+  writer.y += 6;
+  writer.font(9, 'bold');
+  doc.text('Radiologist Review', MARGIN, writer.y + 4);
+  writer.y += 8;
+
+  if (document.signatures.length > 0) {
+    document.signatures.forEach(signature => {
+      writer.font(9, 'bold');
+      writer.paragraph(formatSignature(signature), 0, 4.2);
+      writer.font(8, 'italic', COLORS.muted);
+      writer.paragraph(signature.attestation, 0, 3.8);
+      writer.y += 2;
+    });
+    return;
+  }
+
+  writer.y += 6;
+  const fieldWidth = (contentWidth - 12) / 3;
+  doc.setDrawColor(COLORS.text[0], COLORS.text[1], COLORS.text[2]);
+  ['Reviewed by (name)', 'Signature', 'Date'].forEach((label, index) => {
+    const x = MARGIN + index * (fieldWidth + 6);
+    doc.line(x, writer.y, x + fieldWidth, writer.y);
+    writer.font(7.5, 'normal', COLORS.muted);
+    doc.text(label, x, writer.y + 4);
+  });
+  writer.y += 8;
+}
+
+/**
+ * Render a report as a paginated A4 PDF: letterhead and page numbers on
+ * every page, patient header, critical findings, report sections, key image thumbnails,
+ * optional technical metadata, disclaimer, a signature block and addenda
+ */
+export function renderReportPdf(document: ReportDocument): Buffer {
+  const writer = new PdfWriter();
+  const { doc } = writer;
+  doc.setProperties({ title: document.title, creator: PLATFORM_NAME, subject: `Report ${document.id}` });
+
+  writer.fieldPanel(document.patient);
+
+  if (document.criticalFindings.length > 0) {
+    writer.heading('Critical Findings', COLORS.critical);
+    writer.font(10, 'bold', COLORS.critical);
+    document.criticalFindings.forEach(finding => writer.paragraph(finding));
+  }
+
+  for (const section of document.sections) {
+    writer.heading(section.title);
+    if (section.items) {
+      if (section.items.length === 0) {
+        writer.font(10);
+        writer.paragraph('Not reported.');
+      }
+      section.items.forEach((item, index) => {
+        writer.font(10);
+        writer.ensureSpace(LINE_HEIGHT);
+        doc.text(`${index + 1}.`, MARGIN, writer.y + LINE_HEIGHT - 1.2);
+        writer.paragraph(item.text, 6);
+        if (item.sources) {
+          writer.font(8, 'italic', COLORS.muted);
+          writer.paragraph(`Sources: ${item.sources}`, 6, 3.8);
+        }
+        writer.y += 1;
+      });
+    } else {
+      writer.font(10);
+      (section.content ?? '').split(/\n{2,}/).forEach(paragraph => {
+        writer.paragraph(paragraph.trim());
+        writer.y += 1.5;
+      });
+    }
+  }
+
+  if (document.notes.length > 0) {
+    writer.y += 2;
+    writer.font(8.5, 'italic', COLORS.muted);
+    document.notes.forEach(note => writer.paragraph(`Note: ${note}`, 0, 4));
+  }
+
+  if (document.keyImages.length > 0) {
+    drawKeyImages(writer, document);
+  }
+
+  if (document.metadata.length > 0) {
+    writer.heading('Report Details');
+    writer.fieldPanel(document.metadata);
+  }
+
+  writer.heading('Disclaimer');
+  writer.font(8.5, 'normal', COLORS.muted);
+  writer.paragraph(document.disclaimer, 0, 4);
+
+  drawSignatureBlock(writer, document);
+
+  if (document.addenda.length > 0) {
+    writer.heading('Addenda');
+    document.addenda.forEach(addendum => {
+      writer.font(9, 'bold');
+      writer.paragraph(`Addendum by ${addendum.author} on ${addendum.createdAt.toLocaleString()}`, 0, 4.2);
+      writer.font(10);
+      writer.paragraph(addendum.text);
+      writer.y += 2;
+    });
+  }
+
+  const pages = doc.getNumberOfPages();
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    drawLetterhead(writer, document);
+    drawFooter(writer, document, page, pages);
+  }
+
+  return Buffer.from(doc.output('arraybuffer'));
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ReportSynthesis } from '@/types/report';
+import { getDatabase } from './db';
+import { JobQueue } from './job-queue';
+import { ReportRepository, ReportStateError } from './report-repository';
+
+const SYNTHESIS: ReportSynthesis = {
+  findings: 'No pneumothorax.',
+  impressions: [{ statement: 'Normal chest radiograph', evidence: [] }],
+  recommendations: 'None.',
+  sections: [],
+  source: 'model'
+};
+
+function saveReport(synthesis?: ReportSynthesis) {
+  const job = JobQueue.createJob([]);
+  return ReportRepository.save({
+    jobId: job.id,
+    patientInfo: {},
+    totalImages: 0,
+    reportText: 'Report',
+    synthesis,
+    recommendations: 'None.',
+    statistics: { totalImages: 0, totalBatches: 0, successfulBatches: 0, failedBatches: 0, successRate: 0 },
+    criticalFindings: [],
+    createdAt: new Date()
+  });
+}
+
+describe('ReportRepository.transition', () => {
+  it('signs a report and records the signer', () => {
+    const report = ReportRepository.transition(saveReport(SYNTHESIS).id, 'sign-final', { signedBy: 'Dr. Grey' })!;
+    expect(report.status).toBe('final');
+    expect(report.signatures).toMatchObject([{ kind: 'final', signedBy: 'Dr. Grey', version: 1 }]);
+  });
+
+  it('rejects actions the status does not allow', () => {
+    const { id } = saveReport(SYNTHESIS);
+    expect(() => ReportRepository.transition(id, 'reopen')).toThrow(ReportStateError);
+    expect(() => ReportRepository.transition(id, 'amend', { signedBy: 'Dr. Grey' })).toThrow(ReportStateError);
+  });
+
+  it('refuses to sign a report without analysis', () => {
+    const { id } = saveReport();
+    expect(() => ReportRepository.transition(id, 'sign-final', { signedBy: 'Dr. Grey' })).toThrow(/no findings/);
+    expect(ReportRepository.get(id)!.status).toBe('draft');
+    expect(ReportRepository.get(id)!.signatures).toEqual([]);
+  });
+
+  it('signs once a radiologist has written findings', () => {
+    const { id } = saveReport();
+    const report = ReportRepository.transition(id, 'sign-preliminary', {
+      signedBy: 'Dr. Grey',
+      edit: { synthesis: { ...SYNTHESIS, impressions: [] }, reportText: 'Edited' }
+    })!;
+    expect(report.status).toBe('preliminary');
+    expect(report.version).toBe(2);
+    expect(ReportRepository.listVersions(id)![1]).toMatchObject({ kind: 'edited', createdBy: 'Dr. Grey' });
+  });
+});
+
+describe('ReportRepository.edit', () => {
+  it('records who edited the AI draft', () => {
+    const { id } = saveReport(SYNTHESIS);
+    ReportRepository.edit(id, { synthesis: { ...SYNTHESIS, findings: 'Small left pneumothorax.' }, reportText: 'Edited' }, 'Dr. Grey');
+
+    const created = getDatabase()
+      .prepare('SELECT created_by FROM report_versions WHERE report_id = ? ORDER BY version')
+      .pluck()
+      .all(id);
+    expect(created).toEqual([null, 'Dr. Grey']);
+    expect(ReportRepository.listVersions(id)![1]).toMatchObject({ version: 2, kind: 'edited', createdBy: 'Dr. Grey' });
+  });
+});
+
+describe('review record', () => {
+  it('cannot be deleted, also not with its report', () => {
+    const { id } = saveReport(SYNTHESIS);
+    ReportRepository.transition(id, 'sign-final', { signedBy: 'Dr. Grey' });
+    ReportRepository.addAddendum(id, { author: 'Dr. Grey', text: 'Comparison with prior study.' });
+    const db = getDatabase();
+
+    expect(() => db.prepare('DELETE FROM report_versions WHERE report_id = ?').run(id)).toThrow('Report versions cannot be deleted');
+    expect(() => db.prepare('DELETE FROM report_signatures WHERE report_id = ?').run(id)).toThrow('Report signatures cannot be deleted');
+    expect(() => db.prepare('DELETE FROM report_addenda WHERE report_id = ?').run(id)).toThrow('Report addenda cannot be deleted');
+    expect(() => db.prepare('DELETE FROM reports WHERE id = ?').run(id)).toThrow(/cannot be deleted/);
+    expect(ReportRepository.get(id)!.addenda).toHaveLength(1);
+  });
+});
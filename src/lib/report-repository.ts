@@ -0,0 +1,556 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod/v4';
+import {
+  ReportAction,
+  ReportAddendum,
+  ReportPage,
+  ReportSearchQuery,
+  ReportSignature,
+  ReportSortField,
+  ReportSynthesis,
+  ReportVersion,
+  ReportVersionKind,
+  ReportVersionSummary,
+  StoredReport
+} from '@/types/report';
+import { getDatabase } from './db';
+import {
+  ATTESTATIONS,
+  REPORT_ACTIONS,
+  REPORT_STATUS_LABELS,
+  REPORT_TRANSITIONS,
+  canAddAddendum,
+  hasReportFindings,
+  isReportEditable
+} from './report-workflow';
+
+interface ReportSummaryRow {
+  id: string;
+  job_id: string;
+  status: StoredReport['status'];
+  patient_info: string | null;
+  body_part: string | null;
+  template_id: string | null;
+  template_name: string | null;
+  total_images: number;
+  statistics: string;
+  critical_findings: string;
+  version: number;
+  created_at: string;
+  impression: string | null;
+  snippet: string | null;
+}
+
+interface ReportRow extends Omit<ReportSummaryRow, 'impression' | 'snippet'> {
+  report_text: string;
+  synthesis: string | null;
+  recommendations: string;
+  edited_at: string | null;
+}
+
+interface SignatureRow {
+  kind: ReportSignature['kind'];
+  version: number;
+  signed_by: string;
+  attestation: string;
+  reason: string | null;
+  signed_at: string;
+}
+
+interface VersionRow {
+  version: number;
+  kind: ReportVersionKind;
+  report_text: string;
+  synthesis: string | null;
+  recommendations: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface AddendumRow {
+  id: string;
+  text: string;
+  author: string;
+  created_at: string;
+}
+
+/**
+ * Thrown when a report cannot be changed in its current review status,
+ * e.g. editing a signed report
+ */
+export class ReportStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportStateError';
+  }
+}
+
+/**
+ * A radiologist's edit: the changed report and its re-rendered text
+ */
+export interface ReportEdit {
+  synthesis: ReportSynthesis;
+  reportText: string;
+}
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const optionalText = z.string().trim().min(1).optional();
+
+const REPORT_STATUSES = Object.keys(REPORT_STATUS_LABELS) as (keyof typeof REPORT_STATUS_LABELS)[];
+
+/**
+ * Report content edited by a radiologist
+ */
+export const reportContentSchema = z.object({
+  findings: z.string().trim(),
+  impressions: z.array(z.object({
+    statement: z.string().trim().min(1, 'Impression items cannot be empty'),
+    evidence: z.array(z.object({
+      batchId: z.string(),
+      batchNumber: z.number().int(),
+      images: z.array(z.string())
+    })).default([])
+  })),
+  recommendations: z.string().trim(),
+  sections: z.array(z.object({ title: z.string().trim().min(1), content: z.string().trim() })).default([])
+});
+
+/**
+ * Review actions: an amendment needs the reason and the amended content.
+ * The signer is the signed-in user, never taken from the request.
+ */
+export const reportActionSchema = z.object({
+  action: z.enum(REPORT_ACTIONS),
+  reason: optionalText,
+  content: reportContentSchema.optional()
+}).superRefine((input, context) => {
+  if (input.action === 'amend' && !input.reason) {
+    context.addIssue({ code: 'custom', path: ['reason'], message: 'A reason for the amendment is required' });
+  }
+  if (input.action === 'amend' && !input.content) {
+    context.addIssue({ code: 'custom', path: ['content'], message: 'The amended report content is required' });
+  }
+});
+
+// The author is the signed-in user
+export const addendumSchema = z.object({
+  text: z.string().trim().min(1, 'The addendum cannot be empty')
+});
+
+/**
+ * Search parameters accepted from API clients
+ */
+export const reportSearchSchema = z.object({
+  text: optionalText,
+  patient: optionalText,
+  modality: optionalText,
+  bodyPart: optionalText,
+  status: z.enum(REPORT_STATUSES).optional(),
+  templateId: optionalText,
+  critical: z.stringbool().optional(),
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional(),
+  sort: z.enum(['createdAt', 'patientName', 'modality', 'bodyPart', 'templateName', 'status', 'totalImages', 'relevance']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(DEFAULT_PAGE_SIZE)
+});
+
+const SORT_COLUMNS: Record<Exclude<ReportSortField, 'relevance'>, string> = {
+  createdAt: 'reports.created_at',
+  patientName: 'reports.patient_name COLLATE NOCASE',
+  modality: 'reports.modality COLLATE NOCASE',
+  bodyPart: 'reports.body_part COLLATE NOCASE',
+  templateName: 'reports.template_name COLLATE NOCASE',
+  status: 'reports.status',
+  totalImages: 'reports.total_images'
+};
+
+const SUMMARY_COLUMNS = `
+  reports.id, reports.job_id, reports.status, reports.patient_info, reports.body_part,
+  reports.template_id, reports.template_name, reports.total_images, reports.statistics, reports.critical_findings, reports.version, reports.created_at,
+  json_extract(reports.synthesis, '$.impressions[0].statement') AS impression
+`;
+
+/**
+ * FTS5 query matching every word of the search text by prefix. Words are
+ * quoted so punctuation in the input cannot form query syntax.
+ */
+function toMatchQuery(text: string): string | undefined {
+  const words = text.match(/[\p{L}\p{N}]+/gu);
+  return words?.map(word => `"${word}"*`).join(' ');
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+function toSummaryFields(row: ReportSummaryRow | ReportRow) {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    status: row.status,
+    patientInfo: row.patient_info ? JSON.parse(row.patient_info) : {},
+    bodyPart: row.body_part ?? undefined,
+    templateId: row.template_id ?? undefined,
+    templateName: row.template_name ?? undefined,
+    totalImages: row.total_images,
+    statistics: JSON.parse(row.statistics),
+    criticalFindings: JSON.parse(row.critical_findings),
+    version: row.version,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function toSignature(row: SignatureRow): ReportSignature {
+  return {
+    kind: row.kind,
+    version: row.version,
+    signedBy: row.signed_by,
+    attestation: row.attestation,
+    reason: row.reason ?? undefined,
+    signedAt: new Date(row.signed_at)
+  };
+}
+
+function toAddendum(row: AddendumRow): ReportAddendum {
+  return {
+    id: row.id,
+    text: row.text,
+    author: row.author,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function toVersionSummary(row: Omit<VersionRow, 'report_text' | 'synthesis' | 'recommendations'>): ReportVersionSummary {
+  return {
+    version: row.version,
+    kind: row.kind,
+    createdBy: row.created_by ?? undefined,
+    createdAt: new Date(row.created_at)
+  };
+}
+
+function toReport(row: ReportRow, signatures: SignatureRow[], addenda: AddendumRow[]): StoredReport {
+  return {
+    ...toSummaryFields(row),
+    reportText: row.report_text,
+    synthesis: row.synthesis ? JSON.parse(row.synthesis) : undefined,
+    recommendations: row.recommendations,
+    signatures: signatures.map(toSignature),
+    addenda: addenda.map(toAddendum),
+    editedAt: row.edited_at ? new Date(row.edited_at) : undefined
+  };
+}
+
+/**
+ * Keep a copy of a report's text as it is now. Versions are never changed.
+ */
+function insertVersion(
+  reportId: string,
+  version: number,
+  kind: ReportVersionKind,
+  report: Pick<ReportRow, 'report_text' | 'synthesis' | 'recommendations'>,
+  createdBy: string | undefined,
+  now: string
+) {
+  getDatabase().prepare(`
+    INSERT INTO report_versions (id, report_id, version, kind, report_text, synthesis, recommendations, created_by, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(`version_${randomUUID()}`, reportId, version, kind, report.report_text, report.synthesis, report.recommendations, createdBy ?? null, now);
+}
+
+/**
+ * Store an edit as the next version of the report. Call inside a
+ * transaction. Returns the new version number.
+ */
+function saveEdit(id: string, current: number, edit: ReportEdit, kind: ReportVersionKind, createdBy: string | undefined, now: string): number {
+  const version = current + 1;
+  const row = {
+    report_text: edit.reportText,
+    synthesis: JSON.stringify(edit.synthesis),
+    recommendations: edit.synthesis.recommendations || 'Please review all findings with a qualified medical professional.'
+  };
+  getDatabase().prepare(`
+    UPDATE reports SET report_text = ?, synthesis = ?, recommendations = ?, version = ?, edited_at = ?
+    WHERE id = ?
+  `).run(row.report_text, row.synthesis, row.recommendations, version, now, id);
+  insertVersion(id, version, kind, row, createdBy, now);
+  return version;
+}
+
+/**
+ * Generated reports. Every report generated for a job is kept, so
+ * regenerating after a retry adds to the history. The report text is
+ * indexed for full-text search. Reports start as drafts and move through
+ * the review workflow in report-workflow.ts. Every change of the text is
+ * kept as a numbered version, starting with the AI draft as version 1.
+ */
+export class ReportRepository {
+  static save(report: Omit<StoredReport, 'id' | 'status' | 'version' | 'signatures' | 'addenda' | 'editedAt'>): StoredReport {
+    const db = getDatabase();
+    const id = `report_${randomUUID()}`;
+    const now = report.createdAt.toISOString();
+    const content = {
+      report_text: report.reportText,
+      synthesis: report.synthesis ? JSON.stringify(report.synthesis) : null,
+      recommendations: report.recommendations
+    };
+
+    db.transaction(() => {
+      db.prepare(`
+        INSERT INTO reports (id, job_id, status, patient_info, body_part, template_id, template_name, total_images, report_text, synthesis, recommendations, statistics, critical_findings, version, created_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        report.jobId,
+        'draft',
+        JSON.stringify(report.patientInfo),
+        report.bodyPart ?? null,
+        report.templateId ?? null,
+        report.templateName ?? null,
+        report.totalImages,
+        content.report_text,
+        content.synthesis,
+        content.recommendations,
+        JSON.stringify(report.statistics),
+        JSON.stringify(report.criticalFindings),
+        1,
+        now
+      );
+      insertVersion(id, 1, 'generated', content, undefined, now);
+    })();
+    return this.get(id)!;
+  }
+
+  /**
+   * The report generated last for a job
+   */
+  static getLatestForJob(jobId: string): StoredReport | undefined {
+    const id = getDatabase()
+      .prepare('SELECT id FROM reports WHERE job_id = ? ORDER BY created_at DESC, rowid DESC LIMIT 1')
+      .pluck()
+      .get(jobId) as string | undefined;
+    return id ? this.get(id) : undefined;
+  }
+
+  static get(id: string): StoredReport | undefined {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM reports WHERE id = ?').get(id) as ReportRow | undefined;
+    if (!row) return undefined;
+
+    const signatures = db
+      .prepare('SELECT * FROM report_signatures WHERE report_id = ? ORDER BY signed_at, rowid')
+      .all(id) as SignatureRow[];
+    const addenda = db
+      .prepare('SELECT * FROM report_addenda WHERE report_id = ? ORDER BY created_at, rowid')
+      .all(id) as AddendumRow[];
+    return toReport(row, signatures, addenda);
+  }
+
+  /**
+   * Versions of a report, oldest first, without their text
+   */
+  static listVersions(id: string): ReportVersionSummary[] | undefined {
+    const db = getDatabase();
+    if (!db.prepare('SELECT 1 FROM reports WHERE id = ?').get(id)) return undefined;
+
+    const rows = db
+      .prepare('SELECT version, kind, created_by, created_at FROM report_versions WHERE report_id = ? ORDER BY version')
+      .all(id) as Omit<VersionRow, 'report_text' | 'synthesis' | 'recommendations'>[];
+    return rows.map(toVersionSummary);
+  }
+
+  static getVersion(id: string, version: number): ReportVersion | undefined {
+    const row = getDatabase()
+      .prepare('SELECT * FROM report_versions WHERE report_id = ? AND version = ?')
+      .get(id, version) as VersionRow | undefined;
+    if (!row) return undefined;
+
+    return {
+      ...toVersionSummary(row),
+      reportText: row.report_text,
+      synthesis: row.synthesis ? JSON.parse(row.synthesis) : undefined,
+      recommendations: row.recommendations
+    };
+  }
+
+  /**
+   * Save a radiologist's corrections to a report that is not signed yet,
+   * recording who made them with the new version
+   */
+  static edit(id: string, edit: ReportEdit, createdBy: string): StoredReport | undefined {
+    const db = getDatabase();
+    const found = db.transaction(() => {
+      const report = db.prepare('SELECT status, version FROM reports WHERE id = ?').get(id) as Pick<ReportRow, 'status' | 'version'> | undefined;
+      if (!report) return false;
+      if (!isReportEditable(report.status)) {
+        throw new ReportStateError(`Report ${id} is signed (${REPORT_STATUS_LABELS[report.status]}) and can only be changed by amendment`);
+      }
+      saveEdit(id, report.version, edit, 'edited', createdBy, new Date().toISOString());
+      return true;
+    })();
+    return found ? this.get(id) : undefined;
+  }
+
+  /**
+   * Move a report through the review workflow. Signing actions record who
+   * signed which version and when; an edit given with a signing action is
+   * saved first, in the same transaction, and is required for an amendment.
+   * A report without findings or an impression, e.g. of a failed analysis,
+   * cannot be signed.
+   */
+  static transition(
+    id: string,
+    action: ReportAction,
+    options: { signedBy?: string; reason?: string; edit?: ReportEdit } = {}
+  ): StoredReport | undefined {
+    const db = getDatabase();
+    const transition = REPORT_TRANSITIONS[action];
+
+    const found = db.transaction(() => {
+      const report = db.prepare('SELECT status, version FROM reports WHERE id = ?').get(id) as Pick<ReportRow, 'status' | 'version'> | undefined;
+      if (!report) return false;
+      if (!transition.from.includes(report.status)) {
+        throw new ReportStateError(`Cannot ${action} a report that is ${REPORT_STATUS_LABELS[report.status].toLowerCase()}`);
+      }
+      if (options.edit && action !== 'amend' && !isReportEditable(report.status)) {
+        throw new ReportStateError(`Report ${id} is signed; reopen it before editing`);
+      }
+      if (transition.signature && !options.signedBy) {
+        throw new ReportStateError('Signing a report requires the name of the radiologist');
+      }
+      if (action === 'amend' && !options.edit) {
+        throw new ReportStateError('An amendment requires the amended report');
+      }
+
+      const now = new Date().toISOString();
+      const version = options.edit
+        ? saveEdit(id, report.version, options.edit, action === 'amend' ? 'amended' : 'edited', options.signedBy, now)
+        : report.version;
+      if (transition.signature) {
+        const synthesis = db.prepare('SELECT synthesis FROM reports WHERE id = ?').pluck().get(id) as string | null;
+        if (!hasReportFindings(synthesis ? JSON.parse(synthesis) : undefined)) {
+          throw new ReportStateError(`Report ${id} has no findings or impression to sign`);
+        }
+        db.prepare(`
+          INSERT INTO report_signatures (id, report_id, kind, version, signed_by, attestation, reason, signed_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        `).run(
+          `signature_${randomUUID()}`,
+          id,
+          transition.signature,
+          version,
+          options.signedBy,
+          ATTESTATIONS[transition.signature],
+          options.reason ?? null,
+          now
+        );
+      }
+      db.prepare('UPDATE reports SET status = ? WHERE id = ?').run(transition.to, id);
+      return true;
+    })();
+    return found ? this.get(id) : undefined;
+  }
+
+  /**
+   * Append an addendum to a final report
+   */
+  static addAddendum(id: string, addendum: Pick<ReportAddendum, 'text' | 'author'>): StoredReport | undefined {
+    const db = getDatabase();
+    const found = db.transaction(() => {
+      const report = db.prepare('SELECT status FROM reports WHERE id = ?').get(id) as Pick<ReportRow, 'status'> | undefined;
+      if (!report) return false;
+      if (!canAddAddendum(report.status)) {
+        throw new ReportStateError(`Addenda can only be added to final reports; report ${id} is ${REPORT_STATUS_LABELS[report.status].toLowerCase()}`);
+      }
+      db.prepare('INSERT INTO report_addenda (id, report_id, text, author, created_at) VALUES (?, ?, ?, ?, ?)')
+        .run(`addendum_${randomUUID()}`, id, addendum.text, addendum.author, new Date().toISOString());
+      return true;
+    })();
+    return found ? this.get(id) : undefined;
+  }
+
+  /**
+   * One page of the reports matching a search, newest first unless sorted
+   * otherwise. Without filters this is the whole report history.
+   */
+  static search(query: ReportSearchQuery = {}): ReportPage {
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE;
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    let source = 'reports';
+    let snippet = 'NULL';
+
+    const match = query.text ? toMatchQuery(query.text) : undefined;
+    if (match) {
+      source += ' JOIN reports_fts ON reports_fts.report_id = reports.id';
+      snippet = `snippet(reports_fts, 1, '', '', '…', 16)`;
+      conditions.push('reports_fts MATCH ?');
+      params.push(match);
+    }
+    if (query.patient) {
+      const pattern = `%${escapeLike(query.patient)}%`;
+      conditions.push(`(reports.patient_name LIKE ? ESCAPE '\\' OR reports.patient_id LIKE ? ESCAPE '\\')`);
+      params.push(pattern, pattern);
+    }
+    if (query.modality) {
+      conditions.push('reports.modality = ? COLLATE NOCASE');
+      params.push(query.modality);
+    }
+    if (query.bodyPart) {
+      conditions.push('reports.body_part = ? COLLATE NOCASE');
+      params.push(query.bodyPart);
+    }
+    if (query.status) {
+      conditions.push('reports.status = ?');
+      params.push(query.status);
+    }
+    if (query.templateId) {
+      conditions.push('reports.template_id = ?');
+      params.push(query.templateId);
+    }
+    if (query.critical !== undefined) {
+      conditions.push(query.critical ? 'reports.critical_count > 0' : 'reports.critical_count = 0');
+    }
+    // Dates are compared by UTC day, as stored
+    if (query.from) {
+      conditions.push('reports.created_at >= ?');
+      params.push(query.from);
+    }
+    if (query.to) {
+      conditions.push(`reports.created_at < date(?, '+1 day')`);
+      params.push(query.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const sort = query.sort ?? 'createdAt';
+    const order = sort === 'relevance'
+      ? (match ? 'bm25(reports_fts)' : `${SORT_COLUMNS.createdAt} DESC`)
+      : `${SORT_COLUMNS[sort]} ${query.order === 'asc' ? 'ASC' : 'DESC'}`;
+
+    const db = getDatabase();
+    const rows = db.prepare(`
+      SELECT ${SUMMARY_COLUMNS}, ${snippet} AS snippet
+      FROM ${source}
+      ${where}
+      ORDER BY ${order}, reports.created_at DESC, reports.rowid DESC
+      LIMIT ? OFFSET ?
+    `).all(...params, pageSize, (page - 1) * pageSize) as ReportSummaryRow[];
+    const { total } = db.prepare(`SELECT COUNT(*) AS total FROM ${source} ${where}`).get(...params) as { total: number };
+
+    return {
+      reports: rows.map(row => ({
+        ...toSummaryFields(row),
+        impression: row.impression ?? undefined,
+        snippet: row.snippet?.replace(/\s+/g, ' ') ?? undefined
+      })),
+      page,
+      pageSize,
+      total
+    };
+  }
+}
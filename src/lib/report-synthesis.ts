@@ -0,0 +1,171 @@
+import { DiagnosticReport, ImageBatch } from '@/types/medical';
+import { AIAnalysisResponse, EvidenceReference, ReportImpression, ReportSynthesis } from '@/types/report';
+import { AIClient } from './ai-client';
+import { SynthesisResponse, mapSynthesisText } from './ai-response';
+import { createTextDeidentifier } from './deidentification';
+import { getSectionKind } from './report-templates';
+import { describeImage } from './study-grouping';
+
+interface AnalyzedBatch {
+  batch: ImageBatch;
+  batchNumber: number; // 1-based position in the job, as in progress and error messages
+  analysis: AIAnalysisResponse;
+}
+
+function getAnalyzedBatches(batches: ImageBatch[]): AnalyzedBatch[] {
+  return batches.flatMap((batch, index) => {
+    if (batch.status !== 'completed' || !batch.aiResponse) return [];
+    try {
+      return [{ batch, batchNumber: index + 1, analysis: JSON.parse(batch.aiResponse) as AIAnalysisResponse }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function buildSynthesisPrompt(
+  analyzed: AnalyzedBatch[],
+  extraSections: string[],
+  patientInfo?: DiagnosticReport['patientInfo']
+): string {
+  const sections = analyzed.map(({ batch, batchNumber, analysis }) => {
+    const lines = [`BATCH ${batchNumber}`];
+    if (batch.seriesImageCount && batch.seriesImageCount > batch.images.length) {
+      lines.push(`Sampled from a series of ${batch.seriesImageCount} images`);
+    }
+    lines.push('Images:', ...batch.images.map((image, i) => `  ${i + 1}. ${describeImage(image)}`));
+    lines.push(`Findings: ${analysis.findings}`);
+    if (analysis.impressions) lines.push(`Impressions: ${analysis.impressions}`);
+    if (analysis.keyObservations.length > 0) {
+      lines.push('Key observations:', ...analysis.keyObservations.map(observation => `  - ${observation}`));
+    }
+    if (analysis.imageObservations.length > 0) {
+      lines.push('Image observations:', ...analysis.imageObservations.map(item => `  - image ${item.image}: ${item.observation}`));
+    }
+    if (analysis.recommendations) lines.push(`Recommendations: ${analysis.recommendations}`);
+    if (analysis.technicalNotes) lines.push(`Technical notes: ${analysis.technicalNotes}`);
+    return lines.join('\n');
+  });
+
+  const patient = patientInfo && Object.values(patientInfo).some(Boolean)
+    ? `Study: ${[patientInfo.modality, patientInfo.studyDate].filter(Boolean).join(', ') || 'unspecified'}\n\n`
+    : '';
+
+  const extra = extraSections.length > 0
+    ? `\n5. Also write these report sections, with exactly these titles: ${extraSections.join(', ')}`
+    : '';
+
+  return `The images of one study were analyzed in ${analyzed.length} separate ${analyzed.length === 1 ? 'batch' : 'batches'}. The results follow.
+
+${patient}${sections.join('\n\n')}
+
+Consolidate these results into a single coherent report for the whole study:
+1. Write one set of findings; merge repeated observations and do not refer to batches in the text
+2. Where batches disagree, weigh the evidence and state the uncertainty instead of contradicting yourself
+3. List the impression items, most important first. For every item cite the batches and image numbers that support it
+4. Give one set of recommendations${extra}`;
+}
+
+/**
+ * Map model citations onto the batches and images they name, one reference
+ * per batch. Citations of batches or images that do not exist are dropped.
+ */
+function resolveEvidence(sources: SynthesisResponse['impressions'][number]['sources'], analyzed: AnalyzedBatch[]): EvidenceReference[] {
+  const evidence = new Map<number, EvidenceReference>();
+  for (const source of sources) {
+    const cited = analyzed.find(item => item.batchNumber === source.batch);
+    if (!cited) continue;
+
+    const reference = evidence.get(cited.batchNumber)
+      ?? { batchId: cited.batch.id, batchNumber: cited.batchNumber, images: [] };
+    for (const image of source.images) {
+      const label = Number.isInteger(image) && image >= 1 && image <= cited.batch.images.length
+        ? describeImage(cited.batch.images[image - 1])
+        : undefined;
+      if (label && !reference.images.includes(label)) {
+        reference.images.push(label);
+      }
+    }
+    evidence.set(cited.batchNumber, reference);
+  }
+  return Array.from(evidence.values());
+}
+
+/**
+ * Report assembled from the batch analyses as they are, each impression
+ * traced to the batch it came from
+ */
+function combineBatchAnalyses(analyzed: AnalyzedBatch[], extraSections: string[], errors?: string[]): ReportSynthesis {
+  const single = analyzed.length === 1;
+  const impressions: ReportImpression[] = analyzed.flatMap(({ batch, batchNumber, analysis }) => {
+    const statements = analysis.keyObservations.length > 0
+      ? analysis.keyObservations
+      : analysis.impressions ? [analysis.impressions] : [];
+    return statements.map(statement => ({
+      statement,
+      evidence: [{ batchId: batch.id, batchNumber, images: [] }]
+    }));
+  });
+
+  return {
+    findings: single
+      ? analyzed[0].analysis.findings
+      : analyzed.map(({ batchNumber, analysis }) => `Batch ${batchNumber}: ${analysis.findings}`).join('\n\n'),
+    impressions,
+    recommendations: Array.from(new Set(analyzed.map(({ analysis }) => analysis.recommendations).filter(Boolean))).join('\n\n'),
+    // Only technique can be filled without the model, from the technical notes
+    sections: extraSections
+      .filter(title => /^(technique|technical notes)$/i.test(title))
+      .map(title => ({
+        title,
+        content: Array.from(new Set(analyzed.map(({ analysis }) => analysis.technicalNotes).filter(Boolean))).join('\n\n')
+      }))
+      .filter(section => section.content),
+    source: 'batches',
+    errors
+  };
+}
+
+/**
+ * Second pass over the results of a job: send every batch analysis back to
+ * the model, without images, for one consolidated Findings / Impression /
+ * Recommendations with each impression traced to its batches and images,
+ * plus any other sections of the report template. A single analyzed batch
+ * needs no consolidation unless the template has such sections. When the
+ * model call fails the batch analyses are combined as they are and the
+ * error is recorded. Returns undefined when no batch was analyzed. The
+ * prompt is de-identified like the batch requests and the response
+ * re-identified.
+ */
+export async function synthesizeReport(
+  batches: ImageBatch[],
+  options: { systemPrompt?: string; patientInfo?: DiagnosticReport['patientInfo']; sections?: string[] } = {}
+): Promise<ReportSynthesis | undefined> {
+  const analyzed = getAnalyzedBatches(batches);
+  const extraSections = (options.sections ?? []).filter(title => !getSectionKind(title));
+  if (analyzed.length === 0) return undefined;
+  if (analyzed.length === 1 && extraSections.length === 0) return combineBatchAnalyses(analyzed, extraSections);
+
+  try {
+    const deidentifier = createTextDeidentifier(analyzed.flatMap(({ batch }) => batch.images), { patientInfo: options.patientInfo });
+    const prompt = deidentifier.deidentifyText(buildSynthesisPrompt(analyzed, extraSections, deidentifier.patientInfo));
+    const response = mapSynthesisText(
+      await new AIClient(options.systemPrompt).synthesizeReport(prompt),
+      deidentifier.reidentifyText
+    );
+
+    return {
+      findings: response.findings,
+      impressions: response.impressions.map(item => ({
+        statement: item.statement,
+        evidence: resolveEvidence(item.sources, analyzed)
+      })),
+      recommendations: response.recommendations,
+      sections: response.sections,
+      source: 'model'
+    };
+  } catch (error) {
+    console.error('Report consolidation failed, combining batch analyses instead:', error);
+    return combineBatchAnalyses(analyzed, extraSections, [error instanceof Error ? error.message : String(error)]);
+  }
+}
@@ -0,0 +1,282 @@
+import { randomUUID } from 'crypto';
+import { z } from 'zod/v4';
+import { ReportTemplate, ReportTemplateInput } from '@/types/report';
+import { AIClient } from './ai-client';
+import { getDatabase } from './db';
+
+interface TemplateRow {
+  id: string;
+  name: string;
+  description: string | null;
+  modalities: string;
+  body_parts: string;
+  system_prompt: string;
+  sections: string;
+  is_default: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Thrown when a template cannot be changed, e.g. because it is built in
+ */
+export class TemplateStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateStateError';
+  }
+}
+
+export type SectionKind = 'findings' | 'impression' | 'recommendations';
+
+/**
+ * Sections filled from the consolidated findings, impression list and
+ * recommendations. Any other heading is written by the model on request.
+ */
+export function getSectionKind(title: string): SectionKind | undefined {
+  if (/^(clinical )?findings$/i.test(title.trim())) return 'findings';
+  if (/^impressions?$/i.test(title.trim())) return 'impression';
+  if (/^recommendations?$/i.test(title.trim())) return 'recommendations';
+  return undefined;
+}
+
+export const DEFAULT_SECTIONS = ['Findings', 'Impression', 'Recommendations'];
+
+// Kept in line with the default prompt so heading-based parsing still works
+const RESPONSE_FORMAT = `RESPONSE FORMAT:
+Provide your analysis in the following structured format:
+- CLINICAL FINDINGS: Detailed observations of what you see in the images
+- IMPRESSIONS: Your clinical interpretation of the findings
+- RECOMMENDATIONS: Suggested next steps or follow-up actions
+- TECHNICAL NOTES: Any technical observations about image quality or acquisition
+
+Remember: This is an AI-assisted analysis and should always be reviewed by qualified medical professionals.`;
+
+const BUILT_IN_TEMPLATES: Omit<ReportTemplate, 'isDefault' | 'builtIn'>[] = [
+  {
+    id: 'builtin-general',
+    name: 'General Radiology',
+    description: 'Findings, impression and recommendations for any study',
+    modalities: [],
+    bodyParts: [],
+    systemPrompt: AIClient.getDefaultSystemPrompt(),
+    sections: DEFAULT_SECTIONS
+  },
+  {
+    id: 'builtin-chest-xray',
+    name: 'Chest X-ray',
+    description: 'PA/AP and lateral chest radiographs',
+    modalities: ['CR', 'DX'],
+    bodyParts: ['CHEST'],
+    systemPrompt: `You are an expert chest radiologist specializing in thoracic imaging.
+Focus on lung parenchyma, airways, pleural spaces, cardiac silhouette, mediastinum, and chest wall.
+Identify consolidation, pneumothorax, pleural effusions, nodules and masses, and cardiac enlargement.
+Note lines, tubes and devices and whether they are correctly positioned.
+
+${RESPONSE_FORMAT}`,
+    sections: ['Technique', 'Lungs and Airways', 'Pleura', 'Heart and Mediastinum', 'Bones and Soft Tissues', 'Impression', 'Recommendations']
+  },
+  {
+    id: 'builtin-ct-head',
+    name: 'CT Head',
+    description: 'Non-contrast and contrast CT of the head',
+    modalities: ['CT'],
+    bodyParts: ['HEAD', 'BRAIN'],
+    systemPrompt: `You are a neuroradiologist specializing in CT of the head.
+Review brain windows for hemorrhage, infarction, mass effect, midline shift and hydrocephalus,
+and bone windows for fractures. Describe extra-axial collections and their maximum thickness.
+Flag findings that need urgent neurosurgical attention.
+
+${RESPONSE_FORMAT}`,
+    sections: ['Technique', 'Brain Parenchyma', 'Ventricles and Extra-axial Spaces', 'Vascular Structures', 'Skull and Scalp', 'Impression', 'Recommendations']
+  },
+  {
+    id: 'builtin-mri-knee',
+    name: 'MRI Knee',
+    description: 'Routine MRI of the knee',
+    modalities: ['MR'],
+    bodyParts: ['KNEE'],
+    systemPrompt: `You are a musculoskeletal radiologist with expertise in MRI of the knee.
+Assess the menisci for tears, the cruciate and collateral ligaments, articular cartilage,
+bone marrow signal, the extensor mechanism, joint effusion and popliteal cysts.
+Grade injuries and describe tear morphology and location.
+
+${RESPONSE_FORMAT}`,
+    sections: ['Technique', 'Menisci', 'Ligaments', 'Cartilage', 'Bones and Bone Marrow', 'Extensor Mechanism and Soft Tissues', 'Impression', 'Recommendations']
+  },
+  {
+    id: 'builtin-mammography',
+    name: 'Mammography',
+    description: 'Screening and diagnostic mammograms with BI-RADS assessment',
+    modalities: ['MG'],
+    bodyParts: ['BREAST'],
+    systemPrompt: `You are a breast imaging radiologist interpreting mammography.
+Describe breast composition, masses, calcifications, architectural distortion and asymmetries
+using BI-RADS lexicon, with laterality, clock-face location and depth.
+Give a BI-RADS assessment category for the examination.
+
+${RESPONSE_FORMAT}`,
+    sections: ['Technique', 'Breast Composition', 'Findings', 'Impression', 'BI-RADS Assessment', 'Recommendations']
+  }
+];
+
+const DEFAULT_TEMPLATE_ID = 'builtin-general';
+
+const stringList = z.array(z.string().trim().min(1)).default([]);
+
+/**
+ * Template fields accepted from API clients
+ */
+export const templateInputSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  description: z.string().trim().optional(),
+  modalities: stringList.transform(values => values.map(value => value.toUpperCase())),
+  bodyParts: stringList.transform(values => values.map(value => value.toUpperCase())),
+  systemPrompt: z.string().trim().min(1, 'System prompt is required'),
+  sections: z.array(z.string().trim().min(1))
+    .min(1, 'At least one section is required')
+    .refine(sections => new Set(sections.map(section => section.toLowerCase())).size === sections.length, 'Section headings must be unique'),
+  isDefault: z.boolean().default(false)
+});
+
+function toTemplate(row: TemplateRow): ReportTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    modalities: JSON.parse(row.modalities),
+    bodyParts: JSON.parse(row.body_parts),
+    systemPrompt: row.system_prompt,
+    sections: JSON.parse(row.sections),
+    isDefault: row.is_default === 1,
+    builtIn: false,
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+/**
+ * Report templates: the built-in templates plus templates saved by users.
+ * A template sets the system prompt of the batch analyses and the section
+ * layout of the generated report. One template is the default; a saved
+ * template marked as default takes over from General Radiology.
+ */
+export class ReportTemplates {
+  static list(): ReportTemplate[] {
+    const rows = getDatabase()
+      .prepare('SELECT * FROM report_templates ORDER BY name COLLATE NOCASE')
+      .all() as TemplateRow[];
+    const saved = rows.map(toTemplate);
+    const hasSavedDefault = saved.some(template => template.isDefault);
+
+    const builtIn = BUILT_IN_TEMPLATES.map(template => ({
+      ...template,
+      isDefault: !hasSavedDefault && template.id === DEFAULT_TEMPLATE_ID,
+      builtIn: true
+    }));
+    return [...builtIn, ...saved];
+  }
+
+  static get(id: string): ReportTemplate | undefined {
+    return this.list().find(template => template.id === id);
+  }
+
+  static getDefault(): ReportTemplate {
+    return this.list().find(template => template.isDefault)!;
+  }
+
+  /**
+   * Template best suited to a study: one that names both its modality and
+   * body part, then one that names the modality, then the default. Saved
+   * templates win over built-in ones that match equally well.
+   */
+  static findForStudy(modality?: string, bodyPart?: string): ReportTemplate {
+    const matches = (values: string[], value?: string) =>
+      values.length === 0 || (!!value && values.includes(value.toUpperCase()));
+    const score = (template: ReportTemplate) =>
+      (template.modalities.length > 0 ? 2 : 0) + (template.bodyParts.length > 0 ? 1 : 0);
+
+    const candidates = this.list()
+      .filter(template => matches(template.modalities, modality) && matches(template.bodyParts, bodyPart))
+      .filter(template => score(template) > 0)
+      .sort((a, b) => score(b) - score(a) || Number(a.builtIn) - Number(b.builtIn));
+
+    return candidates[0] ?? this.getDefault();
+  }
+
+  static create(input: ReportTemplateInput): ReportTemplate {
+    const db = getDatabase();
+    const id = `template_${randomUUID()}`;
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      if (input.isDefault) {
+        db.prepare('UPDATE report_templates SET is_default = 0').run();
+      }
+      db.prepare(`
+        INSERT INTO report_templates (id, name, description, modalities, body_parts, system_prompt, sections, is_default, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        input.name,
+        input.description ?? null,
+        JSON.stringify(input.modalities),
+        JSON.stringify(input.bodyParts),
+        input.systemPrompt,
+        JSON.stringify(input.sections),
+        input.isDefault ? 1 : 0,
+        now,
+        now
+      );
+    })();
+
+    return this.get(id)!;
+  }
+
+  /**
+   * Replace a saved template. Built-in templates are read-only; copy them
+   * with create instead.
+   */
+  static update(id: string, input: ReportTemplateInput): ReportTemplate | undefined {
+    const existing = this.get(id);
+    if (!existing) return undefined;
+    if (existing.builtIn) {
+      throw new TemplateStateError(`${existing.name} is a built-in template and cannot be changed`);
+    }
+
+    const db = getDatabase();
+    db.transaction(() => {
+      if (input.isDefault) {
+        db.prepare('UPDATE report_templates SET is_default = 0').run();
+      }
+      db.prepare(`
+        UPDATE report_templates
+        SET name = ?, description = ?, modalities = ?, body_parts = ?, system_prompt = ?, sections = ?, is_default = ?, updated_at = ?
+        WHERE id = ?
+      `).run(
+        input.name,
+        input.description ?? null,
+        JSON.stringify(input.modalities),
+        JSON.stringify(input.bodyParts),
+        input.systemPrompt,
+        JSON.stringify(input.sections),
+        input.isDefault ? 1 : 0,
+        new Date().toISOString(),
+        id
+      );
+    })();
+
+    return this.get(id)!;
+  }
+
+  static delete(id: string): boolean {
+    const existing = this.get(id);
+    if (!existing) return false;
+    if (existing.builtIn) {
+      throw new TemplateStateError(`${existing.name} is a built-in template and cannot be deleted`);
+    }
+
+    getDatabase().prepare('DELETE FROM report_templates WHERE id = ?').run(id);
+    return true;
+  }
+}
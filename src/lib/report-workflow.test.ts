@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import {
+  REPORT_TRANSITIONS,
+  canAddAddendum,
+  getAvailableActions,
+  hasReportFindings,
+  isReportEditable,
+  isReportSigned
+} from './report-workflow';
+
+describe('report workflow', () => {
+  it('offers the actions each status allows', () => {
+    expect(getAvailableActions('draft')).toEqual(['submit', 'sign-preliminary', 'sign-final']);
+    expect(getAvailableActions('under_review')).toEqual(['sign-preliminary', 'sign-final']);
+    expect(getAvailableActions('preliminary')).toEqual(['sign-final', 'reopen']);
+    expect(getAvailableActions('final')).toEqual(['amend']);
+    expect(getAvailableActions('amended')).toEqual(['amend']);
+  });
+
+  it('records a signature for signing actions only', () => {
+    expect(REPORT_TRANSITIONS['sign-preliminary'].signature).toBe('preliminary');
+    expect(REPORT_TRANSITIONS['sign-final'].signature).toBe('final');
+    expect(REPORT_TRANSITIONS.amend.signature).toBe('amendment');
+    expect(REPORT_TRANSITIONS.submit.signature).toBeUndefined();
+    expect(REPORT_TRANSITIONS.reopen.signature).toBeUndefined();
+  });
+
+  it('locks signed reports for editing', () => {
+    expect(isReportEditable('draft')).toBe(true);
+    expect(isReportEditable('under_review')).toBe(true);
+    expect(isReportSigned('preliminary')).toBe(true);
+    expect(isReportSigned('final')).toBe(true);
+  });
+
+  it('takes addenda on final reports only', () => {
+    expect(canAddAddendum('final')).toBe(true);
+    expect(canAddAddendum('amended')).toBe(true);
+    expect(canAddAddendum('preliminary')).toBe(false);
+    expect(canAddAddendum('draft')).toBe(false);
+  });
+
+  it('needs findings or an impression to sign', () => {
+    expect(hasReportFindings(undefined)).toBe(false);
+    expect(hasReportFindings({ findings: '  ', impressions: [] })).toBe(false);
+    expect(hasReportFindings({ findings: 'No acute findings.', impressions: [] })).toBe(true);
+    expect(hasReportFindings({ findings: '', impressions: [{ statement: 'Normal study', evidence: [] }] })).toBe(true);
+  });
+});
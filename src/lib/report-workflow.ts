@@ -0,0 +1,77 @@
+import { ReportStatus } from '@/types/medical';
+import { ReportAction, ReportContent, ReportSignatureKind } from '@/types/report';
+
+/**
+ * Review workflow rules, shared by the server and the report page
+ */
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  draft: 'Draft',
+  under_review: 'Under Review',
+  preliminary: 'Preliminary',
+  final: 'Final',
+  amended: 'Amended'
+};
+
+export const SIGNATURE_KIND_LABELS: Record<ReportSignatureKind, string> = {
+  preliminary: 'Preliminary report',
+  final: 'Final report',
+  amendment: 'Amendment'
+};
+
+interface Transition {
+  from: ReportStatus[];
+  to: ReportStatus;
+  signature?: ReportSignatureKind; // recorded when the action signs the report
+}
+
+/**
+ * Status changes each action makes. Signing locks the report: a preliminary
+ * report is reopened before it is edited again, and a final report only
+ * changes by a signed amendment.
+ */
+export const REPORT_TRANSITIONS: Record<ReportAction, Transition> = {
+  submit: { from: ['draft'], to: 'under_review' },
+  'sign-preliminary': { from: ['draft', 'under_review'], to: 'preliminary', signature: 'preliminary' },
+  'sign-final': { from: ['draft', 'under_review', 'preliminary'], to: 'final', signature: 'final' },
+  reopen: { from: ['preliminary'], to: 'under_review' },
+  amend: { from: ['final', 'amended'], to: 'amended', signature: 'amendment' }
+};
+
+export const REPORT_ACTIONS = Object.keys(REPORT_TRANSITIONS) as ReportAction[];
+
+export const ATTESTATIONS: Record<ReportSignatureKind, string> = {
+  preliminary: 'I have reviewed the images and this report. It is a preliminary interpretation and may be revised before final sign-off.',
+  final: 'I have personally reviewed the images and this report, and I agree with the findings and impression as stated.',
+  amendment: 'I have reviewed the images and amended this signed report as stated. The amendment supersedes the previously signed text.'
+};
+
+/**
+ * Whether a report can be edited without an amendment
+ */
+export function isReportEditable(status: ReportStatus): boolean {
+  return status === 'draft' || status === 'under_review';
+}
+
+export function isReportSigned(status: ReportStatus): boolean {
+  return !isReportEditable(status);
+}
+
+/**
+ * Whether a report has findings or an impression to sign. Reports of jobs
+ * whose analysis failed have neither until a radiologist writes them.
+ */
+export function hasReportFindings(content?: Pick<ReportContent, 'findings' | 'impressions'>): boolean {
+  return !!content && (content.findings.trim() !== '' || content.impressions.length > 0);
+}
+
+/**
+ * Addenda are appended to final reports, leaving the signed text unchanged
+ */
+export function canAddAddendum(status: ReportStatus): boolean {
+  return status === 'final' || status === 'amended';
+}
+
+export function getAvailableActions(status: ReportStatus): ReportAction[] {
+  return REPORT_ACTIONS.filter(action => REPORT_TRANSITIONS[action].from.includes(status));
+}
@@ -0,0 +1,7 @@
+// Kept apart from auth.ts, which needs Node.js crypto, so the page
+// middleware can run on the edge runtime
+
+// Cookie set by the session route; it carries the user's access token
+export const SESSION_COOKIE = 'radiology_session';
+
+export const SESSION_MAX_AGE_SECONDS = 12 * 60 * 60;
@@ -0,0 +1,172 @@
+import { ImageSeries, ImageStudy, MedicalImage, PatientStudies, SeriesInstance } from '@/types/medical';
+
+const UNKNOWN_PATIENT_KEY = 'unknown-patient';
+const UPLOADED_STUDY_KEY = 'derived:uploaded-images';
+
+/**
+ * Split a plain image file name into a series name and instance number.
+ * "chest_ct_012.png" -> { series: "chest_ct", instanceNumber: 12 };
+ * "scan copy 3.png" -> { series: "scan", instanceNumber: 3 }. Digits that
+ * follow a dot (e.g. "22.54.24") are treated as part of the name.
+ */
+export function parseFilenameSeries(originalName: string): { series: string; instanceNumber?: number } {
+  let name = originalName.replace(/\.[^/.]+$/, '').trim();
+  let instanceNumber: number | undefined;
+
+  // Finder/Explorer duplicates: "name copy", "name copy 2", "name (2)"
+  const copyMatch = name.match(/[\s_-]*(?:\((\d+)\)|copy(?:[\s_-]*(\d+))?)$/i);
+  if (copyMatch && copyMatch.index! > 0) {
+    instanceNumber = Number(copyMatch[1] || copyMatch[2] || 1);
+    name = name.slice(0, copyMatch.index);
+  } else {
+    const numberMatch = name.match(/[A-Za-z_\-\s]([_\-\s]*)(\d+)$/);
+    if (numberMatch) {
+      instanceNumber = Number(numberMatch[2]);
+      name = name.slice(0, numberMatch.index! + 1);
+    }
+  }
+
+  const series = name.replace(/[_\-\s]+$/, '') || originalName;
+  return { series, instanceNumber };
+}
+
+/**
+ * Key of the series an image belongs to: its Series Instance UID, or a key
+ * derived from the file name for images without DICOM metadata
+ */
+export function getSeriesKey(image: MedicalImage): string {
+  if (image.metadata?.seriesInstanceUid) {
+    return image.metadata.seriesInstanceUid;
+  }
+  return `derived:${parseFilenameSeries(image.originalName).series.toLowerCase()}`;
+}
+
+/**
+ * Label of an image in reports, matching how batch prompts describe it
+ */
+export function describeImage(image: MedicalImage): string {
+  let label = image.originalName;
+  if (image.frame) label += ` frame ${image.frame.frameNumber}`;
+  if (image.window?.name) label += ` (${image.window.name} window)`;
+  return label;
+}
+
+export function getInstanceKey(image: MedicalImage): string {
+  return image.metadata?.sopInstanceUid || image.frame?.parentSopInstanceUid || `derived:${image.fileName}`;
+}
+
+export function getInstanceNumber(image: MedicalImage): number | undefined {
+  return image.metadata?.instanceNumber ?? parseFilenameSeries(image.originalName).instanceNumber;
+}
+
+function compareOptionalNumbers(a?: number, b?: number): number {
+  if (a === undefined && b === undefined) return 0;
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+  return a - b;
+}
+
+/**
+ * Group images by series, keeping series in upload order
+ */
+export function groupImagesBySeries(images: MedicalImage[]): Map<string, MedicalImage[]> {
+  const groups = new Map<string, MedicalImage[]>();
+  images.forEach(image => {
+    const key = getSeriesKey(image);
+    const group = groups.get(key);
+    if (group) {
+      group.push(image);
+    } else {
+      groups.set(key, [image]);
+    }
+  });
+  return groups;
+}
+
+function buildSeries(seriesKey: string, images: MedicalImage[]): ImageSeries {
+  const first = images.find(img => img.metadata) || images[0];
+  const instances = new Map<string, SeriesInstance>();
+
+  images.forEach(image => {
+    const key = getInstanceKey(image);
+    const instance = instances.get(key) || {
+      sopInstanceUid: key,
+      instanceNumber: getInstanceNumber(image),
+      imageIds: []
+    };
+    instance.imageIds.push(image.id);
+    instances.set(key, instance);
+  });
+
+  return {
+    seriesKey,
+    seriesInstanceUid: first.metadata?.seriesInstanceUid,
+    seriesNumber: first.metadata?.seriesNumber,
+    description: first.metadata?.seriesDescription || (first.metadata?.seriesInstanceUid
+      ? undefined
+      : parseFilenameSeries(first.originalName).series),
+    modality: first.metadata?.modality,
+    bodyPart: first.metadata?.bodyPart,
+    instances: Array.from(instances.values()).sort((a, b) =>
+      compareOptionalNumbers(a.instanceNumber, b.instanceNumber)
+    ),
+    imageCount: images.length
+  };
+}
+
+/**
+ * Build the Patient -> Study -> Series -> Instance hierarchy of an upload.
+ * DICOM images are grouped by their UIDs; plain images without metadata are
+ * placed in a single derived study, with series derived from file names.
+ */
+export function groupImagesByStudy(images: MedicalImage[]): PatientStudies[] {
+  const patients = new Map<string, PatientStudies>();
+  const studies = new Map<string, ImageStudy>();
+
+  groupImagesBySeries(images).forEach((seriesImages, seriesKey) => {
+    const first = seriesImages.find(img => img.metadata) || seriesImages[0];
+    const metadata = first.metadata;
+
+    const patientKey = metadata?.patientId || metadata?.patientName || UNKNOWN_PATIENT_KEY;
+    let patient = patients.get(patientKey);
+    if (!patient) {
+      patient = {
+        patientKey,
+        patientId: metadata?.patientId,
+        patientName: metadata?.patientName,
+        studies: []
+      };
+      patients.set(patientKey, patient);
+    }
+
+    const studyKey = metadata?.studyInstanceUid || `${patientKey}:${UPLOADED_STUDY_KEY}`;
+    let study = studies.get(studyKey);
+    if (!study) {
+      study = {
+        studyKey,
+        studyInstanceUid: metadata?.studyInstanceUid,
+        studyDate: metadata?.studyDate,
+        description: metadata?.studyDescription || (metadata?.studyInstanceUid ? undefined : 'Uploaded images'),
+        series: []
+      };
+      studies.set(studyKey, study);
+      patient.studies.push(study);
+    }
+
+    study.series.push(buildSeries(seriesKey, seriesImages));
+  });
+
+  // Series in acquisition order where Series Number is known
+  studies.forEach(study => {
+    study.series.sort((a, b) => compareOptionalNumbers(a.seriesNumber, b.seriesNumber));
+  });
+
+  return Array.from(patients.values());
+}
+
+export function countSeries(patients: PatientStudies[]): number {
+  return patients.reduce(
+    (sum, patient) => sum + patient.studies.reduce((studySum, study) => studySum + study.series.length, 0),
+    0
+  );
+}
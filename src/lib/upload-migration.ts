@@ -0,0 +1,97 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { MedicalImage } from '@/types/medical';
+import { getDatabase } from './db';
+import { UploadStorage, getUploadUrl, sanitizeFileName } from './upload-storage';
+
+export interface LegacyUploadMigrationResult {
+  files: number; // plaintext files moved out of public/uploads
+  images: number; // images whose data was kept in a batch
+}
+
+// Where uploads were written before they were encrypted; served to anyone
+const LEGACY_DIRECTORY = path.join(process.cwd(), 'public', 'uploads');
+const LEGACY_ROUTE = '/uploads/';
+
+// Legacy URLs point to the same names in upload storage
+function toUploadUrl(url: string | undefined): string | undefined {
+  return url?.startsWith(LEGACY_ROUTE) ? getUploadUrl(url.slice(LEGACY_ROUTE.length)) : url;
+}
+
+/**
+ * Encrypt the files left in public/uploads into upload storage and delete
+ * the plaintext. Files are named as the upload route named them, with
+ * "_converted" in the name of renditions rendered from DICOM.
+ */
+async function migrateLegacyFiles(): Promise<number> {
+  if (!existsSync(LEGACY_DIRECTORY)) return 0;
+
+  let moved = 0;
+  for (const entry of await fs.readdir(LEGACY_DIRECTORY, { withFileTypes: true })) {
+    if (!entry.isFile() || entry.name.startsWith('.')) continue;
+
+    const file = path.join(LEGACY_DIRECTORY, entry.name);
+    const name = sanitizeFileName(entry.name);
+    // Already moved when an earlier run could not delete the plaintext
+    if (!UploadStorage.get(name)) {
+      await UploadStorage.save(name, await fs.readFile(file), name.includes('_converted') ? 'converted' : 'original');
+    }
+    await fs.rm(file);
+    moved++;
+  }
+  return moved;
+}
+
+/**
+ * Move image data kept in batches into upload storage, and point image URLs
+ * at the upload route. Non-DICOM images were only kept in the batch, so
+ * their data becomes their converted rendition.
+ */
+async function migrateBatchImages(): Promise<number> {
+  const db = getDatabase();
+  // One batch in memory at a time; the image data can be large
+  const batchIds = db.prepare(`
+    SELECT id FROM batches WHERE images LIKE '%"base64Data"%' OR images LIKE '%"/uploads/%'
+  `).pluck().all() as string[];
+  const selectBatch = db.prepare('SELECT job_id, images FROM batches WHERE id = ?');
+
+  let moved = 0;
+  for (const batchId of batchIds) {
+    const row = selectBatch.get(batchId) as { job_id: string; images: string };
+    const images: MedicalImage[] = [];
+    for (const image of JSON.parse(row.images) as MedicalImage[]) {
+      const { base64Data, ...rest } = image;
+      const migrated: MedicalImage = {
+        ...rest,
+        filePath: toUploadUrl(image.filePath) ?? image.filePath,
+        convertedPath: toUploadUrl(image.convertedPath)
+      };
+
+      if (base64Data && !(await UploadStorage.readImage(migrated).catch(() => undefined))) {
+        const name = `${sanitizeFileName(image.id)}_converted.png`;
+        migrated.convertedPath = UploadStorage.get(name)
+          ? getUploadUrl(name)
+          : await UploadStorage.save(name, Buffer.from(base64Data, 'base64'), 'converted');
+      }
+      if (base64Data) moved++;
+      images.push(migrated);
+    }
+
+    db.transaction(() => {
+      db.prepare('UPDATE batches SET images = ? WHERE id = ?').run(JSON.stringify(images), batchId);
+      UploadStorage.assignToJob(row.job_id, images);
+    })();
+  }
+  return moved;
+}
+
+/**
+ * Move uploads kept in plaintext by earlier versions, in public/uploads and
+ * in the database, into encrypted upload storage. Safe to run on every
+ * start; there is nothing to do once the data has been moved.
+ */
+export async function migrateLegacyUploads(): Promise<LegacyUploadMigrationResult> {
+  const files = await migrateLegacyFiles();
+  const images = await migrateBatchImages();
+  return { files, images };
+}
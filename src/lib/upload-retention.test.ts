@@ -0,0 +1,144 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MedicalImage, StoredUpload } from '@/types/medical';
+import { ReportSynthesis } from '@/types/report';
+import { JobQueue } from './job-queue';
+import { ReportRepository } from './report-repository';
+import { UploadRetentionConfig, getUploadRetentionConfig, purgeExpiredUploads } from './upload-retention';
+import { UploadStorage } from './upload-storage';
+
+const directory = mkdtempSync(path.join(tmpdir(), 'upload-retention-'));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SYNTHESIS: ReportSynthesis = {
+  findings: 'No pneumothorax.',
+  impressions: [{ statement: 'Normal chest radiograph', evidence: [] }],
+  recommendations: 'None.',
+  sections: [],
+  source: 'model'
+};
+
+beforeEach(() => {
+  vi.stubEnv('UPLOAD_STORAGE_DIR', directory);
+  vi.stubEnv('UPLOAD_ENCRYPTION_KEY', 'c'.repeat(64));
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+let fileCount = 0;
+
+async function storeFile(kind: StoredUpload['kind']): Promise<string> {
+  const name = `file_${++fileCount}.png`;
+  await UploadStorage.save(name, Buffer.from(name), kind);
+  return name;
+}
+
+/**
+ * An original and its converted image, submitted with a job whose report
+ * is signed final when `finalize` is set
+ */
+async function submitStudy(finalize: boolean) {
+  const original = await storeFile('original');
+  const converted = await storeFile('converted');
+  const image: MedicalImage = {
+    id: `img_${original}`,
+    originalName: 'scan.dcm',
+    fileName: original,
+    filePath: `/api/uploads/${original}`,
+    fileType: 'DICOM',
+    fileSize: 1,
+    isDicom: true,
+    convertedPath: `/api/uploads/${converted}`,
+    uploadedAt: new Date(),
+    processed: false
+  };
+  const job = JobQueue.createJob([]);
+  UploadStorage.assignToJob(job.id, [image]);
+
+  const report = ReportRepository.save({
+    jobId: job.id,
+    patientInfo: {},
+    totalImages: 1,
+    reportText: 'Report',
+    synthesis: SYNTHESIS,
+    recommendations: 'None.',
+    statistics: { totalImages: 1, totalBatches: 1, successfulBatches: 1, failedBatches: 0, successRate: 100 },
+    criticalFindings: [],
+    createdAt: new Date()
+  });
+  const signedAt = new Date();
+  if (finalize) {
+    ReportRepository.transition(report.id, 'sign-final', { signedBy: 'Dr. Grey' });
+  }
+  return { original, converted, signedAt };
+}
+
+const isPurged = (name: string) => !!UploadStorage.get(name)?.purgedAt;
+
+const daysAfter = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+describe('purgeExpiredUploads', () => {
+  it('keeps everything without retention rules', async () => {
+    const { original, signedAt } = await submitStudy(true);
+    const config: UploadRetentionConfig = { intervalMinutes: 60 };
+
+    expect(await purgeExpiredUploads(config, daysAfter(signedAt, 3650))).toEqual({ purged: 0, failed: 0 });
+    expect(isPurged(original)).toBe(false);
+  });
+
+  it('deletes originals and converted images once their own period after the final signature has passed', async () => {
+    const { original, converted, signedAt } = await submitStudy(true);
+    const config: UploadRetentionConfig = { originalsDays: 30, convertedDays: 90, intervalMinutes: 60 };
+
+    await purgeExpiredUploads(config, daysAfter(signedAt, 29));
+    expect(isPurged(original)).toBe(false);
+
+    await purgeExpiredUploads(config, daysAfter(signedAt, 31));
+    expect(isPurged(original)).toBe(true);
+    expect(isPurged(converted)).toBe(false);
+    expect(UploadStorage.get(original)!.purgeReason).toBe('Original retained 30 days after the report was finalized');
+    expect(await UploadStorage.read(original)).toBeUndefined();
+
+    await purgeExpiredUploads(config, daysAfter(signedAt, 91));
+    expect(isPurged(converted)).toBe(true);
+  });
+
+  it('keeps the files of jobs without a final report', async () => {
+    const { original, converted, signedAt } = await submitStudy(false);
+    const config: UploadRetentionConfig = { originalsDays: 0, convertedDays: 0, intervalMinutes: 60 };
+
+    await purgeExpiredUploads(config, daysAfter(signedAt, 365));
+    expect(isPurged(original)).toBe(false);
+    expect(isPurged(converted)).toBe(false);
+  });
+
+  it('deletes uploads never submitted for analysis after the unassigned period', async () => {
+    const uploadedAt = new Date();
+    const unassigned = await storeFile('original');
+    const { original } = await submitStudy(false);
+    const config: UploadRetentionConfig = { unassignedDays: 7, intervalMinutes: 60 };
+
+    await purgeExpiredUploads(config, daysAfter(uploadedAt, 6));
+    expect(isPurged(unassigned)).toBe(false);
+
+    await purgeExpiredUploads(config, daysAfter(uploadedAt, 8));
+    expect(isPurged(unassigned)).toBe(true);
+    expect(isPurged(original)).toBe(false);
+  });
+});
+
+describe('getUploadRetentionConfig', () => {
+  it('reads the retention periods in days', () => {
+    expect(getUploadRetentionConfig({ RETENTION_ORIGINALS_DAYS: '30', RETENTION_CLEANUP_INTERVAL_MINUTES: '15' }))
+      .toEqual({ originalsDays: 30, convertedDays: undefined, unassignedDays: undefined, intervalMinutes: 15 });
+  });
+
+  it('rejects negative periods', () => {
+    expect(() => getUploadRetentionConfig({ RETENTION_CONVERTED_DAYS: '-1' })).toThrow(/RETENTION_CONVERTED_DAYS/);
+  });
+});
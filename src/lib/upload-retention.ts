@@ -0,0 +1,141 @@
+import { StoredUpload } from '@/types/medical';
+import { getDatabase } from './db';
+import { UploadStorage } from './upload-storage';
+
+export interface UploadRetentionConfig {
+  originalsDays?: number;
+  convertedDays?: number;
+  unassignedDays?: number;
+  intervalMinutes: number;
+}
+
+export interface UploadPurgeResult {
+  purged: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const globalForRetention = globalThis as unknown as { uploadRetention?: ReturnType<typeof setInterval> };
+
+function readDays(env: Record<string, string | undefined>, name: string): number | undefined {
+  const value = env[name];
+  if (!value) return undefined;
+
+  const days = Number(value);
+  if (!Number.isFinite(days) || days < 0) {
+    throw new Error(`${name} must be a number of days, 0 or more`);
+  }
+  return days;
+}
+
+/**
+ * Read the upload retention rules from server-side environment variables.
+ * Files are kept unless a rule applies to them.
+ *
+ * - RETENTION_ORIGINALS_DAYS: delete uploaded originals this many days after
+ *   the report of the job they were submitted with is signed final
+ * - RETENTION_CONVERTED_DAYS: the same for the images analyzed, rendered
+ *   from DICOM or resized from the upload
+ * - RETENTION_UNASSIGNED_DAYS: delete uploads never submitted for analysis
+ *   this many days after they were uploaded
+ * - RETENTION_CLEANUP_INTERVAL_MINUTES: how often the cleanup runs, hourly by default
+ */
+export function getUploadRetentionConfig(env: Record<string, string | undefined> = process.env): UploadRetentionConfig {
+  const interval = Number(env.RETENTION_CLEANUP_INTERVAL_MINUTES);
+  return {
+    originalsDays: readDays(env, 'RETENTION_ORIGINALS_DAYS'),
+    convertedDays: readDays(env, 'RETENTION_CONVERTED_DAYS'),
+    unassignedDays: readDays(env, 'RETENTION_UNASSIGNED_DAYS'),
+    intervalMinutes: env.RETENTION_CLEANUP_INTERVAL_MINUTES && Number.isFinite(interval) && interval > 0 ? interval : 60
+  };
+}
+
+export function hasRetentionRules(config: UploadRetentionConfig): boolean {
+  return config.originalsDays !== undefined || config.convertedDays !== undefined || config.unassignedDays !== undefined;
+}
+
+/**
+ * Delete the stored files a retention rule has expired, as of `now`. A job
+ * is finalized by the first final signature on any of its reports. Batches
+ * only refer to the stored images, so purged images are left out of
+ * analyses and exported key images from then on.
+ */
+export async function purgeExpiredUploads(
+  config: UploadRetentionConfig = getUploadRetentionConfig(),
+  now = new Date()
+): Promise<UploadPurgeResult> {
+  const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS).toISOString();
+  const rules: { condition: string; params: string[]; reason: string }[] = [];
+
+  const finalizedBefore = (kind: StoredUpload['kind'], days: number, label: string) => ({
+    condition: `stored_files.kind = ? AND (
+      SELECT MIN(report_signatures.signed_at) FROM report_signatures
+      JOIN reports ON reports.id = report_signatures.report_id
+      WHERE reports.job_id = stored_files.job_id AND report_signatures.kind = 'final'
+    ) <= ?`,
+    params: [kind, cutoff(days)],
+    reason: `${label} retained ${days} days after the report was finalized`
+  });
+  if (config.originalsDays !== undefined) {
+    rules.push(finalizedBefore('original', config.originalsDays, 'Original'));
+  }
+  if (config.convertedDays !== undefined) {
+    rules.push(finalizedBefore('converted', config.convertedDays, 'Converted image'));
+  }
+  if (config.unassignedDays !== undefined) {
+    rules.push({
+      condition: 'stored_files.job_id IS NULL AND stored_files.created_at <= ?',
+      params: [cutoff(config.unassignedDays)],
+      reason: `Not submitted for analysis within ${config.unassignedDays} days of upload`
+    });
+  }
+
+  const result: UploadPurgeResult = { purged: 0, failed: 0 };
+  const db = getDatabase();
+  for (const rule of rules) {
+    const names = db.prepare(`
+      SELECT name FROM stored_files WHERE purged_at IS NULL AND ${rule.condition}
+    `).pluck().all(...rule.params) as string[];
+
+    for (const name of names) {
+      try {
+        await UploadStorage.purge(name, rule.reason);
+        result.purged++;
+      } catch (error) {
+        console.error(`Failed to delete stored file ${name}:`, error);
+        result.failed++;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * Run the retention cleanup now and then every
+ * RETENTION_CLEANUP_INTERVAL_MINUTES, once per process. Nothing is
+ * scheduled when no retention rule is configured.
+ */
+export function ensureUploadRetention() {
+  if (globalForRetention.uploadRetention) return;
+
+  let config: UploadRetentionConfig;
+  try {
+    config = getUploadRetentionConfig();
+  } catch (error) {
+    console.error('Upload retention is not scheduled:', error instanceof Error ? error.message : error);
+    return;
+  }
+  if (!hasRetentionRules(config)) return;
+
+  // Deleted files keep their record with the reason; failures are logged per file
+  const run = () => {
+    purgeExpiredUploads(config)
+      .catch(error => console.error('Upload retention cleanup failed:', error));
+  };
+
+  globalForRetention.uploadRetention = setInterval(run, config.intervalMinutes * 60 * 1000);
+  // The schedule alone does not keep the process running
+  globalForRetention.uploadRetention.unref?.();
+  run();
+}
@@ -0,0 +1,74 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UploadStorage, getUploadUrl } from './upload-storage';
+
+const directory = mkdtempSync(path.join(tmpdir(), 'upload-storage-'));
+const KEY = 'a'.repeat(64);
+const IMAGE = Buffer.from('PNG pixel data of patient Jane Doe');
+
+beforeEach(() => {
+  vi.stubEnv('UPLOAD_STORAGE_DIR', directory);
+  vi.stubEnv('UPLOAD_ENCRYPTION_KEY', KEY);
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('UploadStorage', () => {
+  it('encrypts files at rest and reads them back', async () => {
+    const url = await UploadStorage.save('round-trip.png', IMAGE, 'converted');
+
+    expect(url).toBe(getUploadUrl('round-trip.png'));
+    expect(readFileSync(path.join(directory, 'round-trip.png')).includes(IMAGE)).toBe(false);
+    expect(await UploadStorage.read('round-trip.png')).toEqual(IMAGE);
+    expect(await UploadStorage.readImage({
+      id: 'img_1',
+      originalName: 'scan.png',
+      fileName: 'scan.png',
+      filePath: url,
+      fileType: 'PNG',
+      fileSize: IMAGE.length,
+      isDicom: false,
+      convertedPath: url,
+      uploadedAt: new Date(),
+      processed: false
+    })).toEqual(IMAGE);
+  });
+
+  it('rejects files changed on disk', async () => {
+    await UploadStorage.save('tampered.png', IMAGE, 'original');
+    const file = path.join(directory, 'tampered.png');
+    const data = readFileSync(file);
+    data[data.length - 1] ^= 1;
+    writeFileSync(file, data);
+
+    await expect(UploadStorage.read('tampered.png')).rejects.toThrow();
+  });
+
+  it('rejects a file copied over another one', async () => {
+    await UploadStorage.save('first.png', IMAGE, 'original');
+    await UploadStorage.save('second.png', Buffer.from('another study'), 'original');
+    writeFileSync(path.join(directory, 'second.png'), readFileSync(path.join(directory, 'first.png')));
+
+    await expect(UploadStorage.read('second.png')).rejects.toThrow();
+  });
+
+  it('rejects files encrypted with another key', async () => {
+    await UploadStorage.save('other-key.png', IMAGE, 'original');
+    vi.stubEnv('UPLOAD_ENCRYPTION_KEY', 'b'.repeat(64));
+
+    await expect(UploadStorage.read('other-key.png')).rejects.toThrow();
+  });
+
+  it('no longer reads purged files', async () => {
+    await UploadStorage.save('purged.png', IMAGE, 'original');
+    await UploadStorage.purge('purged.png', 'Test');
+
+    expect(await UploadStorage.read('purged.png')).toBeUndefined();
+    expect(UploadStorage.get('purged.png')).toMatchObject({ purgeReason: 'Test' });
+  });
+});
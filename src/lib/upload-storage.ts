@@ -0,0 +1,234 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, promises as fs, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { MedicalImage, StoredUpload } from '@/types/medical';
+import { getDatabase } from './db';
+
+interface StoredFileRow {
+  name: string;
+  kind: StoredUpload['kind'];
+  size: number;
+  job_id: string | null;
+  created_at: string;
+  purged_at: string | null;
+  purge_reason: string | null;
+}
+
+export interface UploadStorageConfig {
+  directory: string;
+  encryptionKey?: Buffer;
+}
+
+// Encrypted files: magic, 12 byte IV, 16 byte GCM tag, then the ciphertext
+const MAGIC = Buffer.from('RDE1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+// Route the stored files are served from
+export const UPLOAD_ROUTE = '/api/uploads';
+
+// Names the upload route generates; anything else is not a stored file
+const FILE_NAME_PATTERN = /^[\w-][\w.-]*$/;
+
+/**
+ * Read the upload storage settings from server-side environment variables:
+ *
+ * - UPLOAD_STORAGE_DIR: private directory for uploads, data/uploads by default;
+ *   it must not be under public/
+ * - UPLOAD_ENCRYPTION_KEY: 256-bit key the files are encrypted with (AES-256-GCM),
+ *   as 64 hex characters or base64. Required in production; elsewhere a key is
+ *   generated into the storage directory on first use.
+ *
+ * Files are read back through /api/uploads by signed-in users, see auth.ts.
+ */
+export function getUploadStorageConfig(env: Record<string, string | undefined> = process.env): UploadStorageConfig {
+  const directory = path.resolve(env.UPLOAD_STORAGE_DIR || path.join(process.cwd(), 'data', 'uploads'));
+  const publicDirectory = path.join(process.cwd(), 'public');
+  if (directory === publicDirectory || directory.startsWith(publicDirectory + path.sep)) {
+    throw new Error('UPLOAD_STORAGE_DIR must not be under public/, which is served to anyone');
+  }
+
+  let encryptionKey: Buffer | undefined;
+  if (env.UPLOAD_ENCRYPTION_KEY) {
+    const value = env.UPLOAD_ENCRYPTION_KEY.trim();
+    encryptionKey = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+    if (encryptionKey.length !== 32) {
+      throw new Error('UPLOAD_ENCRYPTION_KEY must be 32 bytes, as 64 hex characters or base64');
+    }
+  } else if (env.NODE_ENV === 'production') {
+    throw new Error('UPLOAD_ENCRYPTION_KEY is required in production');
+  }
+
+  return { directory, encryptionKey };
+}
+
+/**
+ * The configured key, or outside production one generated into the storage
+ * directory, so development setups work without configuration
+ */
+function getEncryptionKey(config: UploadStorageConfig): Buffer {
+  if (config.encryptionKey) return config.encryptionKey;
+
+  const keyFile = path.join(config.directory, '.development-key');
+  if (!existsSync(keyFile)) {
+    mkdirSync(config.directory, { recursive: true });
+    try {
+      writeFileSync(keyFile, randomBytes(32).toString('hex'), { mode: 0o600, flag: 'wx' });
+      console.warn('UPLOAD_ENCRYPTION_KEY is not set; uploads are encrypted with a generated development key');
+    } catch (error) {
+      // Another request generated the key first
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+  }
+  return Buffer.from(readFileSync(keyFile, 'utf8').trim(), 'hex');
+}
+
+// The file name is authenticated with the contents, so files cannot be swapped
+function encrypt(data: Buffer, key: Buffer, name: string): Buffer {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  cipher.setAAD(Buffer.from(name));
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([MAGIC, iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function decrypt(data: Buffer, key: Buffer, name: string): Buffer {
+  if (data.length < MAGIC.length + IV_LENGTH + TAG_LENGTH || !data.subarray(0, MAGIC.length).equals(MAGIC)) {
+    throw new Error(`Stored file ${name} is not encrypted upload storage`);
+  }
+  const iv = data.subarray(MAGIC.length, MAGIC.length + IV_LENGTH);
+  const tag = data.subarray(MAGIC.length + IV_LENGTH, MAGIC.length + IV_LENGTH + TAG_LENGTH);
+  const decipher = createDecipheriv('aes-256-gcm', key, iv);
+  decipher.setAAD(Buffer.from(name));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data.subarray(MAGIC.length + IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+/**
+ * A file name reduced to characters that are safe in stored file names
+ */
+export function sanitizeFileName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9.-]/g, '_');
+}
+
+export function getUploadUrl(name: string): string {
+  return `${UPLOAD_ROUTE}/${encodeURIComponent(name)}`;
+}
+
+// Stored file a URL from getUploadUrl points to
+function getStoredFileName(url: string | undefined): string | undefined {
+  const name = url && decodeURIComponent(path.posix.basename(url));
+  return name && FILE_NAME_PATTERN.test(name) ? name : undefined;
+}
+
+/**
+ * Stored files an image was uploaded and converted as
+ */
+function getImageFileNames(image: MedicalImage): string[] {
+  return [image.fileName, getStoredFileName(image.convertedPath)]
+    .filter((name): name is string => !!name && FILE_NAME_PATTERN.test(name));
+}
+
+function toStoredUpload(row: StoredFileRow): StoredUpload {
+  return {
+    name: row.name,
+    kind: row.kind,
+    size: row.size,
+    jobId: row.job_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    purgedAt: row.purged_at ? new Date(row.purged_at) : undefined,
+    purgeReason: row.purge_reason ?? undefined
+  };
+}
+
+/**
+ * Uploaded files and their converted renditions, encrypted in a private
+ * directory and recorded in the database. Nothing is served statically;
+ * files are read back through the upload route, which requires sign-in.
+ */
+export class UploadStorage {
+  /**
+   * Encrypt and store a file, returning the URL it is served from
+   */
+  static async save(name: string, data: Buffer, kind: StoredUpload['kind']): Promise<string> {
+    if (!FILE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid stored file name ${name}`);
+    }
+    const config = getUploadStorageConfig();
+    await fs.mkdir(config.directory, { recursive: true });
+    await fs.writeFile(path.join(config.directory, name), encrypt(data, getEncryptionKey(config), name), { mode: 0o600 });
+
+    getDatabase().prepare(`
+      INSERT INTO stored_files (name, kind, size, created_at) VALUES (?, ?, ?, ?)
+    `).run(name, kind, data.length, new Date().toISOString());
+    return getUploadUrl(name);
+  }
+
+  static get(name: string): StoredUpload | undefined {
+    const row = getDatabase()
+      .prepare('SELECT * FROM stored_files WHERE name = ?')
+      .get(name) as StoredFileRow | undefined;
+    return row && toStoredUpload(row);
+  }
+
+  /**
+   * The decrypted contents of a stored file that has not been purged
+   */
+  static async read(name: string): Promise<Buffer | undefined> {
+    const file = this.get(name);
+    if (!file || file.purgedAt) return undefined;
+
+    const config = getUploadStorageConfig();
+    const data = await fs.readFile(path.join(config.directory, name));
+    return decrypt(data, getEncryptionKey(config), name);
+  }
+
+  /**
+   * The image as analyzed: the PNG rendered from DICOM or resized from the
+   * upload. Undefined when it was not stored or has been purged.
+   */
+  static async readImage(image: MedicalImage): Promise<Buffer | undefined> {
+    const name = getStoredFileName(image.convertedPath);
+    return name ? this.read(name) : undefined;
+  }
+
+  /**
+   * `images` with their data read from storage, for analysis and exports.
+   * Image data is neither taken from clients nor kept in the database;
+   * images that cannot be read come back without it.
+   */
+  static async withImageData(images: MedicalImage[]): Promise<MedicalImage[]> {
+    const result: MedicalImage[] = [];
+    for (const image of images) {
+      let data: Buffer | undefined;
+      try {
+        data = await this.readImage(image);
+      } catch (error) {
+        console.error(`Failed to read stored image ${image.id}:`, error);
+      }
+      result.push({ ...image, base64Data: data?.toString('base64') });
+    }
+    return result;
+  }
+
+  /**
+   * Record the job the files of `images` were submitted with, which
+   * decides when retention rules apply to them
+   */
+  static assignToJob(jobId: string, images: MedicalImage[]) {
+    const update = getDatabase().prepare('UPDATE stored_files SET job_id = ? WHERE name = ?');
+    const names = new Set(images.flatMap(getImageFileNames));
+    names.forEach(name => update.run(jobId, name));
+  }
+
+  /**
+   * Delete a stored file, keeping its record with the reason
+   */
+  static async purge(name: string, reason: string) {
+    const config = getUploadStorageConfig();
+    await fs.rm(path.join(config.directory, name), { force: true });
+    getDatabase().prepare(`
+      UPDATE stored_files SET purged_at = ?, purge_reason = ? WHERE name = ? AND purged_at IS NULL
+    `).run(new Date().toISOString(), reason, name);
+  }
+}
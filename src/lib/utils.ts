@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Pick up to `max` evenly spaced indexes from 0..count-1, always keeping
+ * the first and last index
+ */
+export function evenlySpacedIndexes(count: number, max: number): number[] {
+  if (max <= 0 || count <= 0) return []
+  if (count <= max) return Array.from({ length: count }, (_, i) => i)
+  if (max === 1) return [0]
+
+  const step = (count - 1) / (max - 1)
+  return Array.from({ length: max }, (_, i) => Math.round(i * step))
+}
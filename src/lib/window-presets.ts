@@ -0,0 +1,33 @@
+import { DicomWindow } from '@/types/medical';
+
+export type WindowPresetName = 'lung' | 'mediastinum' | 'bone' | 'brain' | 'abdomen';
+
+/**
+ * Standard CT window settings in Hounsfield units
+ */
+export const WINDOW_PRESETS: Record<WindowPresetName, DicomWindow & { label: string }> = {
+  lung: { label: 'Lung', center: -600, width: 1500 },
+  mediastinum: { label: 'Mediastinum', center: 50, width: 350 },
+  bone: { label: 'Bone', center: 400, width: 1800 },
+  brain: { label: 'Brain', center: 40, width: 80 },
+  abdomen: { label: 'Abdomen', center: 40, width: 400 },
+};
+
+export function isWindowPresetName(value: string): value is WindowPresetName {
+  return Object.prototype.hasOwnProperty.call(WINDOW_PRESETS, value);
+}
+
+/**
+ * Parse preset names from request values, accepting repeated and comma-separated entries
+ */
+export function parseWindowPresets(values: string[]): { presets: WindowPresetName[]; invalid: string[] } {
+  const names = values
+    .flatMap(value => value.split(','))
+    .map(value => value.trim().toLowerCase())
+    .filter(Boolean);
+
+  const presets = Array.from(new Set(names.filter(isWindowPresetName)));
+  const invalid = names.filter(name => !isWindowPresetName(name));
+
+  return { presets, invalid };
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/session';
+
+/**
+ * Send visitors without a session to the sign-in page. This only checks
+ * that the cookie is present; the API routes verify it.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) return NextResponse.next();
+
+  const url = request.nextUrl.clone();
+  url.pathname = '/login';
+  url.search = `?next=${encodeURIComponent(request.nextUrl.pathname + request.nextUrl.search)}`;
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves
+  matcher: ['/((?!api|_next|login|favicon.ico|.*\\.[\\w]+$).*)']
+};
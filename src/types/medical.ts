@@ -1,6 +1,8 @@
 export interface DicomMetadata {
   patientName?: string;
   patientId?: string;
+  patientSex?: string;
+  patientAge?: string; // DICOM age string, e.g. "045Y"
   studyDate?: string;
   studyTime?: string;
   modality?: string;
@@ -9,6 +11,55 @@ export interface DicomMetadata {
   seriesDescription?: string;
   institutionName?: string;
   physicianName?: string;
+  studyInstanceUid?: string;
+  seriesInstanceUid?: string;
+  sopInstanceUid?: string;
+  seriesNumber?: number;
+  instanceNumber?: number;
+  sliceLocation?: number; // mm along the stack axis
+  numberOfFrames?: number;
+  burnedInAnnotation?: boolean; // pixels carry identifying text
+}
+
+export interface DicomFrameInfo {
+  frameNumber: number; // 1-based, as cited in reports
+  numberOfFrames: number;
+  parentSopInstanceUid?: string; // SOP instance the frame was split from
+  frameTimeOffsetMs?: number; // time from the first frame of a cine loop
+  acquisitionDateTime?: string;
+  stackId?: string;
+  inStackPositionNumber?: number;
+  temporalPositionIndex?: number;
+  dimensionIndexValues?: number[];
+  imagePositionPatient?: number[];
+}
+
+export interface DicomWindow {
+  center: number;
+  width: number;
+  name?: string;
+}
+
+export interface DicomLookupTable {
+  firstValueMapped: number;
+  bitsPerEntry: number;
+  data: Uint16Array;
+}
+
+export interface DicomPixelData {
+  width: number;
+  height: number;
+  samplesPerPixel: number;
+  photometricInterpretation: string;
+  bitsAllocated: number;
+  bitsStored: number;
+  pixelRepresentation: number; // 0 = unsigned, 1 = two's complement
+  rescaleSlope: number;
+  rescaleIntercept: number;
+  windows: DicomWindow[]; // Window Center/Width pairs from the header
+  voiLutFunction: 'LINEAR' | 'LINEAR_EXACT' | 'SIGMOID';
+  voiLut?: DicomLookupTable;
+  pixelData: Float32Array; // modality values, samples interleaved per pixel
 }
 
 export interface MedicalImage {
@@ -21,21 +72,109 @@ export interface MedicalImage {
   isDicom: boolean;
   convertedPath?: string;
   base64Data?: string;
+  window?: DicomWindow; // display window the converted image was rendered with
+  frame?: DicomFrameInfo; // set for images split from a multi-frame object
   metadata?: DicomMetadata;
   uploadedAt: Date;
   processed: boolean;
 }
 
+/**
+ * Copies of images with patient identifiers removed, as sent for analysis,
+ * and the text transforms between the original and de-identified studies
+ */
+export interface DeidentifiedImages {
+  images: MedicalImage[];
+  deidentifyText: (text: string) => string;
+  reidentifyText: (text: string) => string;
+}
+
+/**
+ * An uploaded file or converted rendition, kept encrypted in private storage
+ */
+export interface StoredUpload {
+  name: string;
+  kind: 'original' | 'converted';
+  size: number; // bytes before encryption
+  jobId?: string; // processing job the file was last submitted with
+  createdAt: Date;
+  purgedAt?: Date; // set once a retention rule deleted the file
+  purgeReason?: string;
+}
+
+export interface SeriesInstance {
+  sopInstanceUid: string; // derived from the file name for non-DICOM images
+  instanceNumber?: number;
+  imageIds: string[]; // one per frame/window rendition of the instance
+}
+
+export interface ImageSeries {
+  seriesKey: string; // Series Instance UID, or "derived:<name>" for non-DICOM images
+  seriesInstanceUid?: string;
+  seriesNumber?: number;
+  description?: string;
+  modality?: string;
+  bodyPart?: string;
+  instances: SeriesInstance[];
+  imageCount: number;
+}
+
+export interface ImageStudy {
+  studyKey: string;
+  studyInstanceUid?: string;
+  studyDate?: string;
+  description?: string;
+  series: ImageSeries[];
+}
+
+export interface PatientStudies {
+  patientKey: string;
+  patientId?: string;
+  patientName?: string;
+  studies: ImageStudy[];
+}
+
+export type CriticalFindingCategory =
+  | 'pneumothorax'
+  | 'intracranial_hemorrhage'
+  | 'free_air'
+  | 'pulmonary_embolism'
+  | 'aortic_dissection'
+  | 'other';
+
+/**
+ * A result that must be communicated to the care team right away
+ */
+export interface CriticalFinding {
+  category: CriticalFindingCategory;
+  description: string; // as worded in the analysis
+  images: string[]; // labels of the images showing it, when the model cited them
+  detectedBy: 'model' | 'text'; // flagged by the model, or found in the text of its analysis
+  batchNumber?: number; // 1-based batch position, on report level
+}
+
 export interface ImageBatch {
   id: string;
+  jobId?: string; // processing job the batch was queued under
   images: MedicalImage[];
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  seriesKey?: string; // series the batch was taken from
+  seriesImageCount?: number; // images in the series before sub-sampling
+  estimatedTokens?: number; // estimated image tokens sent with the batch
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   aiResponse?: string;
   error?: string;
+  retryCount?: number; // AI requests retried after transient failures
+  criticalFindings?: CriticalFinding[]; // set once the batch is analyzed
   createdAt: Date;
   completedAt?: Date;
 }
 
+/**
+ * Review workflow of a report. AI output starts as a draft; signing makes it
+ * preliminary or final, after which it only changes by signed amendment.
+ */
+export type ReportStatus = 'draft' | 'under_review' | 'preliminary' | 'final' | 'amended';
+
 export interface DiagnosticReport {
   id: string;
   patientInfo: {
@@ -46,20 +185,64 @@ export interface DiagnosticReport {
   };
   totalImages: number;
   batches: ImageBatch[];
-  status: 'generating' | 'completed' | 'failed';
+  status: ReportStatus;
   findings: string;
   recommendations: string;
+  criticalFindings: CriticalFinding[]; // across all batches
   createdAt: Date;
   completedAt?: Date;
   generatedBy: string;
 }
 
+export type ImageBatchSummary = Omit<ImageBatch, 'images'> & { imageCount: number };
+
+export interface ProcessingJob {
+  id: string;
+  status: 'queued' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  systemPrompt?: string;
+  patientInfo?: DiagnosticReport['patientInfo'];
+  template?: { id: string; name: string; sections: string[] }; // report layout chosen at submission
+  totalImages: number;
+  totalBatches: number;
+  completedBatches: number;
+  failedBatches: number;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type CriticalAlertChannel = 'log' | 'webhook';
+
+/**
+ * Notification of the critical findings of a batch, kept until someone
+ * acknowledges it
+ */
+export interface CriticalAlert {
+  id: string;
+  jobId: string;
+  batchId: string;
+  batchNumber: number; // 1-based
+  reportId?: string; // latest report of the job, once one is generated
+  patientInfo: DiagnosticReport['patientInfo'];
+  findings: CriticalFinding[];
+  channel: CriticalAlertChannel;
+  deliveryStatus: 'pending' | 'delivered' | 'failed';
+  deliveryError?: string;
+  deliveredAt?: Date;
+  acknowledgedBy?: string;
+  acknowledgedAt?: Date;
+  createdAt: Date;
+}
+
 export interface ProcessingStatus {
   totalImages: number;
   processedImages: number;
   currentBatch: number;
   totalBatches: number;
-  status: 'uploading' | 'converting' | 'processing' | 'generating_report' | 'completed' | 'failed';
+  status: 'uploading' | 'converting' | 'processing' | 'paused' | 'generating_report' | 'completed' | 'failed' | 'cancelled';
   progress: number; // 0-100
   error?: string;
+  currentBatchId?: string; // first of the batches being analyzed right now
+  batchErrors?: { batchId: string; batchNumber: number; error: string }[];
 }
\ No newline at end of file
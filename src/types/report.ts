@@ -1,15 +1,50 @@
+import { CriticalFinding, CriticalFindingCategory, DiagnosticReport, ReportStatus } from './medical';
+
 export interface AIAnalysisRequest {
   images: string[]; // base64 encoded images
   systemPrompt: string;
   userPrompt: string;
 }
 
+export interface ImageObservation {
+  image: number; // 1-based position of the image in the batch
+  observation: string;
+}
+
 export interface AIAnalysisResponse {
   findings: string;
+  impressions?: string;
   recommendations: string;
-  confidence: number;
+  confidence?: number; // 0-1, as reported by the model; absent when not reported
   keyObservations: string[];
+  imageObservations: ImageObservation[];
   technicalNotes?: string;
+  criticalFindings: { category: CriticalFindingCategory; description: string; images: number[] }[]; // flagged by the model
+  parseMode: 'json' | 'headings' | 'raw'; // how the model output was read
+  parseErrors?: string[]; // why structured parsing failed, when it did
+}
+
+export interface EvidenceReference {
+  batchId: string;
+  batchNumber: number; // 1-based position of the batch in the job
+  images: string[]; // supporting images, labelled as in the batch prompt
+}
+
+export interface ReportImpression {
+  statement: string;
+  evidence: EvidenceReference[];
+}
+
+/**
+ * One report consolidated from all batch analyses of a job
+ */
+export interface ReportSynthesis {
+  findings: string;
+  impressions: ReportImpression[];
+  recommendations: string;
+  sections: ReportSectionContent[]; // template sections other than findings, impression and recommendations
+  source: 'model' | 'batches'; // 'batches' when combined without the model: one batch, or consolidation failed
+  errors?: string[]; // why consolidation failed, when it did
 }
 
 export interface ReportSection {
@@ -22,13 +57,162 @@ export interface ReportSection {
 export interface ReportTemplate {
   id: string;
   name: string;
+  description?: string;
+  modalities: string[]; // DICOM modality codes the template suits, e.g. CT; empty for any
+  bodyParts: string[]; // DICOM body parts examined, e.g. HEAD; empty for any
   systemPrompt: string;
-  sections: string[];
+  sections: string[]; // report section headings, in order
   isDefault: boolean;
+  builtIn: boolean; // shipped with the application and read-only
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type ReportTemplateInput = Omit<ReportTemplate, 'id' | 'builtIn' | 'createdAt' | 'updatedAt'>;
+
+export interface ReportSectionContent {
+  title: string;
+  content: string;
+}
+
+export interface ReportStatistics {
+  totalImages: number;
+  totalBatches: number;
+  successfulBatches: number;
+  failedBatches: number;
+  successRate: number;
+}
+
+export type ReportSignatureKind = 'preliminary' | 'final' | 'amendment';
+
+/**
+ * Attestation recorded when a radiologist signs a report
+ */
+export interface ReportSignature {
+  kind: ReportSignatureKind;
+  version: number; // report version signed
+  signedBy: string;
+  attestation: string; // statement the signer attested to
+  reason?: string; // why a signed report was amended
+  signedAt: Date;
+}
+
+/**
+ * Note appended to a final report. Addenda never change the signed text.
+ */
+export interface ReportAddendum {
+  id: string;
+  text: string;
+  author: string;
+  createdAt: Date;
+}
+
+// generated: the AI draft; edited: saved by a radiologist before sign-off; amended: changed after sign-off
+export type ReportVersionKind = 'generated' | 'edited' | 'amended';
+
+/**
+ * Immutable snapshot of a report, kept each time its text changes
+ */
+export interface ReportVersion {
+  version: number; // from 1, the AI draft
+  kind: ReportVersionKind;
+  reportText: string;
+  synthesis?: ReportSynthesis;
+  recommendations: string;
+  createdBy?: string; // signer of an amendment
+  createdAt: Date;
+}
+
+export type ReportVersionSummary = Omit<ReportVersion, 'reportText' | 'synthesis' | 'recommendations'>;
+
+export interface ReportDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Line changes of the report text between two versions
+ */
+export interface ReportDiff {
+  from: ReportVersionSummary;
+  to: ReportVersionSummary;
+  lines: ReportDiffLine[];
+  added: number;
+  removed: number;
+}
+
+/**
+ * The parts of a report a radiologist edits: one entry in sections for
+ * every template section other than findings, impression and recommendations
+ */
+export type ReportContent = Pick<ReportSynthesis, 'findings' | 'impressions' | 'recommendations' | 'sections'>;
+
+export type ReportAction = 'submit' | 'reopen' | 'sign-preliminary' | 'sign-final' | 'amend';
+
+/**
+ * A generated report as kept in the database. Its batches and images stay
+ * with the processing job it was generated from.
+ */
+export interface StoredReport {
+  id: string;
+  jobId: string;
+  status: ReportStatus;
+  patientInfo: DiagnosticReport['patientInfo'];
+  bodyPart?: string;
+  templateId?: string;
+  templateName?: string;
+  totalImages: number;
+  reportText: string;
+  synthesis?: ReportSynthesis;
+  recommendations: string;
+  statistics: ReportStatistics;
+  criticalFindings: CriticalFinding[]; // across all batches, see critical-findings.ts
+  version: number; // current version
+  signatures: ReportSignature[]; // oldest first
+  addenda: ReportAddendum[]; // oldest first
+  createdAt: Date;
+  editedAt?: Date; // last saved by a radiologist
+}
+
+/**
+ * Report history entry, without the report body
+ */
+export type ReportSummary = Omit<StoredReport, 'reportText' | 'synthesis' | 'recommendations' | 'signatures' | 'addenda'> & {
+  impression?: string; // first impression item
+  snippet?: string; // report text around the search terms, when searching
+};
+
+export type ReportSortField =
+  'createdAt' | 'patientName' | 'modality' | 'bodyPart' | 'templateName' | 'status' | 'totalImages' | 'relevance';
+
+/**
+ * Report history search. Filters combine; all are optional.
+ */
+export interface ReportSearchQuery {
+  text?: string; // free text across the report, matched by word prefix
+  patient?: string; // part of the patient name or ID
+  modality?: string;
+  bodyPart?: string;
+  status?: ReportStatus;
+  templateId?: string;
+  critical?: boolean; // only reports with, or without, critical findings
+  from?: string; // YYYY-MM-DD, generated on or after
+  to?: string; // YYYY-MM-DD, generated on or before
+  sort?: ReportSortField; // relevance applies to text searches, best match first
+  order?: 'asc' | 'desc';
+  page?: number; // from 1
+  pageSize?: number;
+}
+
+export interface ReportPage {
+  reports: ReportSummary[];
+  page: number; // from 1
+  pageSize: number;
+  total: number;
 }
 
 export interface ExportOptions {
-  format: 'PDF' | 'HTML';
+  format: 'PDF' | 'HTML' | 'MARKDOWN';
   includeImages: boolean;
   includeMetadata: boolean;
   templateId?: string;
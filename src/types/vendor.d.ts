@@ -0,0 +1,43 @@
+// Type declarations for image codec packages that do not ship their own
+
+declare module 'jpeg-lossless-decoder-js' {
+  export class Decoder {
+    constructor(buffer?: ArrayBuffer | null, numBytes?: number);
+    decode(buffer?: ArrayBuffer, offset?: number, length?: number, numBytes?: number): Uint8Array | Uint16Array;
+  }
+}
+
+interface EmscriptenFrameInfo {
+  width: number;
+  height: number;
+  bitsPerSample: number;
+  componentCount: number;
+  isSigned: boolean;
+}
+
+interface EmscriptenModuleOptions {
+  print?: (message: string) => void;
+  printErr?: (message: string) => void;
+}
+
+interface EmscriptenDecoder {
+  getEncodedBuffer(length: number): Uint8Array;
+  getDecodedBuffer(): Uint8Array;
+  decode(): void;
+  getFrameInfo(): EmscriptenFrameInfo;
+  delete(): void;
+}
+
+interface JpegLSDecoder extends EmscriptenDecoder {
+  getInterleaveMode(): number;
+}
+
+declare module '@cornerstonejs/codec-charls/decodewasmjs' {
+  const factory: (options?: EmscriptenModuleOptions) => Promise<{ JpegLSDecoder: new () => JpegLSDecoder }>;
+  export default factory;
+}
+
+declare module '@cornerstonejs/codec-openjpeg/decodewasmjs' {
+  const factory: (options?: EmscriptenModuleOptions) => Promise<{ J2KDecoder: new () => EmscriptenDecoder }>;
+  export default factory;
+}